@@ -6,7 +6,8 @@ export default {
 		type Post
 		@collection(
 			indexes: [
-				{ handle: "Post_slug", type: "unique", fields: [{ handle: "slug", direction: "asc" }] }
+				{ handle: "Post_slug", type: "unique", fields: [{ handle: "slug", direction: "asc" }] },
+				{ handle: "Post_postDate", type: "index", fields: [{ handle: "postDate", direction: "desc" }] }
 			]
 		)
 		{
@@ -35,7 +36,7 @@ export default {
 		}
 
 		type PostCursor {
-			cursor: String
+			cursor: Cursor!
 			item: Post!
 		}
 
@@ -60,6 +61,15 @@ export default {
 					condition: q.eq('slug', 'hello')
 				});
 				return r.slug;
+			},
+			async latestPost(_, { first = 10, after }, context) {
+				const sort = [q.sort('postDate', 'desc'), q.sort('id', 'desc')];
+				const posts = await context.collection.Post.findMany({
+					condition: after ? q.after(after, sort) : undefined,
+					sort,
+					limit: first
+				});
+				return posts.map(item => ({ cursor: q.cursor(item, sort), item }));
 			}
 		},
 		Mutation: {
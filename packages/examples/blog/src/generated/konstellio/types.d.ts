@@ -59,6 +59,7 @@ export interface Post {
 export interface PostIndexes {
 	id: ID;
 	slug: String;
+	postDate: DateTime;
 }
 
 export interface PostInputs {
@@ -15,3 +15,50 @@ export abstract class Cache implements IDisposable {
 	abstract isDisposed(): boolean;
 	abstract dispose(): Promise<void>;
 }
+
+// Encodes values that JSON does not represent, like dates and buffers, so that structured values can
+// be stored in a cache
+export function encode(value: any): string {
+	return JSON.stringify(encodeValue(value));
+}
+
+export function decode(value: string): any {
+	return decodeValue(JSON.parse(value));
+}
+
+function encodeValue(value: any): any {
+	if (value instanceof Date) {
+		return { $type: 'date', value: value.getTime() };
+	} else if (Buffer.isBuffer(value)) {
+		return { $type: 'buffer', value: value.toString('base64') };
+	} else if (Array.isArray(value)) {
+		return value.map(encodeValue);
+	} else if (value && typeof value === 'object') {
+		const encoded: { [key: string]: any } = {};
+		for (const key of Object.keys(value)) {
+			encoded[key] = encodeValue(value[key]);
+		}
+		// Objects that already use $type are wrapped so they are not mistaken for an encoded value
+		return '$type' in value ? { $type: 'object', value: encoded } : encoded;
+	}
+	return value;
+}
+
+function decodeValue(value: any): any {
+	if (Array.isArray(value)) {
+		return value.map(decodeValue);
+	} else if (value && typeof value === 'object') {
+		if (value.$type === 'date') {
+			return new Date(value.value === null ? NaN : value.value);
+		} else if (value.$type === 'buffer') {
+			return Buffer.from(value.value, 'base64');
+		}
+		const source = value.$type === 'object' ? value.value : value;
+		const decoded: { [key: string]: any } = {};
+		for (const key of Object.keys(source)) {
+			decoded[key] = decodeValue(source[key]);
+		}
+		return decoded;
+	}
+	return value;
+}
@@ -1,7 +1,27 @@
 import 'mocha';
-import { use, should } from 'chai';
+import { use, expect, should } from 'chai';
 use(require('chai-as-promised'));
 should();
-import { Cache } from '../src/Cache';
+import { Cache, encode, decode } from '../src/Cache';
 
-describe('Cache', () => {});
+describe('Cache', () => {
+	it('encode', () => {
+		const value = {
+			title: 'Hello world',
+			postDate: new Date('2018-01-01T12:00:00.000Z'),
+			likes: [1, 2, null],
+			data: Buffer.from('abc'),
+			nested: { $type: 'date', value: 1 },
+		};
+		const encoded = encode(value);
+		expect(encoded).to.be.a('string');
+
+		const decoded = decode(encoded);
+		expect(decoded.postDate).to.be.an.instanceOf(Date);
+		expect(decoded.data).to.be.an.instanceOf(Buffer);
+		expect(decoded).to.eql(value);
+
+		expect(decode(encode(new Date(0)))).to.eql(new Date(0));
+		expect(decode(encode('text'))).to.equal('text');
+	});
+});
@@ -125,6 +125,19 @@ export function printCollectionSchemas(schemas: Schema[], locales: Configuration
 				case 'datetime':
 					type = 'DateTime';
 					break;
+				case 'time':
+				case 'uuid':
+					type = 'String';
+					break;
+				case 'decimal':
+					type = 'Float';
+					break;
+				case 'json':
+					type = 'any';
+					break;
+				case 'enum':
+					type = `(${(field.values || []).map(value => `'${value}'`).join(' | ')})`;
+					break;
 				default:
 					type = field.type.handle;
 					if (!field.relation) {
@@ -197,6 +210,19 @@ export function printCollectionSchemas(schemas: Schema[], locales: Configuration
 				case 'datetime':
 					type = 'DateTime';
 					break;
+				case 'time':
+				case 'uuid':
+					type = 'String';
+					break;
+				case 'decimal':
+					type = 'Float';
+					break;
+				case 'json':
+					type = 'any';
+					break;
+				case 'enum':
+					type = `(${(field.values || []).map(value => `'${value}'`).join(' | ')})`;
+					break;
 				default:
 					type = field.type.handle;
 					break;
@@ -247,6 +273,19 @@ export function printCollectionSchemas(schemas: Schema[], locales: Configuration
 				case 'datetime':
 					type = 'DateTime';
 					break;
+				case 'time':
+				case 'uuid':
+					type = 'String';
+					break;
+				case 'decimal':
+					type = 'Float';
+					break;
+				case 'json':
+					type = 'any';
+					break;
+				case 'enum':
+					type = `(${(field.values || []).map(value => `'${value}'`).join(' | ')})`;
+					break;
 				default:
 					type = field.type.handle;
 					break;
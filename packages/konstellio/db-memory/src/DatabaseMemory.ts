@@ -0,0 +1,1763 @@
+import {
+	q,
+	Variable,
+	Database,
+	Features,
+	QuerySelect,
+	QueryAggregate,
+	QueryUnion,
+	QueryDescribeCollection,
+	QueryCollectionExists,
+	QueryShowCollection,
+	QuerySelectResult,
+	QueryAggregateResult,
+	QueryDescribeCollectionResult,
+	QueryCollectionExistsResult,
+	QueryShowCollectionResult,
+	QueryExplainResult,
+	QueryPlanNode,
+	Variables,
+	ColumnType,
+	Compare,
+	Collection,
+	Column,
+	Index,
+	IndexType,
+	FieldDirection,
+	Transaction,
+	QueryInsert,
+	QueryUpdate,
+	QueryDelete,
+	QueryCreateCollection,
+	QueryAlterCollection,
+	QueryDropCollection,
+	QueryCreateView,
+	QueryDropView,
+	QueryCommitResult,
+	QueryStatementResult,
+	Change,
+	ForeignKey,
+	Field,
+	FieldAs,
+	Function,
+	FunctionCount,
+	FunctionCountDistinct,
+	FunctionAvg,
+	FunctionSum,
+	FunctionSub,
+	FunctionMax,
+	FunctionMin,
+	FunctionConcat,
+	FunctionLower,
+	FunctionUpper,
+	FunctionLength,
+	FunctionTrim,
+	FunctionSubstr,
+	FunctionCoalesce,
+	FunctionAbs,
+	FunctionRound,
+	FunctionAdd,
+	FunctionMul,
+	FunctionDiv,
+	FunctionYear,
+	FunctionMonth,
+	FunctionDateTrunc,
+	FunctionCase,
+	FunctionRank,
+	dateTruncUnits,
+	Value,
+	Primitive,
+	Comparison,
+	ComparisonMatch,
+	Exists,
+	Binary,
+	BinaryExpression,
+	Query,
+	isJSONValue,
+	getField,
+} from '@konstellio/db';
+import { List } from 'immutable';
+import { isArray } from 'util';
+
+export type DatabaseMemoryConstructor = {};
+
+export type Row = { [column: string]: Primitive };
+
+export type Table = {
+	collection: Collection;
+	columns: Column[];
+	indexes: Index[];
+	foreignKeys: ForeignKey[];
+	rows: Row[];
+	sequence: number;
+	// Views have no rows of their own, they are read from this select
+	view?: QuerySelect;
+};
+
+type Mutable<T> = {
+	-readonly [P in keyof T]: T[P];
+};
+
+type Scope = {
+	row: Row;
+	aliases: { [alias: string]: Row | undefined };
+	outer?: Scope;
+};
+
+type Context = {
+	tables: Map<string, Table>;
+	scope: Scope;
+	group?: Scope[];
+	variables?: Variables;
+};
+
+export class DatabaseMemory extends Database {
+	readonly features: Features;
+
+	public readonly options: DatabaseMemoryConstructor;
+	public readonly tables: Map<string, Table>;
+
+	private locked: Promise<void>;
+
+	constructor(options: DatabaseMemoryConstructor = {}) {
+		super();
+		this.options = options;
+		this.features = {
+			join: true,
+		};
+		this.tables = new Map();
+		this.locked = Promise.resolve();
+	}
+
+	async connect(): Promise<DatabaseMemory> {
+		return this;
+	}
+
+	async disconnect(): Promise<void> {}
+
+	execute(query: string, variables?: (string | number | boolean | Date | null)[]): Promise<any>;
+	execute<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>>;
+	execute<T>(query: QueryUnion, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute(query: QueryDescribeCollection): Promise<QueryDescribeCollectionResult>;
+	execute(query: QueryCollectionExists): Promise<QueryCollectionExistsResult>;
+	execute(query: QueryShowCollection): Promise<QueryShowCollectionResult>;
+	execute<T>(query: any, variables?: any): Promise<any> {
+		try {
+			if (typeof query === 'string') {
+				throw new TypeError(`DatabaseMemory can not execute raw queries.`);
+			} else if (query instanceof QuerySelect) {
+				return Promise.resolve(new QuerySelectResult<T>(readRows(this.tables, query, variables) as any[]));
+			} else if (query instanceof QueryAggregate) {
+				return Promise.resolve(new QueryAggregateResult<T>(readRows(this.tables, query, variables) as any[]));
+			} else if (query instanceof QueryUnion) {
+				return Promise.resolve(new QuerySelectResult<T>(unionRows(this.tables, query, variables) as any[]));
+			} else if (query instanceof QueryDescribeCollection) {
+				return Promise.resolve(this.executeDescribeCollection(query));
+			} else if (query instanceof QueryCollectionExists) {
+				return Promise.resolve(new QueryCollectionExistsResult(this.tables.has(query.collection.toString())));
+			} else if (query instanceof QueryShowCollection) {
+				const tables = Array.from(this.tables.values()).filter(
+					table => !query.namespace || table.collection.namespace === query.namespace
+				);
+				return Promise.resolve(
+					new QueryShowCollectionResult(
+						tables.map(table => table.collection),
+						tables.filter(table => table.view).map(table => table.collection)
+					)
+				);
+			}
+		} catch (err) {
+			return Promise.reject(err);
+		}
+
+		return Promise.reject(new TypeError(`Unsupported query, got ${typeof query}.`));
+	}
+
+	stream<T>(query: QuerySelect, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryAggregate, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryUnion, variables?: Variables): AsyncIterableIterator<T>;
+	async *stream<T>(query: any, variables?: any): AsyncIterableIterator<T> {
+		let rows: Row[];
+		if (query instanceof QuerySelect || query instanceof QueryAggregate) {
+			rows = readRows(this.tables, query, variables);
+		} else if (query instanceof QueryUnion) {
+			rows = unionRows(this.tables, query, variables);
+		} else {
+			throw new TypeError(`Unsupported query, got ${typeof query}.`);
+		}
+
+		for (const row of rows) {
+			yield row as any;
+		}
+	}
+
+	explain(query: QuerySelect, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryAggregate, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryUnion, variables?: Variables): Promise<QueryExplainResult>;
+	async explain(query: any, variables?: any): Promise<QueryExplainResult> {
+		if (!(query instanceof QuerySelect || query instanceof QueryAggregate || query instanceof QueryUnion)) {
+			throw new TypeError(`Unsupported query, got ${typeof query}.`);
+		}
+		return new QueryExplainResult(explainRows(this.tables, query));
+	}
+
+	async transaction(): Promise<TransactionMemory> {
+		return new TransactionMemory(this);
+	}
+
+	// Transactions are committed one at a time, the returned function hands the tables to the next one
+	lockTables(): Promise<() => void> {
+		let unlock: () => void;
+		const locked = this.locked;
+		this.locked = new Promise<void>(resolve => (unlock = resolve));
+		return locked.then(() => unlock);
+	}
+
+	// @ts-ignore
+	compareTypes(aType: ColumnType, aSize: number, bType: ColumnType, bSize: number): Compare {
+		if (aType === bType) {
+			return Compare.Castable;
+		}
+		return Compare.Different;
+	}
+
+	private executeDescribeCollection(query: QueryDescribeCollection): QueryDescribeCollectionResult {
+		const collection = query.collection;
+		if (!collection) {
+			throw new Error(`Expected QueryDescribeCollection to be from a collection.`);
+		}
+
+		const table = this.tables.get(collection.toString());
+		if (!table) {
+			return new QueryDescribeCollectionResult(collection, [], []);
+		}
+		return new QueryDescribeCollectionResult(
+			collection,
+			table.columns.slice(),
+			table.indexes.slice(),
+			table.foreignKeys.slice(),
+			table.view !== undefined,
+			table.view
+		);
+	}
+}
+
+export default DatabaseMemory;
+
+type Statement = { query: Query; variables?: Variables };
+
+type Marker = { type: 'savepoint' | 'rollbackTo' | 'release'; name: string };
+
+type Savepoint = {
+	transaction: TransactionMemory;
+	executions: Execution[];
+	error?: Error;
+};
+
+type Execution = Statement | Marker | Savepoint;
+
+export class TransactionMemory extends Transaction {
+	protected executions: Execution[];
+	protected results: QueryStatementResult[];
+	protected savepoints: Savepoint[];
+	protected snapshots: Map<string, Map<string, Table>>;
+
+	private started?: Promise<Map<string, Table>>;
+	private activeChild?: TransactionMemory;
+	private failure?: Error;
+	private snapshot?: Map<string, Table>;
+	private unlock?: () => void;
+	private lastId: number;
+
+	constructor(public readonly database: DatabaseMemory, public readonly parent?: TransactionMemory) {
+		super();
+		this.executions = [];
+		this.results = [];
+		this.savepoints = [];
+		this.snapshots = new Map();
+		this.lastId = 0;
+	}
+
+	async transaction(): Promise<TransactionMemory> {
+		return new TransactionMemory(this.database, this);
+	}
+
+	savepoint(name: string): void {
+		this.executions.push({ name, type: 'savepoint' });
+	}
+
+	rollbackTo(name: string): void {
+		this.executions.push({ name, type: 'rollbackTo' });
+	}
+
+	release(name: string): void {
+		this.executions.push({ name, type: 'release' });
+	}
+
+	execute(query: string, variables?: (string | number | boolean | Date | null)[]): void;
+	execute(query: QueryInsert, variables?: Variables): void;
+	execute(query: QueryUpdate, variables?: Variables): void;
+	execute(query: QueryDelete, variables?: Variables): void;
+	execute(query: QueryCreateCollection): void;
+	execute(query: QueryAlterCollection): void;
+	execute(query: QueryDropCollection): void;
+	execute(query: QueryCreateView): void;
+	execute(query: QueryDropView): void;
+	execute<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>>;
+	execute(query: any, variables?: any): any {
+		if (typeof query === 'string') {
+			throw new TypeError(`DatabaseMemory can not execute raw queries.`);
+		} else if (query instanceof QuerySelect) {
+			return this.executeRead(query, variables).then(rows => new QuerySelectResult(rows));
+		} else if (query instanceof QueryAggregate) {
+			return this.executeRead(query, variables).then(rows => new QueryAggregateResult(rows));
+		} else if (
+			query instanceof QueryInsert ||
+			query instanceof QueryUpdate ||
+			query instanceof QueryDelete ||
+			query instanceof QueryCreateCollection ||
+			query instanceof QueryAlterCollection ||
+			query instanceof QueryDropCollection ||
+			query instanceof QueryCreateView ||
+			query instanceof QueryDropView
+		) {
+			this.executions.push({ query, variables });
+			return;
+		}
+
+		throw new TypeError(`Unsupported query, got ${typeof query}.`);
+	}
+
+	// Reading makes the transaction interactive: it keeps the tables to itself until it is committed
+	// or rolled back, and the statements queued so far are applied first so that the read sees them.
+	private async executeRead(query: QuerySelect | QueryAggregate, variables?: Variables): Promise<Row[]> {
+		if (this.activeChild) {
+			throw new Error(`Expected child transactions to be committed or rolled back first.`);
+		}
+		const tables = await this.start();
+		this.flush(tables);
+		return readRows(tables, query, variables);
+	}
+
+	async commit(): Promise<QueryCommitResult> {
+		if (this.activeChild) {
+			throw new Error(`Expected child transactions to be committed or rolled back first.`);
+		}
+		if (this.parent) {
+			return this.started ? this.commitToSavepoint(this.parent) : this.commitToParent(this.parent);
+		}
+		return this.commitToDatabase();
+	}
+
+	// A child transaction is merged into its parent and applied when the parent commits. If one of
+	// its statements fails, only the child is rolled back and the parent carries on. It emits 'commit'
+	// or 'rollback' once its statements were applied.
+	private async commitToParent(parent: TransactionMemory): Promise<QueryCommitResult> {
+		parent.executions.push({
+			transaction: this,
+			executions: this.executions,
+		});
+		this.executions = [];
+		return new QueryCommitResult('');
+	}
+
+	private async commitToSavepoint(parent: TransactionMemory): Promise<QueryCommitResult> {
+		const tables = await this.start();
+		const savepoints = this.savepoints;
+		let result: QueryCommitResult;
+		try {
+			if (this.failure) {
+				throw this.failure;
+			}
+			this.flush(tables);
+			result = new QueryCommitResult(this.lastId.toString(), this.results);
+		} catch (err) {
+			restoreTables(tables, this.snapshot!);
+			parent.activeChild = undefined;
+			this.reset();
+			await settleSavepoints(savepoints, true);
+			await this.emitAsync('rollback');
+			throw err;
+		}
+
+		// Queued children are settled along with the root transaction
+		parent.savepoints.push(...savepoints);
+		parent.lastId = this.lastId || parent.lastId;
+		parent.activeChild = undefined;
+		this.reset();
+		await this.emitAsync('commit');
+		return result;
+	}
+
+	private async commitToDatabase(): Promise<QueryCommitResult> {
+		const tables = await this.start();
+		const savepoints = this.savepoints;
+		let result: QueryCommitResult;
+		try {
+			if (this.failure) {
+				throw this.failure;
+			}
+			this.flush(tables);
+			result = new QueryCommitResult(this.lastId.toString(), this.results);
+			(this.database as Mutable<DatabaseMemory>).tables = tables;
+		} catch (err) {
+			await settleSavepoints(savepoints, true);
+			throw err;
+		} finally {
+			this.unlock!();
+			this.reset();
+		}
+
+		await settleSavepoints(savepoints);
+		await this.emitAsync('commit');
+		return result;
+	}
+
+	private start(): Promise<Map<string, Table>> {
+		if (!this.started) {
+			this.started = this.parent ? this.startSavepoint(this.parent) : this.startTransaction();
+			this.started.catch(() => (this.started = undefined));
+		}
+		return this.started;
+	}
+
+	// Work on a copy of every table so that a failing statement leaves the database untouched
+	private async startTransaction(): Promise<Map<string, Table>> {
+		this.unlock = await this.database.lockTables();
+		return cloneTables(this.database.tables);
+	}
+
+	private async startSavepoint(parent: TransactionMemory): Promise<Map<string, Table>> {
+		if (parent.activeChild) {
+			throw new Error(`Expected child transactions to be committed or rolled back first.`);
+		}
+		parent.activeChild = this;
+		try {
+			const tables = await parent.start();
+			parent.flush(tables);
+			this.snapshot = cloneTables(tables);
+			return tables;
+		} catch (err) {
+			parent.activeChild = undefined;
+			throw err;
+		}
+	}
+
+	private flush(tables: Map<string, Table>): void {
+		const executions = this.executions;
+		this.executions = [];
+		try {
+			const result = executeAll(tables, executions, this.savepoints, this.snapshots);
+			this.lastId = parseInt(result.lastId, 10) || this.lastId;
+			this.results.push(...result.statements);
+		} catch (err) {
+			// The tables are left half-way through the statements, the whole transaction has to be rolled back
+			this.failure = this.failure || err;
+			throw err;
+		}
+	}
+
+	private reset(): void {
+		this.executions = [];
+		this.results = [];
+		this.savepoints = [];
+		this.snapshots = new Map();
+		this.started = undefined;
+		this.failure = undefined;
+		this.snapshot = undefined;
+		this.unlock = undefined;
+		this.lastId = 0;
+	}
+
+	async rollback(): Promise<void> {
+		if (this.started) {
+			const tables = await this.started;
+			if (this.parent) {
+				restoreTables(tables, this.snapshot!);
+				this.parent.activeChild = undefined;
+			} else {
+				this.unlock!();
+			}
+		}
+		const savepoints = this.savepoints;
+		this.reset();
+		await settleSavepoints(savepoints, true);
+		await this.emitAsync('rollback');
+	}
+}
+
+// Merged children learn whether their statements were kept once the root transaction is settled
+async function settleSavepoints(savepoints: Savepoint[], rolledBack: boolean = false): Promise<void> {
+	for (const savepoint of savepoints) {
+		await savepoint.transaction.emitAsync(rolledBack || savepoint.error ? 'rollback' : 'commit');
+	}
+}
+
+function cloneTables(tables: Map<string, Table>): Map<string, Table> {
+	const clone = new Map<string, Table>();
+	tables.forEach((table, key) => {
+		clone.set(key, { ...table, rows: table.rows.map(row => ({ ...row })) });
+	});
+	return clone;
+}
+
+function restoreTables(tables: Map<string, Table>, snapshot: Map<string, Table>): void {
+	tables.clear();
+	cloneTables(snapshot).forEach((table, key) => tables.set(key, table));
+}
+
+function executeAll(
+	tables: Map<string, Table>,
+	executions: Execution[],
+	savepoints: Savepoint[],
+	snapshots = new Map<string, Map<string, Table>>()
+): QueryCommitResult {
+	let lastId = 0;
+	const results: QueryStatementResult[] = [];
+	for (const execution of executions) {
+		if ('query' in execution) {
+			const { query, variables } = execution;
+			if (query instanceof QueryInsert) {
+				const inserted = insertRows(tables, query, variables);
+				lastId = inserted.lastId || lastId;
+				results.push(mutationResult(tables, query, inserted.rows, variables));
+			} else if (query instanceof QueryUpdate) {
+				results.push(mutationResult(tables, query, updateRows(tables, query, variables), variables));
+			} else if (query instanceof QueryDelete) {
+				results.push(mutationResult(tables, query, deleteRows(tables, query, variables), variables));
+			} else {
+				if (query instanceof QueryCreateCollection) {
+					createTable(tables, query);
+				} else if (query instanceof QueryAlterCollection) {
+					alterTable(tables, query);
+				} else if (query instanceof QueryDropCollection) {
+					dropTable(tables, query);
+				} else if (query instanceof QueryCreateView) {
+					createView(tables, query);
+				} else if (query instanceof QueryDropView) {
+					dropView(tables, query);
+				}
+				results.push(new QueryStatementResult(0));
+			}
+		} else if ('type' in execution) {
+			const { type, name } = execution;
+			if (type === 'savepoint') {
+				snapshots.set(name, cloneTables(tables));
+			} else if (!snapshots.has(name)) {
+				throw new Error(`No such savepoint ${name}.`);
+			} else if (type === 'rollbackTo') {
+				restoreTables(tables, snapshots.get(name)!);
+			} else {
+				snapshots.delete(name);
+			}
+			results.push(new QueryStatementResult(0));
+		} else {
+			const first = savepoints.length;
+			const snapshot = cloneTables(tables);
+			savepoints.push(execution);
+			try {
+				const result = executeAll(tables, execution.executions, savepoints);
+				lastId = parseInt(result.lastId, 10) || lastId;
+				results.push(
+					new QueryStatementResult(result.statements.reduce((sum, { changes }) => sum + changes, 0))
+				);
+			} catch (err) {
+				restoreTables(tables, snapshot);
+				// Nested savepoints were rolled back along with this one
+				savepoints.slice(first).forEach(savepoint => (savepoint.error = savepoint.error || err));
+				results.push(new QueryStatementResult(0));
+			}
+		}
+	}
+	return new QueryCommitResult(lastId.toString(), results);
+}
+
+function getTable(tables: Map<string, Table>, collection?: Collection): Table {
+	if (!collection) {
+		throw new Error(`Expected query to be from a collection.`);
+	}
+	const table = tables.get(collection.toString());
+	if (!table) {
+		throw new Error(`No such collection ${collection.toString()}.`);
+	}
+	return table;
+}
+
+function getWritableTable(tables: Map<string, Table>, collection?: Collection): Table {
+	const table = getTable(tables, collection);
+	if (table.view) {
+		throw new Error(`Can not modify view ${table.collection.toString()}.`);
+	}
+	return table;
+}
+
+function collectionAlias(collection: Collection): string {
+	return collection.namespace ? `${collection.namespace}_${collection.name}` : collection.name;
+}
+
+function valueToPrimitive(value: unknown): Primitive {
+	if (value instanceof Date) {
+		return value.toISOString();
+	} else if (isJSONValue(value)) {
+		return JSON.stringify(value);
+	} else if (typeof value === 'boolean') {
+		return value ? 1 : 0;
+	} else if (value === undefined) {
+		return null;
+	}
+	return value as Primitive;
+}
+
+function typeRank(value: Primitive): number {
+	if (value === null) {
+		return 0;
+	} else if (typeof value === 'number') {
+		return 1;
+	}
+	return 2;
+}
+
+function compareValues(a: Primitive, b: Primitive): number {
+	const rankA = typeRank(a);
+	const rankB = typeRank(b);
+	if (rankA !== rankB) {
+		return rankA - rankB;
+	}
+	if (a === null || a === b) {
+		return 0;
+	}
+	return a! < b! ? -1 : 1;
+}
+
+function fieldToValue(field: Field, scope: Scope): Primitive {
+	const name = field.name as string;
+	if (field.alias) {
+		if (!(field.alias in scope.aliases)) {
+			if (scope.outer) {
+				return fieldToValue(field, scope.outer);
+			}
+			throw new Error(`No such column ${field.toString()}.`);
+		}
+		const row = scope.aliases[field.alias];
+		return row && name in row ? row[name] : null;
+	}
+	if (name in scope.row) {
+		return scope.row[name];
+	}
+	for (const alias in scope.aliases) {
+		const row = scope.aliases[alias];
+		if (row && row !== scope.row && name in row) {
+			return row[name];
+		}
+	}
+	if (scope.outer) {
+		return fieldToValue(field, scope.outer);
+	}
+	throw new Error(`No such column ${field.toString()}.`);
+}
+
+function isAggregateFunction(fn: Function): boolean {
+	return (
+		fn instanceof FunctionCount ||
+		fn instanceof FunctionCountDistinct ||
+		fn instanceof FunctionAvg ||
+		fn instanceof FunctionSum ||
+		((fn instanceof FunctionMax || fn instanceof FunctionMin) && fn.args.count() === 1)
+	);
+}
+
+function hasAggregateFunction(value: any): boolean {
+	if (value instanceof FieldAs) {
+		return hasAggregateFunction(value.field);
+	} else if (value instanceof Function) {
+		return isAggregateFunction(value) || value.args.some(arg => hasAggregateFunction(arg));
+	}
+	return false;
+}
+
+function fnToValue(fn: Function, context: Context): Primitive {
+	if (isAggregateFunction(fn)) {
+		const group = context.group || [context.scope];
+		const values = group
+			.map(scope => valueToValue(fn.args.get(0), { ...context, scope, group: undefined }))
+			.filter(value => value !== null);
+
+		if (fn instanceof FunctionCount) {
+			return values.length;
+		} else if (fn instanceof FunctionCountDistinct) {
+			return values.filter((value, idx) => values.findIndex(other => compareValues(other, value) === 0) === idx)
+				.length;
+		} else if (values.length === 0) {
+			return null;
+		} else if (fn instanceof FunctionSum) {
+			return values.reduce<number>((sum, value) => sum + Number(value), 0);
+		} else if (fn instanceof FunctionAvg) {
+			return values.reduce<number>((sum, value) => sum + Number(value), 0) / values.length;
+		} else if (fn instanceof FunctionMax) {
+			return values.reduce((max, value) => (compareValues(value, max) > 0 ? value : max));
+		} else {
+			return values.reduce((min, value) => (compareValues(value, min) < 0 ? value : min));
+		}
+	}
+
+	if (fn instanceof FunctionCase) {
+		const match = fn.cases.find(([condition]) => binaryToValue(condition, context) === true);
+		return valueToValue(match ? match[1] : fn.otherwise, context);
+	} else if (fn instanceof FunctionDateTrunc) {
+		const date = dateValue(valueToValue(fn.args.get(1)!, context));
+		if (date === null) {
+			return null;
+		}
+		const parts = [
+			date.getUTCFullYear(),
+			date.getUTCMonth(),
+			date.getUTCDate(),
+			date.getUTCHours(),
+			date.getUTCMinutes(),
+			date.getUTCSeconds(),
+		];
+		const [year, month, day, hours, minutes, seconds] = parts.map((part, idx) =>
+			idx > dateTruncUnits.indexOf(fn.unit) ? [0, 0, 1, 0, 0, 0][idx] : part
+		);
+		return new Date(Date.UTC(year, month, day, hours, minutes, seconds)).toISOString();
+	}
+
+	const args = fn.args.map(arg => valueToValue(arg!, context)).toArray();
+	if (fn instanceof FunctionConcat) {
+		return args.map(arg => (arg === null ? '' : `${arg}`)).join('');
+	} else if (fn instanceof FunctionCoalesce) {
+		const value = args.find(arg => arg !== null);
+		return value === undefined ? null : value;
+	} else if (args.indexOf(null) > -1) {
+		return null;
+	} else if (fn instanceof FunctionSub) {
+		return args.slice(1).reduce<number>((total, arg) => total - Number(arg), Number(args[0]));
+	} else if (fn instanceof FunctionAdd) {
+		return args.reduce<number>((total, arg) => total + Number(arg), 0);
+	} else if (fn instanceof FunctionMul) {
+		return args.reduce<number>((total, arg) => total * Number(arg), 1);
+	} else if (fn instanceof FunctionDiv) {
+		return Number(args[1]) === 0 ? null : Number(args[0]) / Number(args[1]);
+	} else if (fn instanceof FunctionAbs) {
+		return Math.abs(Number(args[0]));
+	} else if (fn instanceof FunctionRound) {
+		// Like SQLite, halves are rounded away from zero
+		const factor = Math.pow(10, args.length > 1 ? Number(args[1]) : 0);
+		const value = Number(args[0]);
+		return (Math.sign(value) * Math.round(Math.abs(value) * factor)) / factor;
+	} else if (fn instanceof FunctionLower) {
+		return `${args[0]}`.toLowerCase();
+	} else if (fn instanceof FunctionUpper) {
+		return `${args[0]}`.toUpperCase();
+	} else if (fn instanceof FunctionLength) {
+		return `${args[0]}`.length;
+	} else if (fn instanceof FunctionTrim) {
+		return `${args[0]}`.replace(/^ +| +$/g, '');
+	} else if (fn instanceof FunctionSubstr) {
+		// Positions start at 1, a negative start counts from the end of the text
+		const text = `${args[0]}`;
+		const start = Number(args[1]);
+		const begin = start > 0 ? start - 1 : start < 0 ? Math.max(text.length + start, 0) : 0;
+		return text.substr(begin, args.length > 2 ? Math.max(Number(args[2]) - (start === 0 ? 1 : 0), 0) : undefined);
+	} else if (fn instanceof FunctionYear || fn instanceof FunctionMonth) {
+		const date = dateValue(args[0]);
+		if (date === null) {
+			return null;
+		}
+		return fn instanceof FunctionYear ? date.getUTCFullYear() : date.getUTCMonth() + 1;
+	} else if (fn instanceof FunctionMax) {
+		return args.reduce((max, value) => (compareValues(value, max) > 0 ? value : max));
+	} else if (fn instanceof FunctionMin) {
+		return args.reduce((min, value) => (compareValues(value, min) < 0 ? value : min));
+	}
+
+	throw new Error(`Unsupported function ${fn.fn}.`);
+}
+
+// Dates are stored as ISO strings, times without a timezone are read as UTC like SQLite does
+function dateValue(value: Primitive): Date | null {
+	const date = new Date(
+		typeof value === 'string' && /\d:\d\d(:\d\d(\.\d+)?)?$/.test(value) ? `${value}Z` : (value as any)
+	);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+function variableToValue(variable: Variable, variables?: Variables): Primitive | Primitive[] {
+	if (variables === undefined || typeof variables[variable.name] === 'undefined') {
+		throw new Error(`Could not find query variable ${variable.name}.`);
+	}
+	const value = variables[variable.name];
+	if (isArray(value)) {
+		return value.map(valueToPrimitive);
+	}
+	return valueToPrimitive(value);
+}
+
+function valueToValue(value: Value, context: Context): Primitive {
+	if (value instanceof Field) {
+		return fieldToValue(value, context.scope);
+	} else if (value instanceof Function) {
+		return fnToValue(value, context);
+	} else if (value instanceof Variable) {
+		const resolved = variableToValue(value, context.variables);
+		return isArray(resolved) ? resolved[0] : resolved;
+	} else if (value instanceof QuerySelect) {
+		const values = subqueryToValues(value, context);
+		return values.length ? values[0] : null;
+	}
+	return valueToPrimitive(value);
+}
+
+function subqueryToValues(query: QuerySelect, context: Context): Primitive[] {
+	return selectRows(context.tables, query, context.variables, context.scope).map(row => {
+		const columns = Object.keys(row);
+		return columns.length ? row[columns[0]] : null;
+	});
+}
+
+function argsToValues(args: List<Value>, context: Context): Primitive[] {
+	return args.reduce<Primitive[]>((values, arg) => {
+		if (arg instanceof Variable) {
+			const resolved = variableToValue(arg, context.variables);
+			return values!.concat(isArray(resolved) ? resolved : [resolved]);
+		} else if (arg instanceof QuerySelect) {
+			return values!.concat(subqueryToValues(arg, context));
+		}
+		return values!.concat([valueToValue(arg!, context)]);
+	}, []);
+}
+
+function likeToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split('')
+		.map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+		.join('');
+	return new RegExp(`^${source}$`, 'i');
+}
+
+// Words of a text without case nor diacritics, like SQLite's unicode61 tokenizer
+function textToWords(text: string): string[] {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9\u00c0-\uffff]+/)
+		.filter(word => word.length > 0);
+}
+
+// Occurrences of the text in the fields of the match, or 0 when it does not match. Only a subset
+// of the FTS5 query syntax is supported: terms, "phrases", prefixes* and OR between groups of terms.
+function matchToScore(match: ComparisonMatch, context: Context): number | null {
+	const text = valueToValue(match.text, context);
+	if (text === null) {
+		return null;
+	}
+	const columns = match.fields.map(field => {
+		const value = valueToValue(field, context);
+		return value === null ? [] : textToWords(`${value}`);
+	});
+
+	const groups: { words: string[]; prefix: boolean }[][] = [[]];
+	const pattern = /"([^"]*)"|(\S+)/g;
+	let token: RegExpExecArray | null;
+	while ((token = pattern.exec(`${text}`))) {
+		if (token[2] === 'OR') {
+			groups.push([]);
+		} else if (token[2] !== 'AND') {
+			const term = token[1] !== undefined ? token[1] : token[2];
+			groups[groups.length - 1].push({ words: textToWords(term), prefix: term.substr(-1) === '*' });
+		}
+	}
+
+	const occurrences = ({ words, prefix }: { words: string[]; prefix: boolean }) =>
+		columns.reduce((count, column) => {
+			for (let i = 0, l = column.length - words.length; i <= l; ++i) {
+				const found = words.every((word, offset) =>
+					prefix && offset === words.length - 1
+						? column[i + offset].substr(0, word.length) === word
+						: column[i + offset] === word
+				);
+				count += found ? 1 : 0;
+			}
+			return count;
+		}, 0);
+
+	return groups.reduce((score, terms) => {
+		const counts = terms.filter(term => term.words.length > 0).map(occurrences);
+		return counts.length > 0 && counts.every(count => count > 0)
+			? score + counts.reduce((a, b) => a + b, 0)
+			: score;
+	}, 0);
+}
+
+function findMatch(expr?: BinaryExpression): ComparisonMatch | undefined {
+	if (expr instanceof ComparisonMatch) {
+		return expr;
+	} else if (expr instanceof Binary && expr.operator !== 'not') {
+		for (const operand of expr.operands.toArray()) {
+			const match = findMatch(operand);
+			if (match) {
+				return match;
+			}
+		}
+	}
+	return undefined;
+}
+
+// Comparisons follow SQL's three-valued logic, null stands for unknown
+function comparisonToValue(comparison: Comparison, context: Context): boolean | null {
+	const field = valueToValue(comparison.field, context);
+
+	if (comparison instanceof ComparisonMatch) {
+		const score = matchToScore(comparison, context);
+		return score === null ? null : score > 0;
+	} else if (comparison.operator === 'isNull') {
+		return field === null;
+	} else if (comparison.operator === 'isNotNull') {
+		return field !== null;
+	} else if (comparison.operator === 'in' || comparison.operator === 'notIn') {
+		const args = argsToValues(comparison.args, context);
+		const found =
+			field === null
+				? null
+				: args.some(arg => arg !== null && compareValues(field, arg) === 0)
+				? true
+				: args.some(arg => arg === null)
+				? null
+				: false;
+		return comparison.operator === 'in' || found === null ? found : !found;
+	}
+
+	const arg = valueToValue(comparison.args.get(0), context);
+	if (field === null || arg === null) {
+		return null;
+	}
+
+	if (comparison.operator === 'between') {
+		const max = valueToValue(comparison.args.get(1), context);
+		return max === null ? null : compareValues(field, arg) >= 0 && compareValues(field, max) <= 0;
+	}
+
+	switch (comparison.operator) {
+		case '=':
+			return compareValues(field, arg) === 0;
+		case '!=':
+			return compareValues(field, arg) !== 0;
+		case '>':
+			return compareValues(field, arg) > 0;
+		case '>=':
+			return compareValues(field, arg) >= 0;
+		case '<':
+			return compareValues(field, arg) < 0;
+		case '<=':
+			return compareValues(field, arg) <= 0;
+		case 'beginsWith':
+			return `${field}`.substr(0, `${arg}`.length) === `${arg}`;
+		case 'endsWith':
+			return `${arg}`.length <= `${field}`.length && `${field}`.substr(-`${arg}`.length) === `${arg}`;
+		case 'contains':
+			return `${field}`.indexOf(`${arg}`) > -1;
+		case 'like':
+			return likeToRegExp(`${arg}`).test(`${field}`);
+	}
+
+	throw new Error(`Unsupported comparison ${comparison.operator}.`);
+}
+
+function binaryToValue(expr: BinaryExpression, context: Context): boolean | null {
+	if (expr instanceof Comparison) {
+		return comparisonToValue(expr, context);
+	} else if (expr instanceof Exists) {
+		const exists = selectRows(context.tables, expr.query, context.variables, context.scope).length > 0;
+		return expr.negated ? !exists : exists;
+	}
+
+	const results = expr.operands.map(op => binaryToValue(op!, context));
+	if (results.some(result => result === null)) {
+		switch (expr.operator) {
+			case 'and':
+				return results.some(result => result === false) ? false : null;
+			case 'or':
+				return results.some(result => result === true) ? true : null;
+			default:
+				return null;
+		}
+	}
+	switch (expr.operator) {
+		case 'and':
+			return results.every(result => result === true);
+		case 'or':
+			return results.some(result => result === true);
+		case 'xor':
+			return results.filter(result => result === true).count() % 2 === 1;
+		case 'not':
+			return results.get(0) !== true;
+	}
+}
+
+function scopeRows(
+	tables: Map<string, Table>,
+	query: QuerySelect | QueryAggregate,
+	variables?: Variables,
+	outer?: Scope
+): Scope[] {
+	const table = getTable(tables, query.collection);
+	const tableAlias = collectionAlias(table.collection);
+	const rows = table.view ? selectRows(tables, table.view, variables) : table.rows;
+	let scopes = rows.map<Scope>(row => ({
+		row,
+		outer,
+		aliases: { [tableAlias]: row },
+	}));
+
+	if (query.joins) {
+		const aliases = [tableAlias];
+		query.joins.forEach(join => {
+			const joinRows = selectRows(tables, join!.query, variables, outer);
+			const matchedRows: Row[] = [];
+			scopes = scopes.reduce<Scope[]>((joined, scope) => {
+				let matched = false;
+				for (const joinRow of joinRows) {
+					const candidate = { ...scope, aliases: { ...scope.aliases, [join!.alias]: joinRow } };
+					if (!join!.on || binaryToValue(join!.on, { tables, variables, scope: candidate })) {
+						joined.push(candidate);
+						matchedRows.push(joinRow);
+						matched = true;
+					}
+				}
+				if (!matched && (join!.type === 'left' || join!.type === 'full')) {
+					joined.push({ ...scope, aliases: { ...scope.aliases, [join!.alias]: undefined } });
+				}
+				return joined;
+			}, []);
+			if (join!.type === 'right' || join!.type === 'full') {
+				const row = table.columns.reduce<Row>((row, column) => ({ ...row, [column.name]: null }), {});
+				for (const joinRow of joinRows) {
+					if (!matchedRows.includes(joinRow)) {
+						scopes.push({
+							row,
+							outer,
+							aliases: aliases.reduce((aliases, alias) => ({ ...aliases, [alias]: undefined }), {
+								[join!.alias]: joinRow,
+							} as Scope['aliases']),
+						});
+					}
+				}
+			}
+			aliases.push(join!.alias);
+		});
+	}
+
+	if (query.conditions) {
+		scopes = scopes.filter(scope => binaryToValue(query.conditions!, { tables, variables, scope }));
+	}
+
+	return scopes;
+}
+
+function projectRow(fields: List<Field | FieldAs> | undefined, context: Context): Row {
+	if (!fields || fields.count() === 0) {
+		return Object.keys(context.scope.aliases).reduce(
+			(row, alias) => ({ ...context.scope.aliases[alias], ...row }),
+			{ ...context.scope.row }
+		);
+	}
+	return fields.reduce<Row>((row, field) => {
+		if (field instanceof FieldAs) {
+			row![field.alias] = valueToValue(field.field, context);
+		} else {
+			row![field!.name as string] = valueToValue(field!, context);
+		}
+		return row!;
+	}, {});
+}
+
+function sortRows<T extends { row: Row; context?: Context }>(
+	entries: T[],
+	sorts?: List<FieldDirection<any, Field | Function>>,
+	match?: ComparisonMatch
+): T[] {
+	if (!sorts || sorts.count() === 0) {
+		return entries;
+	}
+
+	const resolve = (entry: T, field: Field | Function): Primitive => {
+		if (field instanceof FunctionRank) {
+			if (!match || !entry.context) {
+				throw new Error(`Expected a full-text match in the conditions of the query to sort by rank.`);
+			}
+			// Like bm25, more relevant rows rank lower and rows that did not match rank 0
+			return -(matchToScore(match, entry.context) || 0);
+		} else if (field instanceof Function) {
+			return valueToValue(field, entry.context || { tables: new Map(), scope: { row: entry.row, aliases: {} } });
+		} else if (!field.alias && field.name in entry.row) {
+			return entry.row[field.name as string];
+		} else if (entry.context) {
+			return valueToValue(field, entry.context);
+		}
+		throw new Error(`No such column ${field.toString()}.`);
+	};
+
+	return entries
+		.map((entry, idx) => ({ entry, idx }))
+		.sort((a, b) => {
+			for (const sort of sorts.toArray()) {
+				const order = compareValues(resolve(a.entry, sort.field), resolve(b.entry, sort.field));
+				if (order !== 0) {
+					return sort.direction === 'desc' ? -order : order;
+				}
+			}
+			return a.idx - b.idx;
+		})
+		.map(({ entry }) => entry);
+}
+
+function rangeRows<T>(rows: T[], limit?: number, offset?: number): T[] {
+	const start = offset || 0;
+	return rows.slice(start, limit ? start + limit : undefined);
+}
+
+function selectRows(
+	tables: Map<string, Table>,
+	query: QuerySelect | QueryAggregate,
+	variables?: Variables,
+	outer?: Scope
+): Row[] {
+	const scopes = scopeRows(tables, query, variables, outer);
+	let entries: { row: Row; context: Context }[];
+
+	if (
+		query instanceof QueryAggregate &&
+		(query.groups ||
+			query.havingConditions ||
+			(query.fields && query.fields.some(field => hasAggregateFunction(field))))
+	) {
+		const groups = new Map<string, Scope[]>();
+		for (const scope of scopes) {
+			const key = query.groups
+				? JSON.stringify(
+						query.groups.map(group => valueToValue(group!, { tables, variables, scope })).toArray()
+				  )
+				: '';
+			groups.set(key, (groups.get(key) || []).concat([scope]));
+		}
+		if (!query.groups && groups.size === 0) {
+			groups.set('', []);
+		}
+
+		entries = Array.from(groups.values())
+			.map(group => {
+				const context: Context = {
+					tables,
+					variables,
+					group,
+					scope: group[0] || { outer, row: {}, aliases: {} },
+				};
+				return { context, row: projectRow(query.fields, context) };
+			})
+			.filter(({ context }) => !query.havingConditions || binaryToValue(query.havingConditions, context));
+	} else {
+		entries = scopes.map(scope => {
+			const context: Context = { tables, variables, scope };
+			return { context, row: projectRow(query.fields, context) };
+		});
+	}
+
+	if (query.isDistinct) {
+		const keys = entries.map(({ row }) => JSON.stringify(row));
+		entries = entries.filter((entry, idx) => keys.indexOf(keys[idx]) === idx);
+	}
+
+	return rangeRows(sortRows(entries, query.sorts, findMatch(query.conditions)), query.limit, query.offset).map(
+		({ row }) => row
+	);
+}
+
+// Values of JSON columns are stored as text, they are parsed back when read from their collection
+function readRows(tables: Map<string, Table>, query: QuerySelect | QueryAggregate, variables?: Variables): Row[] {
+	const rows = selectRows(tables, query, variables);
+	const table = query.collection && tables.get(query.collection.toString());
+	if (!table) {
+		return rows;
+	}
+
+	const fields =
+		query.fields && query.fields.count() > 0
+			? query.fields
+					.map<[string, Field | Function]>(field =>
+						field instanceof FieldAs ? [field.alias, field.field] : [field!.name as string, field!]
+					)
+					.toArray()
+			: table.columns.map<[string, Field]>(column => [column.name, q.field(column.name)]);
+	const keys = fields
+		.filter(
+			([key, field]) =>
+				field instanceof Field &&
+				field.alias === undefined &&
+				table.columns.some(column => column.name === field.name && column.type === ColumnType.Json)
+		)
+		.map(([key]) => key);
+
+	if (keys.length > 0) {
+		for (const row of rows) {
+			for (const key of keys) {
+				if (typeof row[key] === 'string') {
+					row[key] = JSON.parse(row[key] as string);
+				}
+			}
+		}
+	}
+	return rows;
+}
+
+// Collections are always read in full, the cost of a step is the number of rows it reads
+function explainRows(tables: Map<string, Table>, query: QuerySelect | QueryAggregate | QueryUnion): QueryPlanNode[] {
+	const plan: QueryPlanNode[] = [];
+
+	if (query instanceof QueryUnion) {
+		const selects = query.selects ? query.selects.toArray() : [];
+		plan.push(
+			new QueryPlanNode(
+				'compound',
+				'COMPOUND QUERY',
+				selects.map(
+					(select, idx) => new QueryPlanNode('subquery', `SUBQUERY ${idx + 1}`, explainRows(tables, select))
+				)
+			)
+		);
+	} else {
+		const table = getTable(tables, query.collection);
+		plan.push(
+			new QueryPlanNode(
+				'scan',
+				`SCAN ${table.collection.toString()}`,
+				[],
+				table.collection,
+				undefined,
+				table.rows.length
+			)
+		);
+		if (query.joins) {
+			query.joins.forEach(join => {
+				plan.push(new QueryPlanNode('subquery', `JOIN ${join!.alias}`, explainRows(tables, join!.query)));
+			});
+		}
+		const subqueries = query.conditions ? conditionSubqueries(query.conditions) : [];
+		subqueries.forEach(subquery => {
+			plan.push(new QueryPlanNode('subquery', 'CORRELATED SUBQUERY', explainRows(tables, subquery)));
+		});
+		if (query instanceof QueryAggregate && query.groups) {
+			plan.push(new QueryPlanNode('temp', 'USE TEMP B-TREE FOR GROUP BY'));
+		}
+		if (query.isDistinct) {
+			plan.push(new QueryPlanNode('temp', 'USE TEMP B-TREE FOR DISTINCT'));
+		}
+	}
+
+	if (query.sorts && query.sorts.count() > 0) {
+		plan.push(new QueryPlanNode('temp', 'USE TEMP B-TREE FOR ORDER BY'));
+	}
+	return plan;
+}
+
+function conditionSubqueries(expr: BinaryExpression): QuerySelect[] {
+	if (expr instanceof Exists) {
+		return [expr.query];
+	} else if (expr instanceof Comparison) {
+		return expr.args
+			? expr.args
+					.filter(arg => arg instanceof QuerySelect)
+					.toArray()
+					.map(arg => arg as QuerySelect)
+			: [];
+	}
+	return expr.operands.reduce<QuerySelect[]>((subqueries, op) => subqueries!.concat(conditionSubqueries(op!)), []);
+}
+
+function unionRows(tables: Map<string, Table>, query: QueryUnion, variables?: Variables): Row[] {
+	if (!query.selects) {
+		throw new Error(`Expected QueryUnion have at least 1 Select`);
+	}
+
+	const seen = new Set<string>();
+	const rows = query.selects.reduce<Row[]>((rows, select) => {
+		for (const row of selectRows(tables, select!, variables)) {
+			const key = JSON.stringify(row);
+			if (!seen.has(key)) {
+				seen.add(key);
+				rows!.push(row);
+			}
+		}
+		return rows!;
+	}, []);
+
+	return rangeRows(sortRows(rows.map(row => ({ row })), query.sorts), query.limit, query.offset).map(
+		({ row }) => row
+	);
+}
+
+function columnValue(column: Column, value: Primitive): Primitive {
+	if (column.type === ColumnType.Decimal && typeof value === 'string') {
+		return Number(value);
+	}
+	return value;
+}
+
+function checkConstraints(tables: Map<string, Table>, table: Table): void {
+	for (const column of table.columns) {
+		for (const row of table.rows) {
+			if (!column.nullable && row[column.name] === null) {
+				throw new Error(`Column ${column.name} of collection ${table.collection.toString()} can not be null.`);
+			}
+			if (column.values && row[column.name] !== null && !column.values.includes(row[column.name] as string)) {
+				throw new Error(
+					`Column ${column.name} of collection ${table.collection.toString()} can not be ${row[column.name]}.`
+				);
+			}
+			// Like in SQL, a check only fails when it evaluates to false
+			if (column.check && binaryToValue(column.check, { tables, scope: { row, aliases: {} } }) === false) {
+				throw new Error(`Check on column ${column.name} failed on collection ${table.collection.toString()}.`);
+			}
+		}
+	}
+	for (const index of table.indexes) {
+		if (index.type === IndexType.Primary || index.type === IndexType.Unique) {
+			const seen = new Set<string>();
+			for (const row of table.rows) {
+				const values = index.columns.map(column => row[column!.field.name as string]).toArray();
+				if (values.indexOf(null) === -1) {
+					const key = JSON.stringify(values);
+					if (seen.has(key)) {
+						throw new Error(
+							`Constraint ${index.name} failed on collection ${table.collection.toString()}.`
+						);
+					}
+					seen.add(key);
+				}
+			}
+		}
+	}
+}
+
+function matchesKey(row: Row, columns: List<string>, other: Row, otherColumns: List<string>): boolean {
+	return columns.every((column, i) => compareValues(row[column!], other[otherColumns.get(i!)]) === 0);
+}
+
+// Every row of the table and of the tables referencing it must point to an existing row
+function checkForeignKeys(tables: Map<string, Table>, table: Table): void {
+	tables.forEach(child => {
+		for (const foreignKey of child.foreignKeys) {
+			if (child !== table && foreignKey.collection.toString() !== table.collection.toString()) {
+				continue;
+			}
+			const parent = tables.get(foreignKey.collection.toString());
+			for (const row of child.rows) {
+				if (foreignKey.columns.some(column => row[column!] === null || row[column!] === undefined)) {
+					continue;
+				}
+				if (
+					!parent ||
+					!parent.rows.some(other => matchesKey(row, foreignKey.columns, other, foreignKey.refColumns))
+				) {
+					throw new Error(`Foreign key constraint failed on collection ${child.collection.toString()}.`);
+				}
+			}
+		}
+	});
+}
+
+// Cascade, set null and set default actions of the tables referencing rows that were updated or deleted
+function applyReferentialActions(
+	tables: Map<string, Table>,
+	table: Table,
+	changes: { before: Row; after?: Row }[]
+): void {
+	tables.forEach(child => {
+		for (const foreignKey of child.foreignKeys) {
+			if (foreignKey.collection.toString() !== table.collection.toString()) {
+				continue;
+			}
+			const childChanges: { before: Row; after?: Row }[] = [];
+			for (const { before, after } of changes) {
+				if (after && matchesKey(before, foreignKey.refColumns, after, foreignKey.refColumns)) {
+					continue;
+				}
+				const action = after ? foreignKey.onUpdate : foreignKey.onDelete;
+				if (action !== 'cascade' && action !== 'setNull' && action !== 'setDefault') {
+					continue;
+				}
+				child.rows = child.rows.reduce<Row[]>((rows, row) => {
+					if (!matchesKey(row, foreignKey.columns, before, foreignKey.refColumns)) {
+						rows.push(row);
+						return rows;
+					}
+					if (action === 'cascade' && !after) {
+						childChanges.push({ before: row });
+						return rows;
+					}
+					const updated = foreignKey.columns.reduce(
+						(updated, column, i) => {
+							const definition = child.columns.find(({ name }) => name === column);
+							updated![column!] =
+								action === 'cascade'
+									? after![foreignKey.refColumns.get(i!)]
+									: action === 'setDefault' && definition
+									? valueToPrimitive(definition.defaultValue)
+									: null;
+							return updated!;
+						},
+						{ ...row }
+					);
+					childChanges.push({ before: row, after: updated });
+					rows.push(updated);
+					return rows;
+				}, []);
+			}
+			if (childChanges.length > 0) {
+				applyReferentialActions(tables, child, childChanges);
+			}
+		}
+	});
+}
+
+function insertRows(
+	tables: Map<string, Table>,
+	query: QueryInsert,
+	variables?: Variables
+): { lastId: number; rows: Row[] } {
+	const table = getWritableTable(tables, query.collection);
+	if (!query.objects || query.objects.count() === 0) {
+		throw new Error(`Expected QueryInsert to have some data.`);
+	}
+
+	let lastId = 0;
+	const rows: Row[] = [];
+	query.objects.forEach(object => {
+		const context: Context = { tables, variables, scope: { row: {}, aliases: {} } };
+		for (const key of Object.keys(object)) {
+			if (!table.columns.find(column => column.name === key)) {
+				throw new Error(`Collection ${table.collection.toString()} has no column ${key}.`);
+			}
+		}
+
+		const row = table.columns.reduce<Row>((row, column) => {
+			const value = object[column.name];
+			row[column.name] = columnValue(
+				column,
+				value !== undefined ? valueToValue(value, context) : valueToPrimitive(column.defaultValue)
+			);
+			if (column.autoIncrement) {
+				if (row[column.name] === null) {
+					row[column.name] = table.sequence + 1;
+				}
+				table.sequence = Math.max(table.sequence, Number(row[column.name]));
+				lastId = Number(row[column.name]);
+			}
+			return row;
+		}, {});
+
+		const conflict = query.conflict;
+		const existing = conflict
+			? table.rows.findIndex(other =>
+					conflict.columns.every(column => {
+						const name = column!.name as string;
+						return (
+							row[name] !== null && other[name] !== null && compareValues(row[name], other[name]) === 0
+						);
+					})
+			  )
+			: -1;
+
+		if (existing === -1) {
+			table.rows.push(row);
+			rows.push(row);
+		} else if (conflict!.action === 'update') {
+			const current = table.rows[existing];
+			const scope: Scope = {
+				row: current,
+				aliases: { [collectionAlias(table.collection)]: current, excluded: row },
+			};
+			const update =
+				conflict!.object ||
+				Object.keys(object)
+					.filter(key => !conflict!.columns.some(column => column!.name === key))
+					.reduce((update, key) => ({ ...update, [key]: new Field(key, 'excluded') }), {} as any);
+
+			table.rows[existing] = Object.keys(update).reduce(
+				(updated, key) => {
+					updated[key] = valueToValue(update[key] as Value, { tables, variables, scope });
+					return updated;
+				},
+				{ ...current }
+			);
+			rows.push(table.rows[existing]);
+		}
+	});
+
+	checkConstraints(tables, table);
+	checkForeignKeys(tables, table);
+	return { lastId, rows };
+}
+
+function updateRows(tables: Map<string, Table>, query: QueryUpdate, variables?: Variables): Row[] {
+	const table = getWritableTable(tables, query.collection);
+	if (!query.object) {
+		throw new Error(`Expected QueryUpdate to have some data.`);
+	}
+
+	const keys = Object.keys(query.object);
+	for (const key of keys) {
+		if (!table.columns.find(column => column.name === key)) {
+			throw new Error(`Collection ${table.collection.toString()} has no column ${key}.`);
+		}
+	}
+
+	const changes: { before: Row; after: Row }[] = [];
+	table.rows = table.rows.map(row => {
+		const scope: Scope = { row, aliases: { [collectionAlias(table.collection)]: row } };
+		if (query.conditions && !binaryToValue(query.conditions, { tables, variables, scope })) {
+			return row;
+		}
+		const updated = keys.reduce(
+			(updated, key) => {
+				updated[key] = columnValue(
+					table.columns.find(column => column.name === key)!,
+					valueToValue(query.object[key] as Value, { tables, variables, scope })
+				);
+				return updated;
+			},
+			{ ...row }
+		);
+		changes.push({ before: row, after: updated });
+		return updated;
+	});
+
+	checkConstraints(tables, table);
+	applyReferentialActions(tables, table, changes);
+	checkForeignKeys(tables, table);
+	return changes.map(({ after }) => after);
+}
+
+function deleteRows(tables: Map<string, Table>, query: QueryDelete, variables?: Variables): Row[] {
+	const table = getWritableTable(tables, query.collection);
+	const rows: Row[] = [];
+	table.rows = table.rows.filter(row => {
+		const scope: Scope = { row, aliases: { [collectionAlias(table.collection)]: row } };
+		if (query.conditions && !binaryToValue(query.conditions, { tables, variables, scope })) {
+			return true;
+		}
+		rows.push(row);
+		return false;
+	});
+	applyReferentialActions(tables, table, rows.map(before => ({ before })));
+	checkForeignKeys(tables, table);
+	return rows;
+}
+
+function mutationResult(
+	tables: Map<string, Table>,
+	query: QueryInsert | QueryUpdate | QueryDelete,
+	rows: Row[],
+	variables?: Variables
+): QueryStatementResult {
+	if (!query.returningFields) {
+		return new QueryStatementResult(rows.length);
+	}
+	const alias = collectionAlias(getTable(tables, query.collection).collection);
+	return new QueryStatementResult(
+		rows.length,
+		rows.map(row =>
+			projectRow(query.returningFields, { tables, variables, scope: { row, aliases: { [alias]: row } } })
+		)
+	);
+}
+
+function createTable(tables: Map<string, Table>, query: QueryCreateCollection): void {
+	const collection = query.collection;
+	if (!collection) {
+		throw new Error(`Expected QueryCreateCollection to be from a collection.`);
+	}
+	if (tables.has(collection.toString())) {
+		throw new Error(`Collection ${collection.toString()} already exists.`);
+	}
+	if (!query.columns || query.columns.count() === 0) {
+		throw new Error(`Expected QueryCreateCollection to have at least one column, got none.`);
+	}
+	const indexes = query.indexes ? query.indexes.toArray() : [];
+	if (indexes.filter(index => index.type === IndexType.Primary).length > 1) {
+		throw new Error(
+			`Expected QueryCreateCollection to have a single primary key index. This index can be on multiple columns.`
+		);
+	}
+
+	const table: Table = {
+		collection,
+		indexes,
+		columns: query.columns.toArray(),
+		foreignKeys: query.foreignKeys ? query.foreignKeys.toArray() : [],
+		rows: [],
+		sequence: 0,
+	};
+	tables.set(collection.toString(), table);
+	checkForeignKeys(tables, table);
+}
+
+function alterTable(tables: Map<string, Table>, query: QueryAlterCollection): void {
+	const table = getWritableTable(tables, query.collection);
+	if (!query.changes && !query.renamed) {
+		throw new Error(`Expected QueryAlterCollection to contains at least 1 change.`);
+	}
+
+	let columns = table.columns.slice();
+	let indexes = table.indexes.slice();
+	let foreignKeys = table.foreignKeys.slice();
+	let rows = table.rows;
+
+	(query.changes || List<Change>()).forEach(change => {
+		if (!change) {
+			return;
+		} else if (change.type === 'addColumn') {
+			const { column, copyColumn } = change;
+			columns.push(column);
+			rows = rows.map(row => ({
+				...row,
+				[column.name]: copyColumn ? row[copyColumn] : valueToPrimitive(column.defaultValue),
+			}));
+		} else if (change.type === 'alterColumn') {
+			const { oldColumn, newColumn } = change;
+			columns = columns.map(column => (column.name === oldColumn ? newColumn : column));
+			foreignKeys = foreignKeys.map(
+				foreignKey =>
+					new ForeignKey(
+						foreignKey.columns.map(column => (column === oldColumn ? newColumn.name : column!)).toList(),
+						foreignKey.collection,
+						foreignKey.refColumns,
+						foreignKey.onDelete,
+						foreignKey.onUpdate
+					)
+			);
+			rows = rows.map(row => {
+				const { [oldColumn]: value, ...rest } = row;
+				return { ...rest, [newColumn.name]: value };
+			});
+		} else if (change.type === 'dropColumn') {
+			const name = change.column;
+			columns = columns.filter(column => column.name !== name);
+			foreignKeys = foreignKeys.filter(foreignKey => !foreignKey.columns.includes(name));
+			rows = rows.map(row => {
+				const { [name]: value, ...rest } = row;
+				return rest;
+			});
+		} else if (change.type === 'addIndex') {
+			indexes.push(change.index);
+		} else if (change.type === 'dropIndex') {
+			const name = change.index;
+			indexes = indexes.filter(index => index.name !== name);
+		} else if (change.type === 'addForeignKey') {
+			foreignKeys.push(change.foreignKey);
+		} else if (change.type === 'dropForeignKey') {
+			const dropped = List(change.columns);
+			foreignKeys = foreignKeys.filter(foreignKey => !foreignKey.columns.equals(dropped));
+		}
+	});
+
+	const collection = query.renamed || table.collection;
+	if (query.renamed) {
+		const prefix = (collection: Collection) =>
+			`${collection.namespace ? `${collection.namespace}_` : ''}${collection.name}_`;
+		indexes = indexes.map(index =>
+			table.indexes.indexOf(index) > -1
+				? new Index(index.name.replace(prefix(table.collection), prefix(collection)), index.type, index.columns)
+				: index
+		);
+	}
+
+	const altered: Table = { collection, columns, indexes, foreignKeys, rows, sequence: table.sequence };
+	checkConstraints(tables, altered);
+
+	tables.delete(table.collection.toString());
+	tables.set(collection.toString(), altered);
+	if (query.renamed) {
+		// Foreign keys follow the renamed collection
+		tables.forEach(other => {
+			other.foreignKeys = other.foreignKeys.map(foreignKey =>
+				foreignKey.collection.toString() === table.collection.toString()
+					? new ForeignKey(
+							foreignKey.columns,
+							collection,
+							foreignKey.refColumns,
+							foreignKey.onDelete,
+							foreignKey.onUpdate
+					  )
+					: foreignKey
+			);
+		});
+	}
+	checkForeignKeys(tables, altered);
+}
+
+function dropTable(tables: Map<string, Table>, query: QueryDropCollection): void {
+	const table = getWritableTable(tables, query.collection);
+	const rows = table.rows;
+	table.rows = [];
+	applyReferentialActions(tables, table, rows.map(before => ({ before })));
+	checkForeignKeys(tables, table);
+	tables.delete(table.collection.toString());
+}
+
+// Columns of a view are those of the fields it selects, typed like the column they read when there is one
+function viewColumns(tables: Map<string, Table>, select: QuerySelect): Column[] {
+	const table = getTable(tables, select.collection);
+	if (!select.fields || select.fields.count() === 0) {
+		return table.columns.slice();
+	}
+
+	const sources = new Map<string, Table>([[collectionAlias(table.collection), table]]);
+	if (select.joins) {
+		select.joins.forEach(join => {
+			const joined = join!.query.collection && tables.get(join!.query.collection.toString());
+			if (joined) {
+				sources.set(join!.alias, joined);
+			}
+		});
+	}
+
+	return select.fields
+		.map(field => {
+			const name = field instanceof FieldAs ? field.alias : (field!.name as string);
+			const source = getField(field!);
+			const sourceTable = source && (source.alias ? sources.get(source.alias) : table);
+			const column = source && sourceTable && sourceTable.columns.find(column => column.name === source.name);
+			return column ? column.rename(name) : q.column(name, ColumnType.Text);
+		})
+		.toArray();
+}
+
+function createView(tables: Map<string, Table>, query: QueryCreateView): void {
+	const collection = query.collection;
+	if (tables.has(collection.toString())) {
+		throw new Error(`Collection ${collection.toString()} already exists.`);
+	}
+	// Read once so that a view over missing collections is rejected right away
+	selectRows(tables, query.select);
+
+	tables.set(collection.toString(), {
+		collection,
+		columns: viewColumns(tables, query.select),
+		indexes: [],
+		foreignKeys: [],
+		rows: [],
+		sequence: 0,
+		view: query.select,
+	});
+}
+
+function dropView(tables: Map<string, Table>, query: QueryDropView): void {
+	const table = getTable(tables, query.collection);
+	if (!table.view) {
+		throw new Error(`Collection ${table.collection.toString()} is not a view.`);
+	}
+	tables.delete(table.collection.toString());
+}
@@ -0,0 +1,1110 @@
+import 'mocha';
+import { use, expect, should } from 'chai';
+use(require('chai-as-promised'));
+should();
+import { DatabaseMemory } from '../src/DatabaseMemory';
+import {
+	q,
+	ColumnType,
+	IndexType,
+	QuerySelectResult,
+	QueryExplainResult,
+	QueryAggregateResult,
+	QueryShowCollectionResult,
+	QueryCollectionExistsResult,
+	QueryDescribeCollectionResult,
+	BinaryExpression,
+	Variables,
+} from '@konstellio/db';
+
+describe('Memory', () => {
+	type Foo = {
+		id: number;
+		title: string;
+		postDate: Date;
+		likes: number;
+	};
+
+	let driver: DatabaseMemory;
+
+	before(async () => {
+		driver = new DatabaseMemory();
+
+		await driver.connect();
+		const transaction = await driver.transaction();
+		transaction.execute(
+			q
+				.createCollection(q.collection('Foo', 'Bar'))
+				.define(
+					[
+						q.column('id', ColumnType.UInt, 64, null, true),
+						q.column('title', ColumnType.Text),
+						q.column('postDate', ColumnType.Date),
+						q.column('likes', ColumnType.Int, 64, 0),
+					],
+					[
+						q.index('Bar_Foo_id', IndexType.Primary, [q.sort('id', 'asc')]),
+						q.index('Bar_Foo_title', IndexType.Unique, [q.sort('title', 'asc')]),
+					]
+				)
+		);
+		await transaction.commit();
+	});
+
+	it('insert', async () => {
+		const transaction = await driver.transaction();
+
+		transaction.execute(
+			q.insert(q.collection('Foo', 'Bar')).add({
+				title: 'Hello world',
+				postDate: new Date(),
+				likes: 10,
+			})
+		);
+		transaction.execute(
+			q
+				.insert(q.collection('Foo', 'Bar'))
+				.add({ title: 'Foo', postDate: new Date(), likes: 2 })
+				.add({ title: 'Bar', postDate: new Date() })
+		);
+
+		const result = await transaction.commit().should.be.fulfilled;
+		expect(result.lastId).to.equal('3');
+	});
+
+	it('rejects constraint violation atomically', async () => {
+		const transaction = await driver.transaction();
+
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'Moo', postDate: new Date() }));
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'Foo', postDate: new Date() }));
+
+		await transaction.commit().should.be.rejected;
+
+		const result = await driver.execute<Foo>(
+			q
+				.select()
+				.from(q.collection('Foo', 'Bar'))
+				.where(q.eq('title', 'Moo'))
+		);
+		expect(result.results.length).to.equal(0);
+	});
+
+	it('update', async () => {
+		const transaction = await driver.transaction();
+
+		transaction.execute(
+			q
+				.update(q.collection('Foo', 'Bar'))
+				.set({ likes: 11 })
+				.where(q.eq('title', 'Hello world'))
+		);
+
+		await transaction.commit().should.be.fulfilled;
+
+		const result = await driver.execute<Foo>(
+			q
+				.select('likes')
+				.from(q.collection('Foo', 'Bar'))
+				.where(q.eq('title', 'Hello world'))
+		);
+		expect(result.results).to.eql([{ likes: 11 }]);
+	});
+
+	it('select', async () => {
+		const select = q
+			.select('id', 'title')
+			.from(q.collection('Foo', 'Bar'))
+			.where(q.or(q.gt('likes', 5), q.beginsWith('title', 'Ba')))
+			.sort(q.sort('title', 'desc'))
+			.range({ limit: 1, offset: 1 });
+
+		const result: QuerySelectResult<any> = await driver.execute<Foo>(select).should.be.fulfilled;
+		expect(result).to.be.an.instanceOf(QuerySelectResult);
+		expect(result.results).to.eql([{ id: 3, title: 'Bar' }]);
+	});
+
+	it('variable', async () => {
+		const select = q
+			.select('title')
+			.from(q.collection('Foo', 'Bar'))
+			.where(q.in('id', q.var('ids')));
+		await driver.execute<Foo>(select).should.be.rejected;
+
+		const result: QuerySelectResult<any> = await driver.execute<Foo>(select, { ids: [1, 3] }).should.be.fulfilled;
+		expect(result.results).to.eql([{ title: 'Hello world' }, { title: 'Bar' }]);
+	});
+
+	it('stream', async () => {
+		const select = q
+			.select<any>('id', 'title')
+			.from(q.collection('Foo', 'Bar'))
+			.sort(q.sort('id', 'asc'));
+
+		const rows: any[] = [];
+		for await (const row of driver.stream(select)) {
+			rows.push(row);
+		}
+		expect(rows).to.eql([{ id: 1, title: 'Hello world' }, { id: 2, title: 'Foo' }, { id: 3, title: 'Bar' }]);
+
+		await driver.stream(select.where(q.eq('title', q.var('title')))).next().should.be.rejected;
+	});
+
+	it('aggregate', async () => {
+		const aggregate = q
+			.aggregate<any>(
+				q.as(q.count('id'), 'total'),
+				q.as(q.sum(q.field('likes')), 'likes'),
+				q.as(q.max(q.field('likes')), 'most')
+			)
+			.from(q.collection('Foo', 'Bar'));
+
+		const result: QueryAggregateResult<any> = await driver.execute(aggregate).should.be.fulfilled;
+		expect(result).to.be.an.instanceOf(QueryAggregateResult);
+		expect(result.results).to.eql([{ total: 3, likes: 13, most: 11 }]);
+
+		const grouped: QueryAggregateResult<any> = await driver.execute(
+			q
+				.aggregate<any>('likes', q.as(q.count('id'), 'total'))
+				.from(q.collection('Foo', 'Bar'))
+				.group(q.field('likes'))
+				.sort(q.sort('likes', 'desc'))
+		).should.be.fulfilled;
+		expect(grouped.results).to.eql([{ likes: 11, total: 1 }, { likes: 2, total: 1 }, { likes: 0, total: 1 }]);
+	});
+
+	it('explain', async () => {
+		const select: QueryExplainResult = await driver.explain(
+			q
+				.select('title')
+				.from(q.collection('Foo', 'Bar'))
+				.where(q.exists(q.select('id').from(q.collection('Foo', 'Bar'))))
+				.sort(q.sort('title'))
+		).should.be.fulfilled;
+		expect(select.plan.map(node => node.detail)).to.eql([
+			'SCAN Bar__Foo',
+			'CORRELATED SUBQUERY',
+			'USE TEMP B-TREE FOR ORDER BY',
+		]);
+		expect(select.fullScans.length).to.equal(2);
+		expect(select.cost).to.equal(6);
+		expect(select.usesIndex('Bar_Foo_title')).to.equal(false);
+
+		const union: QueryExplainResult = await driver.explain(
+			q.union(q.select('id').from(q.collection('Foo', 'Bar')), q.select('id').from(q.collection('Foo', 'Bar')))
+		).should.be.fulfilled;
+		expect(union.plan[0].operation).to.equal('compound');
+		expect(union.plan[0].children.length).to.equal(2);
+
+		await driver.explain(q.select('id').from('Baz')).should.be.rejected;
+		await driver.explain(q.delete('Foo') as any).should.be.rejectedWith(TypeError);
+	});
+
+	it('scalar function', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute(
+			q
+				.createCollection('Article')
+				.define(
+					[
+						q.column('id', ColumnType.Int),
+						q.column('title', ColumnType.Text),
+						q.column('postDate', ColumnType.Date),
+						q.column('likes', ColumnType.Int),
+					],
+					[]
+				)
+		);
+		transaction.execute(
+			q
+				.insert('Article')
+				.add({ id: 1, title: '  Hello ', postDate: new Date('2018-01-15T10:30:00.000Z'), likes: 5 })
+				.add({ id: 2, title: 'world', postDate: new Date('2018-01-20T08:00:00.000Z'), likes: -3 })
+				.add({ id: 3, title: null, postDate: new Date('2018-03-02T23:59:59.000Z'), likes: null })
+				.add({ id: 4, title: 'Again', postDate: new Date('2017-12-31T12:00:00.000Z'), likes: 10 })
+		);
+		await transaction.commit();
+
+		const select: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>(
+					q.as(q.lower(q.trim('title')), 'lower'),
+					q.as(q.upper('title'), 'upper'),
+					q.as(q.len('title'), 'length'),
+					q.as(q.substr(q.trim('title'), 2, 3), 'part'),
+					q.as(q.substr(q.trim('title'), -2), 'tail'),
+					q.as(q.round(q.div(q.field('likes'), 2)), 'half'),
+					q.as(q.round(q.div(q.field('likes'), 3), 2), 'third'),
+					q.as(q.div(q.field('likes'), 0), 'infinite'),
+					q.as(q.add(q.field('likes'), q.mul(q.field('likes'), 2), 1), 'total'),
+					q.as(q.abs(q.sub(q.field('likes'), 10)), 'distance'),
+					q.as(q.year('postDate'), 'year'),
+					q.as(q.month('postDate'), 'month'),
+					q.as(q.dateTrunc('month', 'postDate'), 'archive'),
+					q.as(q.case([[q.gt('likes', 4), 'hot'], [q.gt('likes', 0), 'warm']], 'cold'), 'heat')
+				)
+				.from('Article')
+				.where(q.eq('id', 1))
+		).should.be.fulfilled;
+		expect(select.results).to.eql([
+			{
+				lower: 'hello',
+				upper: '  HELLO ',
+				length: 8,
+				part: 'ell',
+				tail: 'lo',
+				half: 3,
+				third: 1.67,
+				infinite: null,
+				total: 16,
+				distance: 5,
+				year: 2018,
+				month: 1,
+				archive: '2018-01-01T00:00:00.000Z',
+				heat: 'hot',
+			},
+		]);
+
+		const draft: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>(
+					q.as(q.coalesce('title', 'untitled'), 'title'),
+					q.as(q.len('title'), 'length'),
+					q.as(q.case([[q.isNull('title'), 'draft']]), 'state'),
+					q.as(q.case([[q.isNotNull('title'), 'published']]), 'published')
+				)
+				.from('Article')
+				.where(q.eq('id', 3))
+		).should.be.fulfilled;
+		expect(draft.results).to.eql([{ title: 'untitled', length: null, state: 'draft', published: null }]);
+
+		const archive: QueryAggregateResult<any> = await driver.execute<any>(
+			q
+				.aggregate<any>(
+					q.as(q.year('postDate'), 'year'),
+					q.as(q.month('postDate'), 'month'),
+					q.as(q.count('id'), 'posts')
+				)
+				.from('Article')
+				.group(q.year('postDate'), q.month('postDate'))
+				.sort(q.sort(q.year('postDate'), 'desc'), q.sort(q.month('postDate'), 'desc'))
+		).should.be.fulfilled;
+		expect(archive.results).to.eql([
+			{ year: 2018, month: 3, posts: 1 },
+			{ year: 2018, month: 1, posts: 2 },
+			{ year: 2017, month: 12, posts: 1 },
+		]);
+
+		const january: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>('id')
+				.from('Article')
+				.where(q.eq(q.dateTrunc('month', 'postDate'), new Date('2018-01-01T00:00:00.000Z')))
+				.sort(q.sort(q.lower('title'), 'desc'))
+		).should.be.fulfilled;
+		expect(january.results).to.eql([{ id: 2 }, { id: 1 }]);
+
+		const sorted: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>('id')
+				.from('Article')
+				.where(q.isNotNull('title'))
+				.sort(q.sort(q.lower('title')))
+		).should.be.fulfilled;
+		expect(sorted.results).to.eql([{ id: 1 }, { id: 4 }, { id: 2 }]);
+
+		const drop = await driver.transaction();
+		drop.execute(q.dropCollection('Article'));
+		await drop.commit();
+	});
+
+	it('join', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute(
+			q
+				.createCollection('Tag')
+				.define([q.column('source', ColumnType.Int), q.column('name', ColumnType.Text)], [])
+		);
+		transaction.execute(
+			q
+				.insert('Tag')
+				.add({ source: 1, name: 'foo' })
+				.add({ source: 1, name: 'bar' })
+				.add({ source: 2, name: 'foo' })
+		);
+		await transaction.commit();
+
+		const select = q
+			.aggregate<any>(q.as('title', 'title'), q.as(q.field('name', 'tag'), 'tag'))
+			.from(q.collection('Foo', 'Bar'))
+			.join('tag', q.select('source', 'name').from('Tag'), q.eq(q.field('source', 'tag'), q.field('id')))
+			.where(q.eq(q.field('name', 'tag'), 'foo'));
+
+		const result: QueryAggregateResult<any> = await driver.execute(select).should.be.fulfilled;
+		expect(result.results).to.eql([{ title: 'Hello world', tag: 'foo' }, { title: 'Foo', tag: 'foo' }]);
+	});
+
+	it('having and distinct', async () => {
+		const distinct: QuerySelectResult<any> = await driver.execute(
+			q
+				.select<any>('name')
+				.from('Tag')
+				.distinct()
+		).should.be.fulfilled;
+		expect(distinct.results).to.eql([{ name: 'foo' }, { name: 'bar' }]);
+
+		const having: QueryAggregateResult<any> = await driver.execute(
+			q
+				.aggregate<any>('name', q.as(q.count('source'), 'tags'))
+				.from('Tag')
+				.group(q.field('name'))
+				.having(q.gt(q.count('source'), q.var('min'))),
+			{ min: 1 }
+		).should.be.fulfilled;
+		expect(having.results).to.eql([{ name: 'foo', tags: 2 }]);
+
+		const counted: QueryAggregateResult<any> = await driver.execute(
+			q.aggregate<any>(q.as(q.count('name'), 'tags'), q.as(q.countDistinct('name'), 'names')).from('Tag')
+		).should.be.fulfilled;
+		expect(counted.results).to.eql([{ tags: 3, names: 2 }]);
+	});
+
+	it('outer join', async () => {
+		const tags = q
+			.select<any>('source', 'name')
+			.from('Tag')
+			.where(q.ne('name', 'bar'));
+		const on = q.eq(q.field('source', 'tag'), q.field('id', 'Bar_Foo'));
+		const select = q.select<any>('title', q.field('name', 'tag')).from(q.collection('Foo', 'Bar'));
+		const run = async (query: typeof select) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(query).should.be.fulfilled;
+			return result.results.map(row => `${row.title}:${row.name}`).sort();
+		};
+
+		const transaction = await driver.transaction();
+		transaction.execute(q.insert('Tag').add({ source: 9, name: 'moo' }));
+		await transaction.commit();
+
+		expect(await run(select.leftJoin('tag', tags, on))).to.eql(['Bar:null', 'Foo:foo', 'Hello world:foo']);
+		expect(await run(select.rightJoin('tag', tags, on))).to.eql(['Foo:foo', 'Hello world:foo', 'null:moo']);
+		expect(await run(select.fullJoin('tag', tags, on))).to.eql([
+			'Bar:null',
+			'Foo:foo',
+			'Hello world:foo',
+			'null:moo',
+		]);
+		expect((await run(select.crossJoin('tag', tags))).length).to.equal(9);
+	});
+
+	it('subquery', async () => {
+		const select = q.select<any>('title').from(q.collection('Foo', 'Bar'));
+		const tagged = (name: any) =>
+			q
+				.select<any>('source')
+				.from('Tag')
+				.where(q.and<any>(q.eq(q.field('source', 'Tag'), q.field('id', 'Bar_Foo')), q.eq('name', name)));
+		const run = async (query: typeof select) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(query, { tag: 'foo' }).should.be.fulfilled;
+			return result.results.map(row => row.title).sort();
+		};
+		const bar = q
+			.select<any>('source')
+			.from('Tag')
+			.where(q.eq('name', 'bar'));
+
+		expect(await run(select.where(q.in('id', bar)))).to.eql(['Hello world']);
+		expect(await run(select.where(q.eq('id', bar)))).to.eql(['Hello world']);
+		expect(await run(select.where(q.exists(tagged(q.var('tag')))))).to.eql(['Foo', 'Hello world']);
+		expect(await run(select.where(q.notExists(tagged('foo'))))).to.eql(['Bar']);
+	});
+
+	it('comparison', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'Moo', likes: 5 }));
+		await transaction.commit();
+
+		const select = q.select<any>('title').from(q.collection('Foo', 'Bar'));
+		const run = async (query: typeof select) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(query, { min: 2, pattern: 'h%' }).should.be
+				.fulfilled;
+			return result.results.map(row => row.title).sort();
+		};
+
+		expect(await run(select.where(q.isNull('postDate')))).to.eql(['Moo']);
+		expect(await run(select.where(q.isNotNull('postDate')))).to.eql(['Bar', 'Foo', 'Hello world']);
+		expect(await run(select.where(q.not(q.lt('postDate', new Date()))))).to.eql([]);
+		expect(await run(select.where(q.notIn('title', ['Foo', 'Bar'])))).to.eql(['Hello world', 'Moo']);
+		expect(await run(select.where(q.between('likes', q.var('min'), 10)))).to.eql(['Foo', 'Moo']);
+		expect(await run(select.where(q.like('title', q.var('pattern'))))).to.eql(['Hello world']);
+		expect(await run(select.where(q.like('title', '_oo')))).to.eql(['Foo', 'Moo']);
+		expect(await run(select.where(q.endsWith('title', 'ar')))).to.eql(['Bar']);
+		expect(await run(select.where(q.contains('title', 'O')))).to.eql([]);
+		expect(await run(select.where(q.not(q.or(q.contains('title', 'o'), q.gt('likes', 10)))))).to.eql(['Bar']);
+
+		const cleanup = await driver.transaction();
+		cleanup.execute(q.delete(q.collection('Foo', 'Bar')).where(q.eq('title', 'Moo')));
+		await cleanup.commit();
+	});
+
+	it('union', async () => {
+		const union = q
+			.union(
+				q.select('title').from(q.collection('Foo', 'Bar')),
+				q
+					.select('title')
+					.from(q.collection('Foo', 'Bar'))
+					.where(q.eq('id', 1))
+			)
+			.sort(q.sort('title', 'asc'));
+
+		const result: QuerySelectResult<any> = await driver.execute(union).should.be.fulfilled;
+		expect(result.results).to.eql([{ title: 'Bar' }, { title: 'Foo' }, { title: 'Hello world' }]);
+	});
+
+	it('upsert', async () => {
+		const upsert = q.insert<any>(q.collection('Foo', 'Bar'));
+		const likes = async () => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(
+				q.select<any>('id', 'title', 'likes').from(q.collection('Foo', 'Bar'))
+			).should.be.fulfilled;
+			return result.results.map(row => `${row.id}:${row.title}:${row.likes}`);
+		};
+
+		const transaction = await driver.transaction();
+		transaction.execute(
+			upsert
+				.add({ id: 1, title: 'Hello world', likes: 99 })
+				.add({ id: 5, title: 'Upsert', likes: 1 })
+				.onConflict('id')
+				.doNothing()
+		);
+		await transaction.commit().should.be.fulfilled;
+		expect(await likes()).to.eql(['1:Hello world:11', '2:Foo:2', '3:Bar:0', '5:Upsert:1']);
+
+		const update = await driver.transaction();
+		update.execute(
+			upsert
+				.add({ id: 1, title: 'Hello', likes: 3 })
+				.onConflict('id')
+				.doUpdate({ likes: q.field('likes', 'excluded') })
+		);
+		update.execute(
+			upsert
+				.add({ title: 'Upsert', likes: 2 })
+				.onConflict('title')
+				.doUpdate()
+		);
+		update.execute(
+			upsert
+				.add({ id: 5, title: 'Renamed', likes: 4 })
+				.onConflict('id')
+				.doUpdate()
+		);
+		await update.commit().should.be.fulfilled;
+		expect(await likes()).to.eql(['1:Hello world:3', '2:Foo:2', '3:Bar:0', '5:Renamed:4']);
+
+		const cleanup = await driver.transaction();
+		cleanup.execute(q.delete(q.collection('Foo', 'Bar')).where(q.eq('id', 5)));
+		await cleanup.commit();
+	});
+
+	it('returning', async () => {
+		const foo = q.collection('Foo', 'Bar');
+		const transaction = await driver.transaction();
+		transaction.execute(
+			q
+				.insert<any>(foo)
+				.add({ title: 'A', postDate: new Date(), likes: 1 })
+				.returning('id', q.as('title', 'name'))
+		);
+		transaction.execute(
+			q
+				.update<any>(foo)
+				.set({ likes: 5 })
+				.where(q.eq('title', 'A'))
+				.returning('likes')
+		);
+		transaction.execute(
+			q
+				.update<any>(foo)
+				.set({ likes: 5 })
+				.where(q.eq('title', 'C'))
+		);
+		transaction.execute(
+			q
+				.delete(foo)
+				.where(q.eq('title', 'A'))
+				.returning()
+		);
+
+		const result = await transaction.commit().should.be.fulfilled;
+		expect(result.statements.map((statement: any) => statement.changes)).to.eql([1, 1, 0, 1]);
+		expect(result.statements[0].results).to.eql([{ id: 7, name: 'A' }]);
+		expect(result.statements[1].results).to.eql([{ likes: 5 }]);
+		expect(result.statements[2].results).to.equal(undefined);
+		expect(result.statements[3].results[0].title).to.equal('A');
+		expect(result.statements[3].results[0].likes).to.equal(5);
+	});
+
+	it('savepoint', async () => {
+		const names = async () =>
+			(await driver.execute<any>(q.select<any>('name').from('Sp'))).results.map(({ name }) => name).sort();
+		const insert = (name: string) => q.insert<any>('Sp').add({ name });
+
+		const setup = await driver.transaction();
+		setup.execute(
+			q
+				.createCollection('Sp')
+				.define(
+					[q.column('id', ColumnType.UInt, 64, null, true), q.column('name', ColumnType.Text)],
+					[q.index('Sp_name', IndexType.Unique, [q.sort('name', 'asc')])]
+				)
+		);
+		await setup.commit().should.be.fulfilled;
+
+		const explicit = await driver.transaction();
+		explicit.execute(insert('a'));
+		explicit.savepoint('before_b');
+		explicit.execute(insert('b'));
+		explicit.rollbackTo('before_b');
+		explicit.release('before_b');
+		explicit.execute(insert('c'));
+		await explicit.commit().should.be.fulfilled;
+		expect(await names()).to.eql(['a', 'c']);
+
+		const parent = await driver.transaction();
+		parent.execute(insert('d'));
+		const failing = await parent.transaction();
+		failing.execute(insert('e'));
+		failing.execute(insert('a'));
+		let rolledBack = false;
+		failing.once('rollback', () => {
+			rolledBack = true;
+		});
+		const failingCommit = failing.commit();
+		const child = await parent.transaction();
+		child.execute(insert('f'));
+		const grandchild = await child.transaction();
+		grandchild.execute(insert('c'));
+		let grandchildRolledBack = false;
+		grandchild.once('rollback', () => {
+			grandchildRolledBack = true;
+		});
+		const grandchildCommit = grandchild.commit();
+		let childCommitted = false;
+		child.once('commit', () => {
+			childCommitted = true;
+		});
+		const childCommit = child.commit();
+		parent.execute(insert('g'));
+		// Children are merged into their parent, their statements only run when it commits
+		await Promise.all([failingCommit, grandchildCommit, childCommit]).should.be.fulfilled;
+		expect(rolledBack).to.equal(false);
+		await parent.commit().should.be.fulfilled;
+		expect(rolledBack).to.equal(true);
+		expect(grandchildRolledBack).to.equal(true);
+		expect(childCommitted).to.equal(true);
+		expect(await names()).to.eql(['a', 'c', 'd', 'f', 'g']);
+
+		const sequential = await driver.transaction();
+		const nested = await sequential.transaction();
+		nested.execute(insert('i'));
+		await nested.commit().should.be.fulfilled;
+		sequential.execute(insert('j'));
+		await sequential.commit().should.be.fulfilled;
+		expect(await names()).to.eql(['a', 'c', 'd', 'f', 'g', 'i', 'j']);
+
+		const atomic = await driver.transaction();
+		atomic.execute(insert('h'));
+		atomic.execute(insert('a'));
+		await atomic.commit().should.be.rejected;
+		expect(await names()).to.eql(['a', 'c', 'd', 'f', 'g', 'i', 'j']);
+
+		const unknown = await driver.transaction();
+		unknown.rollbackTo('missing');
+		await unknown.commit().should.be.rejected;
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection('Sp'));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('read in transaction', async () => {
+		const setup = await driver.transaction();
+		setup.execute(
+			q
+				.createCollection('Counter')
+				.define(
+					[q.column('name', ColumnType.Text), q.column('value', ColumnType.Int, 64)],
+					[q.index('Counter_name', IndexType.Primary, [q.sort('name', 'asc')])]
+				)
+		);
+		setup.execute(q.insert<any>('Counter').add({ name: 'views', value: 0 }));
+		await setup.commit().should.be.fulfilled;
+
+		const select = q
+			.select<any>('value')
+			.from('Counter')
+			.where(q.eq('name', 'views'));
+		const increment = async () => {
+			const transaction = await driver.transaction();
+			const { results } = await transaction.execute<any>(select);
+			transaction.execute(
+				q
+					.update<any>('Counter')
+					.set({ value: results[0].value + 1 })
+					.where(q.eq('name', 'views'))
+			);
+			await transaction.commit();
+		};
+		await Promise.all([increment(), increment(), increment()]);
+		expect((await driver.execute<any>(select)).results[0].value).to.equal(3);
+
+		const transaction = await driver.transaction();
+		transaction.execute(q.insert<any>('Counter').add({ name: 'likes', value: 1 }));
+		const count = q.aggregate<any>(q.as(q.count('name'), 'count')).from('Counter');
+		expect((await transaction.execute<any>(count)).results[0].count).to.equal(2);
+		const child = await transaction.transaction();
+		child.execute(q.insert<any>('Counter').add({ name: 'shares', value: 1 }));
+		expect((await child.execute<any>(count)).results[0].count).to.equal(3);
+		await child.rollback();
+		expect((await transaction.execute<any>(count)).results[0].count).to.equal(2);
+		await transaction.commit().should.be.fulfilled;
+		expect((await driver.execute<any>(count)).results[0].count).to.equal(2);
+
+		const failing = await driver.transaction();
+		failing.execute(q.insert<any>('Counter').add({ name: 'comments', value: 0 }));
+		failing.execute(q.insert<any>('Counter').add({ name: 'views', value: 0 }));
+		await failing.execute<any>(count).should.be.rejected;
+		await failing.commit().should.be.rejected;
+		expect((await driver.execute<any>(count)).results[0].count).to.equal(2);
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection('Counter'));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('foreign key', async () => {
+		const author = q.collection('Author', 'Fk');
+		const post = q.collection('Post', 'Fk');
+		const posts = async () =>
+			(await driver.execute<any>(q.select<any>('title').from(post))).results.map(({ title }) => title).sort();
+
+		const setup = await driver.transaction();
+		setup.execute(
+			q
+				.createCollection(author)
+				.define(
+					[q.column('id', ColumnType.Int, 64, null, true), q.column('name', ColumnType.Text)],
+					[q.index('Fk_Author_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		setup.execute(
+			q
+				.createCollection(post)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title', ColumnType.Text),
+						q.column('author', ColumnType.Int, 64),
+					],
+					[q.index('Fk_Post_id', IndexType.Primary, [q.sort('id', 'asc')])],
+					[q.foreignKey('author', author, 'id', { onDelete: 'cascade' })]
+				)
+		);
+		setup.execute(
+			q
+				.insert<any>(author)
+				.add({ id: 1, name: 'Foo' })
+				.add({ id: 2, name: 'Bar' })
+		);
+		setup.execute(
+			q
+				.insert<any>(post)
+				.add({ title: 'A', author: 1 })
+				.add({ title: 'B', author: 1 })
+				.add({ title: 'C', author: 2 })
+		);
+		await setup.commit().should.be.fulfilled;
+
+		const description = await driver.execute(q.describeCollection(post));
+		expect(description.foreignKeys.length).to.equal(1);
+		expect(description.foreignKeys[0].columns.toArray()).to.eql(['author']);
+		expect(description.foreignKeys[0].collection.toString()).to.equal(author.toString());
+		expect(description.foreignKeys[0].refColumns.toArray()).to.eql(['id']);
+		expect(description.foreignKeys[0].onDelete).to.equal('cascade');
+		expect(description.foreignKeys[0].onUpdate).to.equal('noAction');
+
+		const dangling = await driver.transaction();
+		dangling.execute(q.insert<any>(post).add({ title: 'D', author: 3 }));
+		await dangling.commit().should.be.rejected;
+
+		const remove = await driver.transaction();
+		remove.execute(q.delete(author).where(q.eq('id', 1)));
+		await remove.commit().should.be.fulfilled;
+		expect(await posts()).to.eql(['C']);
+
+		// Rebuilding either side keeps the rows and the constraint
+		const rebuild = await driver.transaction();
+		rebuild.execute(q.alterCollection(author).addColumn(q.column('bio', ColumnType.Text)));
+		rebuild.execute(q.alterCollection(post).alterColumn('author', q.column('writer', ColumnType.Int, 64)));
+		await rebuild.commit().should.be.fulfilled;
+		expect(await posts()).to.eql(['C']);
+		const rebuilt = await driver.execute(q.describeCollection(post));
+		expect(rebuilt.foreignKeys.map(foreignKey => foreignKey.toString())).to.eql([
+			'FOREIGN KEY (writer) REFERENCES Fk__Author (id) ON DELETE cascade',
+		]);
+
+		const drop = await driver.transaction();
+		drop.execute(q.alterCollection(post).dropForeignKey('writer'));
+		await drop.commit().should.be.fulfilled;
+		expect((await driver.execute(q.describeCollection(post))).foreignKeys).to.eql([]);
+
+		const add = await driver.transaction();
+		add.execute(
+			q.alterCollection(post).addForeignKey(q.foreignKey('writer', author, 'id', { onDelete: 'setNull' }))
+		);
+		await add.commit().should.be.fulfilled;
+		const removeAgain = await driver.transaction();
+		removeAgain.execute(q.delete(author).where(q.eq('id', 2)));
+		await removeAgain.commit().should.be.fulfilled;
+		expect((await driver.execute<any>(q.select<any>('title', 'writer').from(post))).results).to.eql([
+			{ title: 'C', writer: null },
+		]);
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(post));
+		teardown.execute(q.dropCollection(author));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('column constraints', async () => {
+		const user = q.collection('User', 'Ck');
+		const setup = await driver.transaction();
+		setup.execute(
+			q.createCollection(user).define(
+				[
+					q.column('id', ColumnType.Int, 64, null, true),
+					q.column('name', ColumnType.Text, undefined, undefined, false, { nullable: false }),
+					q.column('age', ColumnType.Int, 64, 18, false, {
+						check: q.and(q.gte('age', 18), q.lt('age', 150)),
+					}),
+				],
+				[q.index('Ck_User_id', IndexType.Primary, [q.sort('id', 'asc')])]
+			)
+		);
+		setup.execute(
+			q
+				.insert<any>(user)
+				.add({ name: 'Foo' })
+				.add({ name: 'Bar', age: null })
+		);
+		await setup.commit().should.be.fulfilled;
+
+		const description = await driver.execute(q.describeCollection(user));
+		expect(description.columns[1].nullable).to.equal(false);
+		expect(`${description.columns[2].check}`).to.equal('(age >= 18 AND age < 150)');
+		expect((await driver.execute<any>(q.select<any>('age').from(user))).results).to.eql([
+			{ age: 18 },
+			{ age: null },
+		]);
+
+		const missing = await driver.transaction();
+		missing.execute(q.insert<any>(user).add({ age: 20 }));
+		await missing.commit().should.be.rejected;
+
+		const invalid = await driver.transaction();
+		invalid.execute(
+			q
+				.update<any>(user)
+				.set({ age: 12 })
+				.where(q.eq('name', 'Foo'))
+		);
+		await invalid.commit().should.be.rejected;
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(user));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('column types', async () => {
+		const product = q.collection('Product', 'Ty');
+		const setup = await driver.transaction();
+		setup.execute(
+			q
+				.createCollection(product)
+				.define(
+					[
+						q.column('id', ColumnType.Uuid),
+						q.column('price', ColumnType.Decimal, 10, undefined, false, { scale: 2 }),
+						q.column('status', ColumnType.Enum, undefined, 'draft', false, { values: ['draft', 'sold'] }),
+						q.column('meta', ColumnType.Json),
+					],
+					[]
+				)
+		);
+		setup.execute(
+			q
+				.insert<any>(product)
+				.add({ id: '0b9a7c9e-0f3a-4c8e-9d5e-3f1c2b7a6d10', price: '12.50', meta: { stock: 3 } })
+		);
+		await setup.commit().should.be.fulfilled;
+
+		const meta = { stock: 2 };
+		const update = await driver.transaction();
+		update.execute(q.update<any>(product).set({ status: 'sold', meta }));
+		await update.commit().should.be.fulfilled;
+		meta.stock = 1;
+
+		expect((await driver.execute<any>(q.select<any>().from(product))).results).to.eql([
+			{ id: '0b9a7c9e-0f3a-4c8e-9d5e-3f1c2b7a6d10', price: 12.5, status: 'sold', meta: { stock: 2 } },
+		]);
+
+		const invalid = await driver.transaction();
+		invalid.execute(q.update<any>(product).set({ status: 'gone' }));
+		await invalid.commit().should.be.rejected;
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(product));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('full-text search', async () => {
+		const post = q.collection('Post', 'Blog');
+		const create = await driver.transaction();
+		create.execute(
+			q
+				.createCollection(post)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title__fr', ColumnType.Text),
+						q.column('content__fr', ColumnType.Text),
+					],
+					[
+						q.index('Blog_Post_id', IndexType.Primary, [q.sort('id', 'asc')]),
+						q.index('Blog_Post_search', IndexType.FullText, [
+							q.sort('title__fr', 'asc'),
+							q.sort('content__fr', 'asc'),
+						]),
+					]
+				)
+		);
+		create.execute(q.insert(post).add({ title__fr: 'Bonjour le monde', content__fr: 'Premier article' }));
+		create.execute(
+			q.insert(post).add({ title__fr: 'Recette de crêpes', content__fr: 'La recette des crêpes bretonnes' })
+		);
+		create.execute(q.insert(post).add({ title__fr: 'Autre', content__fr: 'Bonjour, voici une recette' }));
+		await create.commit().should.be.fulfilled;
+
+		const search = async (condition: BinaryExpression, variables?: Variables) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(
+				q
+					.select('id')
+					.from(post)
+					.where(condition)
+					.sort(q.sort(q.rank()), q.sort('id')),
+				variables
+			);
+			return result.results.map(row => row.id);
+		};
+
+		expect(await search(q.match<any>(['title__fr', 'content__fr'], 'recette'))).to.eql([2, 3]);
+		expect(await search(q.match<any>('title__fr', 'BONJOUR'))).to.eql([1]);
+		expect(await search(q.match<any>(['title__fr', 'content__fr'], q.var('text')), { text: 'crepes' })).to.eql([2]);
+		expect(await search(q.match<any>('content__fr', '"recette des" crêp*'))).to.eql([2]);
+		expect(await search(q.match<any>(['title__fr', 'content__fr'], 'monde OR voici'))).to.eql([1, 3]);
+		expect(await search(q.or(q.match<any>('title__fr', 'monde'), q.eq('id', 3)))).to.eql([1, 3]);
+		const others: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select('id')
+				.from(post)
+				.where(q.not(q.match<any>('title__fr', 'monde')))
+		);
+		expect(others.results).to.eql([{ id: 2 }, { id: 3 }]);
+
+		const desc: QueryDescribeCollectionResult = await driver.execute(q.describeCollection(post));
+		expect(desc.indexes.map(index => index.type)).to.eql([IndexType.Primary, IndexType.FullText]);
+
+		await driver
+			.execute(
+				q
+					.select('id')
+					.from(post)
+					.sort(q.sort(q.rank()))
+			)
+			.should.be.rejectedWith(Error);
+
+		const drop = await driver.transaction();
+		drop.execute(q.dropCollection(post));
+		await drop.commit().should.be.fulfilled;
+	});
+
+	it('view', async () => {
+		const author = q.collection('Author', 'Blog');
+		const article = q.collection('Article', 'Blog');
+		const view = q.collection('PublishedArticle', 'Blog');
+		const create = await driver.transaction();
+		create.execute(
+			q
+				.createCollection(author)
+				.define(
+					[q.column('id', ColumnType.Int, 64, null, true), q.column('username', ColumnType.Text)],
+					[q.index('Blog_Author_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		create.execute(
+			q
+				.createCollection(article)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title', ColumnType.Text),
+						q.column('published', ColumnType.Boolean),
+						q.column('author', ColumnType.Int),
+					],
+					[q.index('Blog_Article_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		create.execute(q.insert(author).add({ username: 'rick' }));
+		create.execute(q.insert(article).add({ title: 'Draft', published: false, author: 1 }));
+		create.execute(q.insert(article).add({ title: 'Hello', published: true, author: 1 }));
+		const published = q
+			.select<any>(q.field('id', 'Blog_Article'), 'title', q.field('username', 'author'))
+			.from(article)
+			.join(
+				'author',
+				q.select<any>('id', 'username').from(author),
+				q.eq(q.field('id', 'author'), q.field('author'))
+			)
+			.where(q.eq('published', true));
+		create.execute(q.createView(view, published));
+		await create.commit().should.be.fulfilled;
+
+		const result: QuerySelectResult<any> = await driver.execute<any>(
+			q.select('id', 'title', 'username').from(view)
+		);
+		expect(result.results).to.eql([{ id: 2, title: 'Hello', username: 'rick' }]);
+
+		const show: QueryShowCollectionResult = await driver.execute(q.showCollection());
+		expect(show.views.map(collection => collection.toString())).to.eql(['Blog__PublishedArticle']);
+
+		const desc: QueryDescribeCollectionResult = await driver.execute(q.describeCollection(view));
+		expect(desc.readOnly).to.equal(true);
+		expect(desc.columns.map(column => [column.name, column.type])).to.eql([
+			['id', ColumnType.Int],
+			['title', ColumnType.Text],
+			['username', ColumnType.Text],
+		]);
+		expect(desc.view).to.equal(published);
+
+		const write = await driver.transaction();
+		write.execute(q.update(view).set({ title: 'Nope' }));
+		await write.commit().should.be.rejectedWith(Error, 'Can not modify view Blog__PublishedArticle');
+
+		const publish = await driver.transaction();
+		publish.execute(q.update(article).set({ published: true }));
+		await publish.commit().should.be.fulfilled;
+		const updated: QuerySelectResult<any> = await driver.execute<any>(q.select('title').from(view));
+		expect(updated.results).to.eql([{ title: 'Draft' }, { title: 'Hello' }]);
+
+		const wrong = await driver.transaction();
+		wrong.execute(q.dropView(article));
+		await wrong.commit().should.be.rejectedWith(Error, 'is not a view');
+
+		const drop = await driver.transaction();
+		drop.execute(q.dropView(view));
+		drop.execute(q.dropCollection(article));
+		drop.execute(q.dropCollection(author));
+		await drop.commit().should.be.fulfilled;
+		const exists: QueryCollectionExistsResult = await driver.execute(q.collectionExists(view));
+		expect(exists.exists).to.equal(false);
+	});
+
+	it('delete', async () => {
+		const transaction = await driver.transaction();
+
+		transaction.execute(q.delete(q.collection('Foo', 'Bar')).where(q.eq('title', 'Hello world')));
+
+		await transaction.commit().should.be.fulfilled;
+
+		const result = await driver.execute<Foo>(q.select('id').from(q.collection('Foo', 'Bar')));
+		expect(result.results).to.eql([{ id: 2 }, { id: 3 }]);
+	});
+
+	it('describe collection', async () => {
+		const desc: QueryDescribeCollectionResult = await driver.execute(
+			q.describeCollection(q.collection('Foo', 'Bar'))
+		).should.be.fulfilled;
+		expect(desc).to.be.an.instanceOf(QueryDescribeCollectionResult);
+		expect(desc.columns.length).to.be.equal(4);
+		expect(desc.columns[0].name).to.be.equal('id');
+		expect(desc.columns[0].type).to.be.equal(ColumnType.UInt);
+		expect(desc.columns[0].autoIncrement).to.be.equal(true);
+		expect(desc.columns[3].name).to.be.equal('likes');
+		expect(desc.columns[3].defaultValue).to.be.equal(0);
+		expect(desc.indexes.length).to.be.equal(2);
+		expect(desc.indexes[0].name).to.be.equal('Bar_Foo_id');
+		expect(desc.indexes[0].type).to.be.equal(IndexType.Primary);
+		expect(desc.indexes[1].name).to.be.equal('Bar_Foo_title');
+		expect(desc.indexes[1].type).to.be.equal(IndexType.Unique);
+	});
+
+	it('alter collection', async () => {
+		const alter = q
+			.alterCollection(q.collection('Foo', 'Bar'))
+			.addColumn(q.column('content', ColumnType.Text), 'title')
+			.alterColumn('postDate', q.column('date', ColumnType.Date))
+			.dropColumn('likes')
+			.addIndex(q.index('Bar_Foo_content', IndexType.Index, [q.sort(q.field('content'), 'asc')]))
+			.dropIndex('Bar_Foo_title')
+			.rename(q.collection('Foo', 'Boo'));
+
+		const transaction = await driver.transaction();
+
+		transaction.execute(alter);
+
+		await transaction.commit().should.be.fulfilled;
+
+		const desc: QueryDescribeCollectionResult = await driver.execute(
+			q.describeCollection(q.collection('Foo', 'Boo'))
+		).should.be.fulfilled;
+		expect(desc.columns.map(column => column.name)).to.eql(['id', 'title', 'date', 'content']);
+		expect(desc.indexes.map(index => index.name)).to.eql(['Boo_Foo_id', 'Bar_Foo_content']);
+
+		const result = await driver.execute<any>(q.select('title', 'content').from(q.collection('Foo', 'Boo')));
+		expect(result.results).to.eql([{ title: 'Foo', content: 'Foo' }, { title: 'Bar', content: 'Bar' }]);
+	});
+
+	it('exists collection', async () => {
+		let result: QueryCollectionExistsResult = await driver.execute(q.collectionExists(q.collection('Foo', 'Boo')))
+			.should.be.fulfilled;
+		expect(result).to.be.an.instanceOf(QueryCollectionExistsResult);
+		expect(result.exists).to.equal(true);
+
+		result = await driver.execute(q.collectionExists(q.collection('Foo', 'Bar'))).should.be.fulfilled;
+		expect(result).to.be.an.instanceOf(QueryCollectionExistsResult);
+		expect(result.exists).to.equal(false);
+	});
+
+	it('show collection', async () => {
+		const result: QueryShowCollectionResult = await driver.execute(q.showCollection()).should.be.fulfilled;
+		expect(result).to.be.an.instanceOf(QueryShowCollectionResult);
+		expect(result.collections.length).to.equal(2);
+		expect(result.collections[0].toString()).to.equal('Tag');
+		expect(result.collections[1].toString()).to.equal('Boo__Foo');
+
+		const namespace: QueryShowCollectionResult = await driver.execute(q.showCollection('Boo'));
+		expect(namespace.collections.map(collection => collection.toString())).to.eql(['Boo__Foo']);
+	});
+
+	it('drop collection', async () => {
+		const transaction = await driver.transaction();
+
+		transaction.execute(q.dropCollection(q.collection('Foo', 'Boo')));
+
+		await transaction.commit().should.be.fulfilled;
+
+		const result = await driver.execute(q.collectionExists(q.collection('Foo', 'Boo')));
+		expect(result.exists).to.equal(false);
+	});
+});
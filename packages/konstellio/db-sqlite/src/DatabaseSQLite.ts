@@ -14,6 +14,9 @@ import {
 	QueryDescribeCollectionResult,
 	QueryCollectionExistsResult,
 	QueryShowCollectionResult,
+	QueryExplainResult,
+	QueryPlanNode,
+	QueryPlanOperation,
 	Variables,
 	ColumnType,
 	Compare,
@@ -29,28 +32,60 @@ import {
 	QueryCreateCollection,
 	QueryAlterCollection,
 	QueryDropCollection,
+	QueryCreateView,
+	QueryDropView,
 	Change,
+	ForeignKey,
+	ReferentialAction,
 	ChangeAddColumn,
 	ChangeAddIndex,
+	ChangeDropColumn,
+	ChangeAddForeignKey,
 	QueryCommitResult,
+	QueryStatementResult,
 	Field,
 	FieldAs,
 	Function,
+	FunctionCountDistinct,
+	FunctionCase,
+	FunctionDateTrunc,
+	FunctionYear,
+	FunctionMonth,
+	FunctionDiv,
+	FunctionRank,
 	Value,
 	Comparison,
 	ComparisonIn,
+	ComparisonNotIn,
+	ComparisonBetween,
+	ComparisonLike,
+	ComparisonBeginsWith,
+	ComparisonEndsWith,
+	ComparisonContains,
+	ComparisonMatch,
+	ComparisonIsNull,
+	ComparisonIsNotNull,
+	Exists,
 	Binary,
+	BinaryExpression,
+	Join,
 	Query,
+	Primitive,
+	parseCondition,
+	isJSONValue,
 } from '@konstellio/db';
 import { Pool } from '@konstellio/promised';
 import { List } from 'immutable';
-import { Database as SQLite, OPEN_READWRITE, OPEN_CREATE } from 'sqlite3';
+import { Database as SQLite, Statement as SQLiteStatement, OPEN_READWRITE, OPEN_CREATE } from 'sqlite3';
 import { isArray } from 'util';
 
 export type DatabaseSQLiteConstructor = {
 	filename: string;
 	mode?: number;
 	verbose?: boolean;
+	statementCacheSize?: number;
+	// Files attached to the connection, the collections of these namespaces are the tables of their file
+	namespaces?: { [namespace: string]: string };
 };
 
 export type SQLiteQueryResult = {
@@ -68,7 +103,12 @@ export class DatabaseSQLite extends Database {
 	public readonly options: DatabaseSQLiteConstructor;
 	public readonly driver!: SQLite;
 
-	protected readonly transactionPool: Pool<SQLite>;
+	public readonly statementCache: StatementCache;
+
+	public readonly transactionPool: Pool<SQLite>;
+
+	// Declared types of the columns of each table, they tell how to parse the values that are read
+	private readonly declaredTypes: Map<string, Promise<DeclaredTypes>>;
 
 	constructor(options: DatabaseSQLiteConstructor) {
 		super();
@@ -76,7 +116,11 @@ export class DatabaseSQLite extends Database {
 		this.features = {
 			join: true,
 		};
+		this.statementCache = new StatementCache(
+			options.statementCacheSize !== undefined ? options.statementCacheSize : 100
+		);
 		this.transactionPool = new Pool();
+		this.declaredTypes = new Map();
 	}
 
 	connect(): Promise<DatabaseSQLite> {
@@ -88,14 +132,32 @@ export class DatabaseSQLite extends Database {
 					if (err) {
 						return reject(err);
 					}
-					resolve(this);
+					this.driver.run('PRAGMA foreign_keys = ON', err => {
+						if (err) {
+							return reject(err);
+						}
+						this.attachNamespaces().then(() => {
+							// The connection is handed to one transaction or query at a time, along with the attached files
+							this.transactionPool.release(this.driver);
+							resolve(this);
+						}, reject);
+					});
 				}
 			);
 		});
 	}
 
-	disconnect(): Promise<void> {
-		return new Promise((resolve, reject) => {
+	private async attachNamespaces(): Promise<void> {
+		const namespaces = this.options.namespaces || {};
+		for (const namespace of Object.keys(namespaces)) {
+			await runQuery(this.driver, `ATTACH DATABASE ? AS "${namespace}"`, [namespaces[namespace]]);
+		}
+	}
+
+	async disconnect(): Promise<void> {
+		await this.statementCache.clear();
+		this.declaredTypes.clear();
+		return new Promise<void>((resolve, reject) => {
 			this.driver.close(err => {
 				if (err) {
 					return reject(err);
@@ -114,28 +176,138 @@ export class DatabaseSQLite extends Database {
 	execute(query: QueryShowCollection): Promise<QueryShowCollectionResult>;
 	execute<T>(query: any, variables?: any): Promise<any> {
 		if (typeof query === 'string') {
-			return this.executeSQL(query, variables);
+			return this.withDriver(driver => this.executeSQL(driver, query, variables));
 		} else if (query instanceof QuerySelect) {
-			return this.executeSelect<T>(query, variables);
+			return this.withDriver(driver => this.executeSelect<T>(driver, query, variables));
 		} else if (query instanceof QueryAggregate) {
-			return this.executeAggregate<T>(query, variables);
+			return this.withDriver(driver => this.executeAggregate<T>(driver, query, variables));
 		} else if (query instanceof QueryUnion) {
-			return this.executeUnion<T>(query, variables);
+			return this.withDriver(driver => this.executeUnion<T>(driver, query, variables));
 		} else if (query instanceof QueryDescribeCollection) {
-			return this.executeDescribeCollection(query);
+			return this.withDriver(driver => this.executeDescribeCollection(driver, query));
 		} else if (query instanceof QueryCollectionExists) {
-			return this.executeCollectionExists(query);
+			return this.withDriver(driver => this.executeCollectionExists(driver, query));
 		} else if (query instanceof QueryShowCollection) {
-			return this.executeShowCollection();
+			return this.withDriver(driver => this.executeShowCollection(driver, query));
 		}
 
 		return Promise.reject(new TypeError(`Unsupported query, got ${typeof query}.`));
 	}
 
+	// Queries outside of a transaction wait for the connection while a transaction holds it, so that
+	// they neither read its rows before it commits nor slip their writes into it
+	private async withDriver<T>(task: (driver: SQLite) => Promise<T>): Promise<T> {
+		const driver = await this.transactionPool.acquires();
+		try {
+			return await task(driver);
+		} finally {
+			this.transactionPool.release(driver);
+		}
+	}
+
+	stream<T>(query: QuerySelect, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryAggregate, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryUnion, variables?: Variables): AsyncIterableIterator<T>;
+	async *stream<T>(query: any, variables?: any): AsyncIterableIterator<T> {
+		if (!(query instanceof QuerySelect || query instanceof QueryAggregate || query instanceof QueryUnion)) {
+			throw new TypeError(`Unsupported query, got ${typeof query}.`);
+		}
+
+		const stmts = convertQueryToSQL(query, this, variables);
+		const parse = await this.withDriver(driver => this.rowParser(driver, query));
+		const statement = await this.withDriver(driver => prepareStatement(driver, stmts[0].sql, stmts[0].params));
+
+		// Each row is only stepped when the consumer asks for it, the connection is only held for the step
+		// so that the consumer can run other queries in between
+		try {
+			let row: T | undefined;
+			while ((row = await this.withDriver(() => stepStatement<T>(statement))) !== undefined) {
+				yield parse(row);
+			}
+		} finally {
+			await finalizeStatement(statement);
+		}
+	}
+
+	explain(query: QuerySelect, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryAggregate, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryUnion, variables?: Variables): Promise<QueryExplainResult>;
+	async explain(query: any, variables?: any): Promise<QueryExplainResult> {
+		if (!(query instanceof QuerySelect || query instanceof QueryAggregate || query instanceof QueryUnion)) {
+			throw new TypeError(`Unsupported query, got ${typeof query}.`);
+		}
+
+		const stmts = convertQueryToSQL(query, this, variables);
+		const steps = await this.withDriver(driver =>
+			allQuery<{ id: number; parent: number; detail: string }>(
+				driver,
+				`EXPLAIN QUERY PLAN ${stmts[0].sql}`,
+				stmts[0].params
+			)
+		);
+
+		// Steps are listed after their parent
+		const plan: QueryPlanNode[] = [];
+		const nodes = new Map<number, QueryPlanNode>();
+		for (const step of steps) {
+			const node = planNodeFromSQL(step.detail);
+			const parent = nodes.get(step.parent);
+			(parent ? parent.children : plan).push(node);
+			nodes.set(step.id, node);
+		}
+		return new QueryExplainResult(plan);
+	}
+
 	async transaction(): Promise<TransactionSQLite> {
 		return new TransactionSQLite(this);
 	}
 
+	async parseRows<T>(
+		driver: SQLite,
+		query: QuerySelect | QueryAggregate | QueryUnion,
+		rows: T[],
+		cached = true
+	): Promise<T[]> {
+		const parse = await this.rowParser(driver, query, cached);
+		return rows.map(parse);
+	}
+
+	forgetDeclaredTypes(): void {
+		this.declaredTypes.clear();
+	}
+
+	private async rowParser(
+		driver: SQLite,
+		query: QuerySelect | QueryAggregate | QueryUnion,
+		cached = true
+	): Promise<<T>(row: T) => T> {
+		if (query instanceof QueryUnion || !query.collection) {
+			return row => row;
+		}
+
+		const table = collectionToString(query.collection);
+		let types = cached ? this.declaredTypes.get(table) : undefined;
+		if (!types) {
+			types = allQuery<{ name: string; type: string }>(
+				driver,
+				pragmaToSQL('table_info', localCollection(query.collection, this))
+			).then(columns =>
+				columns.reduce(
+					(types, { name, type }) => {
+						types[name] = type;
+						return types;
+					},
+					{} as DeclaredTypes
+				)
+			);
+			if (cached) {
+				this.declaredTypes.set(table, types);
+				types.catch(() => this.declaredTypes.delete(table));
+			}
+		}
+		return resultParser(query, await types);
+	}
+
 	// @ts-ignore
 	compareTypes(aType: ColumnType, aSize: number, bType: ColumnType, bSize: number): Compare {
 		if (columnType(aType) === columnType(bType)) {
@@ -145,6 +317,7 @@ export class DatabaseSQLite extends Database {
 	}
 
 	private async executeSQL(
+		driver: SQLite,
 		query: string,
 		variables?: (string | number | boolean | Date | null)[]
 	): Promise<SQLiteQueryResult | QuerySelectResult<any>> {
@@ -154,63 +327,97 @@ export class DatabaseSQLite extends Database {
 				.substr(0, 5)
 				.toUpperCase() === 'SELECT'
 		) {
-			return new QuerySelectResult<any>(await allQuery(this.driver, query, variables));
+			return new QuerySelectResult<any>(await allQuery(driver, query, variables));
 		} else {
-			return runQuery(this.driver, query);
+			this.forgetDeclaredTypes();
+			return runQuery(driver, query);
 		}
 	}
 
-	private async executeSelect<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>> {
-		const stmts = convertQueryToSQL(query, this, variables);
-		const rows = await allQuery<T>(this.driver, stmts[0].sql, stmts[0].params);
-		return new QuerySelectResult<T>(rows);
+	private async executeSelect<T>(
+		driver: SQLite,
+		query: QuerySelect,
+		variables?: Variables
+	): Promise<QuerySelectResult<T>> {
+		const stmts = this.statementCache.convert(query, this, variables);
+		const rows = await allStatement<T>(driver, stmts[0]);
+		return new QuerySelectResult<T>(await this.parseRows(driver, query, rows));
 	}
 
-	private async executeAggregate<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>> {
-		const stmts = convertQueryToSQL(query, this, variables);
-		const rows = await allQuery<T>(this.driver, stmts[0].sql, stmts[0].params);
-		return new QuerySelectResult<T>(rows);
+	private async executeAggregate<T>(
+		driver: SQLite,
+		query: QueryAggregate,
+		variables?: Variables
+	): Promise<QueryAggregateResult<T>> {
+		const stmts = this.statementCache.convert(query, this, variables);
+		const rows = await allStatement<T>(driver, stmts[0]);
+		return new QuerySelectResult<T>(await this.parseRows(driver, query, rows));
 	}
 
-	private async executeUnion<T>(query: QueryUnion, variables?: Variables): Promise<QuerySelectResult<T>> {
-		const stmts = convertQueryToSQL(query, this, variables);
-		const rows = await allQuery<T>(this.driver, stmts[0].sql, stmts[0].params);
-		return new QuerySelectResult<T>(rows);
-	}
-
-	private async executeShowCollection(): Promise<QueryShowCollectionResult> {
-		return allQuery<{ name: string }>(this.driver, `SELECT name FROM sqlite_master WHERE type="table"`).then(
-			tables => {
-				return new QueryShowCollectionResult(
-					tables
-						.filter(({ name }) => name !== 'sqlite_sequence')
-						.map<Collection>(({ name }) => {
-							const match = name.match(/^([^_]+)_(.*)$/);
-							if (match) {
-								return q.collection(match[2], match[1]);
-							}
-							return q.collection(name);
-						})
-				);
-			}
-		);
+	private async executeUnion<T>(
+		driver: SQLite,
+		query: QueryUnion,
+		variables?: Variables
+	): Promise<QuerySelectResult<T>> {
+		const stmts = this.statementCache.convert(query, this, variables);
+		const rows = await allStatement<T>(driver, stmts[0]);
+		return new QuerySelectResult<T>(await this.parseRows(driver, query, rows));
 	}
 
-	private async executeDescribeCollection(query: QueryDescribeCollection): Promise<QueryDescribeCollectionResult> {
+	// The tables of an attached file are only listed when its namespace is asked for
+	private async executeShowCollection(
+		driver: SQLite,
+		query: QueryShowCollection
+	): Promise<QueryShowCollectionResult> {
+		const namespace = query.namespace;
+		const attached = namespace !== undefined && isAttached(this, namespace);
+		const toCollection = (name: string) => (attached ? q.collection(name, namespace) : collectionFromSQL(name));
+		const inNamespace = (collection: Collection) => namespace === undefined || collection.namespace === namespace;
+		return allQuery<{ name: string; sql: string }>(
+			driver,
+			`SELECT name, sql FROM ${attached ? `"${namespace}".` : ''}sqlite_master WHERE type IN ("table", "view")`
+		).then(tables => {
+			// Full-text indexes are virtual tables backed by shadow tables prefixed by their name
+			const virtuals = tables.filter(({ sql }) => /^CREATE VIRTUAL TABLE/i.test(sql)).map(({ name }) => name);
+			return new QueryShowCollectionResult(
+				tables
+					.filter(
+						({ name }) =>
+							name !== 'sqlite_sequence' &&
+							!virtuals.some(
+								virtual => name === virtual || name.substr(0, virtual.length + 1) === `${virtual}_`
+							)
+					)
+					.map(({ name }) => toCollection(name))
+					.filter(inNamespace),
+				tables
+					.filter(({ sql }) => /^CREATE VIEW/i.test(sql))
+					.map(({ name }) => toCollection(name))
+					.filter(inNamespace)
+			);
+		});
+	}
+
+	private async executeDescribeCollection(
+		driver: SQLite,
+		query: QueryDescribeCollection
+	): Promise<QueryDescribeCollectionResult> {
 		const collection = query.collection;
 		if (!collection) {
 			throw new Error(`Expected QueryDescribeCollection to be from a collection.`);
 		}
 
-		const table_name = collectionToSQL(query.collection!);
+		const local = localCollection(collection, this);
+		const schema = schemaToSQL(local);
+		const table_name = tableNameToSQL(local);
 
-		const [colDefs, idxDefs, auto] = await Promise.all([
-			allQuery(this.driver, `PRAGMA table_info(${table_name})`, []).catch(() => [] as any[]),
-			allQuery(this.driver, `PRAGMA index_list(${table_name})`, [])
+		const [colDefs, idxDefs, auto, fkDefs, tableDef, fullTextDefs, viewDef] = await Promise.all([
+			allQuery(driver, pragmaToSQL('table_info', local), []).catch(() => [] as any[]),
+			allQuery(driver, pragmaToSQL('index_list', local), [])
 				.then(indexes =>
 					Promise.all(
 						indexes.map(index =>
-							allQuery(this.driver, `PRAGMA index_xinfo(${index.name})`, []).then(columns => ({
+							allQuery(driver, `PRAGMA ${schema}index_xinfo(${index.name})`, []).then(columns => ({
 								name: index.name as string,
 								type: index.unique!! ? 'unique' : 'index',
 								columns: columns || [],
@@ -221,20 +428,65 @@ export class DatabaseSQLite extends Database {
 				.then(indexes => indexes.filter(idx => idx.name.substr(0, 17) !== 'sqlite_autoindex_'))
 				.catch(() => [] as { name: string; type: string; columns: any[] }[]),
 			allQuery(
-				this.driver,
-				`SELECT "auto" FROM sqlite_master WHERE tbl_name=${table_name} AND sql LIKE "%AUTOINCREMENT%"`,
+				driver,
+				`SELECT "auto" FROM ${schema}sqlite_master WHERE tbl_name=${table_name} AND sql LIKE "%AUTOINCREMENT%"`,
 				[]
 			)
 				.then(rows => rows.length > 0)
 				.catch(() => false),
+			allQuery(driver, pragmaToSQL('foreign_key_list', local), []).catch(() => [] as any[]),
+			allQuery(driver, `SELECT sql FROM ${schema}sqlite_master WHERE type="table" AND name=?`, [local.name])
+				.then(rows => (rows.length > 0 ? (rows[0].sql as string) : ''))
+				.catch(() => ''),
+			// The insert trigger of a full-text index is named after it and lists its columns
+			allQuery<{ name: string; sql: string }>(
+				driver,
+				`SELECT name, sql FROM ${schema}sqlite_master WHERE type="trigger" AND tbl_name=? AND sql LIKE ?`,
+				[local.name, `%INSERT INTO ${fullTextToSQL(local)} (rowid, %`]
+			).catch(() => [] as { name: string; sql: string }[]),
+			allQuery(driver, `SELECT sql FROM ${schema}sqlite_master WHERE type="view" AND name=?`, [local.name])
+				.then(rows => (rows.length > 0 ? (rows[0].sql as string) : undefined))
+				.catch(() => undefined),
 		]);
 
+		// Check and collate constraints are only found in the table definition
+		const constraints = splitDefinitions(tableDef).reduce(
+			(constraints, definition) => {
+				const match = definition.match(/^(?:"((?:[^"]|"")*)"|(\w+))\s*([\s\S]*)$/);
+				if (match) {
+					constraints[match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2]] = match[3];
+				}
+				return constraints;
+			},
+			{} as { [column: string]: string }
+		);
+
 		const columns = colDefs.map<Column>(col => {
+			const [, declaredType, precision, declaredScale] = /^(\w*)(?:\((\d+)(?:,\s*(\d+))?\))?/.exec(col.type)!;
 			let type: ColumnType = ColumnType.Text;
 			let size: number = -1;
-			switch (col.type) {
+			let scale: number | undefined;
+			switch (declaredType) {
 				case 'TEXT':
 					break;
+				case 'JSON':
+					type = ColumnType.Json;
+					break;
+				case 'UUID':
+					type = ColumnType.Uuid;
+					break;
+				case 'TIME':
+					type = ColumnType.Time;
+					break;
+				case 'ENUM':
+				case 'ENUM_TEXT':
+					type = ColumnType.Enum;
+					break;
+				case 'DECIMAL':
+					type = ColumnType.Decimal;
+					size = precision ? parseInt(precision, 10) : -1;
+					scale = declaredScale ? parseInt(declaredScale, 10) : undefined;
+					break;
 				case 'INTEGER':
 					type = ColumnType.Int;
 					size = 64;
@@ -248,7 +500,31 @@ export class DatabaseSQLite extends Database {
 					type = ColumnType.Blob;
 					break;
 			}
-			return new Column(col.name, type, size, col.dflt_value, col.pk!! ? auto : false);
+			const constraint = constraints[col.name] || '';
+			const collate = constraint.match(/\bCOLLATE\s+(\w+)/i);
+			const checks: string[] = [];
+			const checkPattern = /\bCHECK\s*\(/gi;
+			let match: RegExpExecArray | null;
+			while ((match = checkPattern.exec(constraint))) {
+				checks.push(splitDefinitions(constraint.substr(match.index))[0]);
+			}
+			// The values of an enum are constrained by the last check
+			const values =
+				type === ColumnType.Enum
+					? (checks.pop() || '').match(/'(?:[^']|'')*'/g)!.map(value => defaultFromSQL(value) as string)
+					: undefined;
+			return new Column(
+				col.name,
+				type,
+				size,
+				defaultFromSQL(col.dflt_value),
+				col.pk!! ? auto : false,
+				!col.notnull,
+				checks.length > 0 ? checkFromSQL(checks[0]) : undefined,
+				collate ? collate[1] : undefined,
+				scale,
+				values && List(values)
+			);
 		});
 
 		const indexes = idxDefs.map<Index>(idx => {
@@ -267,6 +543,21 @@ export class DatabaseSQLite extends Database {
 			return new Index(idx.name, type, columns);
 		});
 
+		const fullTextIndexes = fullTextDefs
+			.filter(trigger => /_insert$/.test(trigger.name))
+			.map(trigger => {
+				const [, columns] = /\(rowid, (.*?)\) VALUES/.exec(trigger.sql)!;
+				return new Index(
+					trigger.name.replace(/_insert$/, ''),
+					IndexType.FullText,
+					List<FieldDirection>(
+						columns
+							.split(', ')
+							.map(column => new FieldDirection(q.field(column.replace(/^"|"$/g, '')), 'asc'))
+					)
+				);
+			});
+
 		const primaryKeys = colDefs
 			.filter(col => col.pk!!)
 			.map(col =>
@@ -275,17 +566,51 @@ export class DatabaseSQLite extends Database {
 				])
 			);
 
-		return new QueryDescribeCollectionResult(collection, columns, primaryKeys.concat(indexes));
+		// Every column of a composite foreign key is listed on its own row, grouped by id
+		const foreignKeys = fkDefs
+			.reduce<any[][]>(
+				(groups, fk) => {
+					groups[fk.id] = (groups[fk.id] || []).concat([fk]);
+					return groups;
+				},
+				[] as any[][]
+			)
+			.filter(group => group !== undefined)
+			.map(group => {
+				const cols = group.sort((a, b) => a.seq - b.seq);
+				return q.foreignKey(
+					cols.map(col => col.from),
+					// Foreign keys of an attached file reference the tables of the same file
+					local.namespace ? q.collection(cols[0].table, local.namespace) : collectionFromSQL(cols[0].table),
+					cols.map(col => col.to),
+					{
+						onDelete: referentialActionFromSQL(cols[0].on_delete),
+						onUpdate: referentialActionFromSQL(cols[0].on_update),
+					}
+				);
+			});
+
+		return new QueryDescribeCollectionResult(
+			collection,
+			columns,
+			primaryKeys.concat(indexes, fullTextIndexes),
+			foreignKeys,
+			viewDef !== undefined,
+			viewDef !== undefined ? viewFromSQL(viewDef) : undefined
+		);
 	}
 
-	private async executeCollectionExists(query: QueryCollectionExists): Promise<QueryCollectionExistsResult> {
+	private async executeCollectionExists(
+		driver: SQLite,
+		query: QueryCollectionExists
+	): Promise<QueryCollectionExistsResult> {
 		const collection = query.collection;
 		if (!collection) {
 			throw new Error(`Expected QueryCollectionExists to be from a collection.`);
 		}
 
 		try {
-			const info = await allQuery(this.driver, `PRAGMA table_info(${collectionToSQL(collection)})`, []);
+			const info = await allQuery(driver, pragmaToSQL('table_info', localCollection(collection, this)), []);
 			return new QueryCollectionExistsResult(info.length > 0);
 		} catch (e) {
 			return new QueryCollectionExistsResult(false);
@@ -295,16 +620,57 @@ export class DatabaseSQLite extends Database {
 
 export default DatabaseSQLite;
 
+type Savepoint = {
+	name: string;
+	transaction: TransactionSQLite;
+	executions: Execution[];
+	error?: Error;
+};
+
+type Execution = Statement[] | Savepoint;
+
 export class TransactionSQLite extends Transaction {
 	private static tmpId: number = 0;
+	private static savepointId: number = 0;
 
-	protected statements: Statement[];
+	protected executions: Execution[];
 	protected pendingPromises: Promise<void>[];
-
-	constructor(public readonly database: DatabaseSQLite) {
+	protected results: QueryStatementResult[];
+	protected savepoints: Savepoint[];
+
+	private started?: Promise<SQLite>;
+	private activeChild?: TransactionSQLite;
+	private failure?: Error;
+	private name?: string;
+	private rebuildsTables: boolean;
+	private changesSchema: boolean;
+	private queue: Promise<any>;
+
+	constructor(public readonly database: DatabaseSQLite, public readonly parent?: TransactionSQLite) {
 		super();
-		this.statements = [];
+		this.executions = [];
 		this.pendingPromises = [];
+		this.results = [];
+		this.savepoints = [];
+		this.queue = Promise.resolve();
+		this.rebuildsTables = false;
+		this.changesSchema = false;
+	}
+
+	async transaction(): Promise<TransactionSQLite> {
+		return new TransactionSQLite(this.database, this);
+	}
+
+	savepoint(name: string): void {
+		this.executions.push([{ sql: `SAVEPOINT "${name}"`, params: [] }]);
+	}
+
+	rollbackTo(name: string): void {
+		this.executions.push([{ sql: `ROLLBACK TO "${name}"`, params: [] }]);
+	}
+
+	release(name: string): void {
+		this.executions.push([{ sql: `RELEASE "${name}"`, params: [] }]);
 	}
 
 	execute(query: string, variables?: (string | number | boolean | Date | null)[]): void;
@@ -314,9 +680,15 @@ export class TransactionSQLite extends Transaction {
 	execute(query: QueryCreateCollection): void;
 	execute(query: QueryAlterCollection): void;
 	execute(query: QueryDropCollection): void;
-	execute(query: any, variables?: any): void {
+	execute(query: QueryCreateView): void;
+	execute(query: QueryDropView): void;
+	execute<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>>;
+	execute<T>(query: any, variables?: any): any {
 		if (typeof query === 'string') {
 			return this.executeSQL(query, variables);
+		} else if (query instanceof QuerySelect || query instanceof QueryAggregate) {
+			return this.executeRead<T>(query, variables);
 		} else if (query instanceof QueryInsert) {
 			return this.executeInsert(query, variables);
 		} else if (query instanceof QueryUpdate) {
@@ -329,6 +701,8 @@ export class TransactionSQLite extends Transaction {
 			return this.executeAlterCollection(query);
 		} else if (query instanceof QueryDropCollection) {
 			return this.executeDropCollection(query);
+		} else if (query instanceof QueryCreateView || query instanceof QueryDropView) {
+			return this.executeView(query);
 		}
 
 		new TypeError(`Unsupported query, got ${typeof query}.`);
@@ -343,27 +717,51 @@ export class TransactionSQLite extends Transaction {
 		) {
 			throw new TypeError(`Can not use SELECT query inside a transaction.`);
 		} else {
-			this.statements.push({
-				sql: query,
-				params: variables as any[],
-			});
+			if (/^\s*(CREATE|ALTER|DROP)\b/i.test(query)) {
+				this.root().changesSchema = true;
+			}
+			this.executions.push([
+				{
+					sql: query,
+					params: variables as any[],
+				},
+			]);
 		}
 	}
 
+	// Reading makes the transaction interactive: it holds the connection until it is committed or
+	// rolled back, and the statements queued so far are executed first so that the read sees them.
+	private executeRead<T>(query: QuerySelect | QueryAggregate, variables?: Variables): Promise<QuerySelectResult<T>> {
+		return this.serialize(async () => {
+			if (this.activeChild) {
+				throw new Error(`Expected child transactions to be committed or rolled back first.`);
+			}
+			const driver = await this.start();
+			await this.flush(driver);
+			const stmts = this.database.statementCache.convert(query, this.database, variables);
+			const rows = await allStatement<T>(driver, stmts[0]);
+			// Tables changed by this transaction are not yet known to the database
+			return new QuerySelectResult<T>(
+				await this.database.parseRows(driver, query, rows, !this.root().changesSchema)
+			);
+		});
+	}
+
 	private executeInsert(query: QueryInsert, variables?: Variables): void {
-		this.statements.push(...convertQueryToSQL(query, this.database, variables));
+		this.executions.push(this.database.statementCache.convert(query, this.database, variables));
 	}
 
 	private executeUpdate<T>(query: QueryUpdate, variables?: Variables): void {
-		this.statements.push(...convertQueryToSQL(query, this.database, variables));
+		this.executions.push(this.database.statementCache.convert(query, this.database, variables));
 	}
 
 	private executeDelete(query: QueryDelete, variables?: Variables): void {
-		this.statements.push(...convertQueryToSQL(query, this.database, variables));
+		this.executions.push(this.database.statementCache.convert(query, this.database, variables));
 	}
 
 	private executeCreateCollection(query: QueryCreateCollection): void {
-		this.statements.push(...convertQueryToSQL(query, this.database));
+		this.root().changesSchema = true;
+		this.executions.push(convertQueryToSQL(query, this.database));
 	}
 
 	private executeAlterCollection(query: QueryAlterCollection): void {
@@ -376,6 +774,15 @@ export class TransactionSQLite extends Transaction {
 			throw new Error(`Expected QueryAlterCollection to contains at least 1 change.`);
 		}
 
+		const root = this.root();
+		if (root.started) {
+			throw new Error(`Expected QueryAlterCollection to be executed before reading inside the transaction.`);
+		}
+		root.rebuildsTables = true;
+		root.changesSchema = true;
+
+		const statements: Statement[] = [];
+		this.executions.push(statements);
 		this.pendingPromises.push(
 			this.database.execute(q.describeCollection(collection)).then(description => {
 				const changes = List<Change>(query.changes || []);
@@ -411,17 +818,60 @@ export class TransactionSQLite extends Transaction {
 					{} as { [key: string]: Column }
 				);
 
-				const tmpTable = `konstellio_db_rename_${++TransactionSQLite.tmpId}`;
+				const droppedColumns = changes
+					.filter(
+						(change): change is ChangeDropColumn => change !== undefined && change.type === 'dropColumn'
+					)
+					.map((change: any) => change.column as string)
+					.toArray();
+
+				const existingForeignKeys = description.foreignKeys
+					.filter(foreignKey => {
+						return (
+							foreignKey.columns.find(col => droppedColumns.includes(col!)) === undefined &&
+							changes.findIndex(
+								c =>
+									c !== undefined &&
+									c.type === 'dropForeignKey' &&
+									List(c.columns).equals(foreignKey.columns)
+							) === -1
+						);
+					})
+					.map(
+						foreignKey =>
+							new ForeignKey(
+								foreignKey.columns
+									.map(col => (renameColumns[col!] ? renameColumns[col!].name : col!))
+									.toList(),
+								foreignKey.collection,
+								foreignKey.refColumns,
+								foreignKey.onDelete,
+								foreignKey.onUpdate
+							)
+					);
+
+				const newForeignKeys = changes
+					.filter((change): change is ChangeAddForeignKey => {
+						return change !== undefined && change.type === 'addForeignKey';
+					})
+					.map((change: any) => change.foreignKey as ForeignKey)
+					.toArray();
+
 				const create = q
-					.createCollection(tmpTable)
+					.createCollection(collection)
 					.define(
 						existingColumns
 							.map(col => (renameColumns[col.name!] ? renameColumns[col.name!] : col))
 							.concat(newColumns),
-						[]
+						[],
+						existingForeignKeys.concat(newForeignKeys)
 					);
 
-				const finalCollection = query.renamed || collection;
+				const local = localCollection(collection, this.database);
+				const finalCollection = localCollection(query.renamed || collection, this.database);
+				if (finalCollection.namespace !== local.namespace) {
+					throw new Error(`Expected ${collection.toString()} to be renamed within its namespace.`);
+				}
 
 				const insertColumns = existingColumns
 					.map(col => {
@@ -441,25 +891,39 @@ export class TransactionSQLite extends Transaction {
 						})
 					);
 
-				this.execute(create);
+				// The table is rebuilt in the file it belongs to
+				const tmpTable = q.collection(`konstellio_db_rename_${++TransactionSQLite.tmpId}`, local.namespace);
+				statements.push(...convertQueryToSQL(create.rename(tmpTable), this.database));
 				if (insertColumns.length > 0) {
-					this.statements.push({
-						sql: `INSERT INTO ${tmpTable} (${insertColumns
+					statements.push({
+						sql: `INSERT INTO ${tableToSQL(tmpTable)} (${insertColumns
 							.map(col => `"${col.target}"`)
 							.join(', ')}) SELECT ${insertColumns
 							.map(col => `"${col.source}"`)
-							.join(', ')} FROM ${collectionToSQL(collection)}`,
+							.join(', ')} FROM ${tableToSQL(local)}`,
 						params: [],
 					});
 				}
-				this.statements.push({
-					sql: `DROP TABLE ${collectionToSQL(collection)}`,
+				// The full-text index is rebuilt with the other indexes
+				statements.push({
+					sql: `DROP TABLE IF EXISTS ${fullTextTableToSQL(local)}`,
 					params: [],
 				});
-				this.statements.push({
-					sql: `ALTER TABLE ${tmpTable} RENAME TO ${collectionToSQL(finalCollection)}`,
+				statements.push({
+					sql: `DROP TABLE ${tableToSQL(local)}`,
 					params: [],
 				});
+				statements.push({
+					sql: `ALTER TABLE ${tableToSQL(tmpTable)} RENAME TO ${tableNameToSQL(local)}`,
+					params: [],
+				});
+				// Renaming the rebuilt table also updates the foreign keys referencing it
+				if (query.renamed) {
+					statements.push({
+						sql: `ALTER TABLE ${tableToSQL(local)} RENAME TO ${tableNameToSQL(finalCollection)}`,
+						params: [],
+					});
+				}
 
 				const existingIndexes = description.indexes.filter(index => {
 					return (
@@ -492,14 +956,14 @@ export class TransactionSQLite extends Transaction {
 					.map((change: any) => change.index)
 					.toArray();
 
+				assertSingleFullTextIndex(finalCollection, renamedIndexes.concat(newIndexes));
 				renamedIndexes.concat(newIndexes).forEach(index => {
-					this.statements.push({
-						sql: indexToSQL(finalCollection, index),
-						params: [],
-					});
+					statements.push(...indexToSQL(finalCollection, index).map(sql => ({ sql, params: [] })));
 				});
 			})
 		);
+		// The failure is reported once the transaction is flushed
+		this.pendingPromises[this.pendingPromises.length - 1].catch(() => undefined);
 	}
 
 	private executeDropCollection(query: QueryDropCollection): void {
@@ -507,50 +971,391 @@ export class TransactionSQLite extends Transaction {
 		if (!collection) {
 			throw new Error(`Expected QueryDropCollection to be from a collection.`);
 		}
+		this.root().changesSchema = true;
+
+		const local = localCollection(collection, this.database);
+		this.executions.push([
+			{
+				sql: `DROP TABLE IF EXISTS ${fullTextTableToSQL(local)}`,
+				params: [],
+			},
+			{
+				sql: `DROP TABLE ${tableToSQL(local)}`,
+				params: [],
+			},
+		]);
+	}
+
+	private executeView(query: QueryCreateView | QueryDropView): void {
+		this.root().changesSchema = true;
+		this.executions.push(convertQueryToSQL(query, this.database));
+	}
 
-		this.statements.push({
-			sql: `DROP TABLE ${collectionToSQL(collection)}`,
-			params: [],
+	commit(): Promise<QueryCommitResult> {
+		if (this.parent && !this.started) {
+			return this.commitToParent(this.parent);
+		}
+		return this.serialize(() => {
+			if (this.activeChild) {
+				throw new Error(`Expected child transactions to be committed or rolled back first.`);
+			}
+			return this.parent ? this.commitToSavepoint(this.parent) : this.commitToDatabase();
 		});
 	}
 
-	async commit(): Promise<QueryCommitResult> {
-		await Promise.all(this.pendingPromises);
-		const driver = this.database.driver;
-		const result = await new Promise<QueryCommitResult>((resolve, reject) =>
-			driver.serialize(() => {
-				driver.run('BEGIN');
-				const errors: Error[] = [];
-				this.statements.forEach(stmt => {
-					driver.run(stmt.sql, stmt.params, err => {
-						if (err) {
-							console.log(stmt.sql, this.statements);
-							errors.push(err);
-						}
-					});
-				});
-				driver.run('COMMIT', function(err) {
-					if (err) {
-						errors.push(err);
-					}
-					if (errors.length) {
-						return reject(errors.pop()!);
-					}
-					resolve(new QueryCommitResult(this.lastID.toString()));
-				});
-			})
-		);
-		this.statements = [];
+	// A child transaction is merged into its parent and runs under a savepoint once the parent commits.
+	// If one of its statements fails, only the child is rolled back and the parent carries on. Its
+	// statements have not run yet when it is merged, it emits 'commit' or 'rollback' once they did.
+	private async commitToParent(parent: TransactionSQLite): Promise<QueryCommitResult> {
+		parent.executions.push({
+			name: `konstellio_savepoint_${++TransactionSQLite.savepointId}`,
+			transaction: this,
+			executions: this.executions,
+		});
+		parent.pendingPromises.push(...this.pendingPromises);
+		this.executions = [];
 		this.pendingPromises = [];
+		return new QueryCommitResult('');
+	}
+
+	private async commitToSavepoint(parent: TransactionSQLite): Promise<QueryCommitResult> {
+		const driver = await this.start();
+		const name = `"${this.name}"`;
+		const savepoints = this.savepoints;
+		let result: QueryCommitResult;
+		try {
+			if (this.failure) {
+				throw this.failure;
+			}
+			await this.flush(driver);
+			const { lastId } = await runQuery(driver, `RELEASE ${name}`);
+			result = new QueryCommitResult(lastId, this.results);
+		} catch (err) {
+			await runQuery(driver, `ROLLBACK TO ${name}`);
+			await runQuery(driver, `RELEASE ${name}`);
+			parent.activeChild = undefined;
+			this.reset();
+			await settleSavepoints(savepoints, true);
+			await this.emitAsync('rollback');
+			throw err;
+		}
+
+		// Queued children are settled along with the root transaction
+		parent.savepoints.push(...savepoints);
+		parent.activeChild = undefined;
+		this.reset();
 		await this.emitAsync('commit');
 		return result;
 	}
 
-	async rollback(): Promise<void> {
-		this.statements = [];
+	private async commitToDatabase(): Promise<QueryCommitResult> {
+		const driver = await this.start();
+		const savepoints = this.savepoints;
+		let result: QueryCommitResult;
+		try {
+			try {
+				if (this.failure) {
+					throw this.failure;
+				}
+				await this.flush(driver);
+				if (this.rebuildsTables) {
+					await checkForeignKeys(driver, Object.keys(this.database.options.namespaces || {}));
+				}
+				const { lastId } = await runQuery(driver, 'COMMIT');
+				if (this.changesSchema) {
+					this.database.forgetDeclaredTypes();
+				}
+				result = new QueryCommitResult(lastId, this.results);
+			} catch (err) {
+				await runQuery(driver, 'ROLLBACK');
+				throw err;
+			}
+		} catch (err) {
+			await settleSavepoints(savepoints, true);
+			throw err;
+		} finally {
+			await this.endTransaction(driver);
+			this.reset();
+		}
+
+		await settleSavepoints(savepoints);
+		await this.emitAsync('commit');
+		return result;
+	}
+
+	private start(): Promise<SQLite> {
+		if (!this.started) {
+			this.started = this.parent ? this.startSavepoint(this.parent) : this.startTransaction();
+			this.started.catch(() => (this.started = undefined));
+		}
+		return this.started;
+	}
+
+	private async startTransaction(): Promise<SQLite> {
+		const driver = await this.database.transactionPool.acquires();
+		try {
+			// Dropping a rebuilt table would otherwise delete the rows referencing it. Foreign keys can
+			// not be toggled inside a transaction, they are checked before committing instead. Views
+			// reading from a rebuilt table would also fail to validate while it is being renamed.
+			if (this.rebuildsTables) {
+				await runQuery(driver, 'PRAGMA foreign_keys = OFF');
+				await runQuery(driver, 'PRAGMA legacy_alter_table = ON');
+			}
+			await runQuery(driver, 'BEGIN IMMEDIATE');
+		} catch (err) {
+			await this.endTransaction(driver);
+			throw err;
+		}
+		return driver;
+	}
+
+	private async endTransaction(driver: SQLite): Promise<void> {
+		try {
+			if (this.rebuildsTables) {
+				this.rebuildsTables = false;
+				await runQuery(driver, 'PRAGMA legacy_alter_table = OFF');
+				await runQuery(driver, 'PRAGMA foreign_keys = ON');
+			}
+		} finally {
+			this.database.transactionPool.release(driver);
+		}
+	}
+
+	private root(): TransactionSQLite {
+		return this.parent ? this.parent.root() : this;
+	}
+
+	private async startSavepoint(parent: TransactionSQLite): Promise<SQLite> {
+		if (parent.activeChild) {
+			throw new Error(`Expected child transactions to be committed or rolled back first.`);
+		}
+		parent.activeChild = this;
+		try {
+			return await parent.serialize(async () => {
+				const driver = await parent.start();
+				await parent.flush(driver);
+				this.name = `konstellio_savepoint_${++TransactionSQLite.savepointId}`;
+				await runQuery(driver, `SAVEPOINT "${this.name}"`);
+				return driver;
+			});
+		} catch (err) {
+			parent.activeChild = undefined;
+			throw err;
+		}
+	}
+
+	private async flush(driver: SQLite): Promise<void> {
+		while (this.pendingPromises.length > 0) {
+			const pendingPromises = this.pendingPromises;
+			this.pendingPromises = [];
+			await Promise.all(pendingPromises);
+		}
+		const executions = this.executions;
+		this.executions = [];
+		try {
+			this.results.push(...(await this.executeAll(driver, executions, this.savepoints)));
+		} catch (err) {
+			// A failed statement only undoes itself, the whole transaction has to be rolled back
+			this.failure = this.failure || err;
+			throw err;
+		}
+	}
+
+	private serialize<T>(task: () => T | Promise<T>): Promise<T> {
+		const result = this.queue.then(task);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	private reset(): void {
+		this.executions = [];
 		this.pendingPromises = [];
-		await this.emitAsync('rollback');
+		this.results = [];
+		this.savepoints = [];
+		this.started = undefined;
+		this.failure = undefined;
+	}
+
+	private async executeAll(
+		driver: SQLite,
+		executions: Execution[],
+		savepoints: Savepoint[]
+	): Promise<QueryStatementResult[]> {
+		const results: QueryStatementResult[] = [];
+		for (const execution of executions) {
+			if (isArray(execution)) {
+				let changes = 0;
+				let rows: any[] | undefined;
+				for (const stmt of execution) {
+					if (stmt.returning) {
+						rows = (rows || []).concat(await allQuery(driver, stmt.sql, stmt.params));
+					} else {
+						const result = await runQuery(driver, stmt.sql, stmt.params);
+						changes += isMutationSQL(stmt.sql) ? result.changes : 0;
+					}
+				}
+				results.push(new QueryStatementResult(changes, rows));
+			} else {
+				const first = savepoints.length;
+				const name = `"${execution.name}"`;
+				savepoints.push(execution);
+				await runQuery(driver, `SAVEPOINT ${name}`);
+				try {
+					const statements = await this.executeAll(driver, execution.executions, savepoints);
+					await runQuery(driver, `RELEASE ${name}`);
+					results.push(new QueryStatementResult(statements.reduce((sum, { changes }) => sum + changes, 0)));
+				} catch (err) {
+					await runQuery(driver, `ROLLBACK TO ${name}`);
+					await runQuery(driver, `RELEASE ${name}`);
+					// Nested savepoints were rolled back along with this one
+					savepoints.slice(first).forEach(savepoint => (savepoint.error = savepoint.error || err));
+					results.push(new QueryStatementResult(0));
+				}
+			}
+		}
+		return results;
+	}
+
+	rollback(): Promise<void> {
+		return this.serialize(async () => {
+			if (this.started) {
+				const driver = await this.started;
+				if (this.parent) {
+					await runQuery(driver, `ROLLBACK TO "${this.name}"`);
+					await runQuery(driver, `RELEASE "${this.name}"`);
+					this.parent.activeChild = undefined;
+				} else {
+					try {
+						await runQuery(driver, 'ROLLBACK');
+					} finally {
+						await this.endTransaction(driver);
+					}
+				}
+			}
+			const savepoints = this.savepoints;
+			this.reset();
+			await settleSavepoints(savepoints, true);
+			await this.emitAsync('rollback');
+		});
+	}
+}
+
+// Merged children learn whether their statements were kept once the root transaction is settled
+async function settleSavepoints(savepoints: Savepoint[], rolledBack: boolean = false): Promise<void> {
+	for (const savepoint of savepoints) {
+		await savepoint.transaction.emitAsync(rolledBack || savepoint.error ? 'rollback' : 'commit');
+	}
+}
+
+function literalToSQL(value: any): string {
+	if (value === null || value === undefined) {
+		return 'NULL';
+	} else if (typeof value === 'number') {
+		return `${value}`;
+	} else if (typeof value === 'boolean') {
+		return value ? '1' : '0';
 	}
+	return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function defaultFromSQL(value: string | null): Primitive {
+	if (value === null || value.toUpperCase() === 'NULL') {
+		return null;
+	} else if (/^'[\s\S]*'$/.test(value)) {
+		return value.substr(1, value.length - 2).replace(/''/g, "'");
+	} else if (/^-?\d+(\.\d+)?$/.test(value)) {
+		return Number(value);
+	}
+	return value;
+}
+
+// Constraints and views are part of the schema, values can not be bound as parameters
+function inlineParams(sql: string, params: any[]): string {
+	let index = 0;
+	return sql.replace(/"(?:[^"]|"")*"|'(?:[^']|'')*'|\?/g, match =>
+		match === '?' ? literalToSQL(params[index++]) : match
+	);
+}
+
+function checkToSQL(check: BinaryExpression): string {
+	const params: any[] = [];
+	return inlineParams(expressionToSQL(check, params), params);
+}
+
+// Translates the SQL of a check constraint back to the query language. Checks using functions do
+// not translate and are left out.
+function checkFromSQL(sql: string): BinaryExpression | undefined {
+	const dsl = sql.replace(
+		/"((?:[^"]|"")*)"|'((?:[^']|'')*)'|\bIS\s+NOT\s+NULL\b|\bIS\s+NULL\b|\bNOT\s+IN\b|<>/gi,
+		(match, identifier, string) => {
+			if (identifier !== undefined) {
+				return identifier.replace(/""/g, '"');
+			} else if (string !== undefined) {
+				return `'${string.replace(/''/g, "'").replace(/[\\']/g, '\\$&')}'`;
+			}
+			const keyword = match.replace(/\s+/g, ' ').toUpperCase();
+			return keyword === 'IS NOT NULL'
+				? 'isNotNull'
+				: keyword === 'IS NULL'
+				? 'isNull'
+				: keyword === 'NOT IN'
+				? 'notIn'
+				: '!=';
+		}
+	);
+	try {
+		return parseCondition(dsl);
+	} catch (err) {
+		return undefined;
+	}
+}
+
+// Views created by raw SQL do not have their select
+function viewFromSQL(sql: string): QuerySelect | undefined {
+	const match = /^CREATE VIEW\s+\S+\s+AS\s+\/\* ([\s\S]*?) \*\//i.exec(sql);
+	return match ? q.fromJSON<QuerySelect>(match[1]) : undefined;
+}
+
+// Splits the content of the first parenthesis on its top level commas
+function splitDefinitions(sql: string): string[] {
+	const definitions: string[] = [];
+	let depth = 0;
+	let quote = '';
+	let current = '';
+	for (const char of sql.substr(sql.indexOf('(') + 1)) {
+		if (quote) {
+			quote = char === quote ? '' : quote;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === '(') {
+			depth += 1;
+		} else if (char === ')' && --depth < 0) {
+			break;
+		} else if (char === ',' && depth === 0) {
+			definitions.push(current.trim());
+			current = '';
+			continue;
+		}
+		current += char;
+	}
+	if (current.trim()) {
+		definitions.push(current.trim());
+	}
+	return definitions;
+}
+
+// Foreign keys are only checked in the main file unless the attached ones are named
+async function checkForeignKeys(driver: SQLite, namespaces: string[] = []): Promise<void> {
+	for (const schema of [''].concat(namespaces.map(namespace => `"${namespace}".`))) {
+		const violations = await allQuery(driver, `PRAGMA ${schema}foreign_key_check`);
+		if (violations.length > 0) {
+			throw new Error(`FOREIGN KEY constraint failed on ${violations[0].table}.`);
+		}
+	}
+}
+
+function isMutationSQL(sql: string): boolean {
+	return /^(INSERT|UPDATE|DELETE)\b/i.test(sql.replace(/^[\s(]+/, ''));
 }
 
 function runQuery(driver: SQLite, sql: string, params = [] as any[]): Promise<SQLiteQueryResult> {
@@ -565,6 +1370,27 @@ function runQuery(driver: SQLite, sql: string, params = [] as any[]): Promise<SQ
 	});
 }
 
+function allStatement<T = any>(driver: SQLite, stmt: Statement): Promise<T[]> {
+	const cached = stmt.cached;
+	if (!cached) {
+		return allQuery<T>(driver, stmt.sql, stmt.params);
+	}
+	if (!cached.prepared) {
+		cached.prepared = prepareStatement(driver, stmt.sql);
+		// Do not keep a failed preparation, the schema might change
+		cached.prepared.catch(() => (cached.prepared = undefined));
+	}
+	return cached.prepared.then(
+		statement =>
+			new Promise<T[]>((resolve, reject) => {
+				statement.all(stmt.params, (err, results) => {
+					if (err) return reject(err);
+					resolve(results as T[]);
+				});
+			})
+	);
+}
+
 function allQuery<T = any>(driver: SQLite, sql: string, params = [] as any[]): Promise<T[]> {
 	return new Promise((resolve, reject) => {
 		driver.all(sql, params, (err, results) => {
@@ -574,52 +1400,406 @@ function allQuery<T = any>(driver: SQLite, sql: string, params = [] as any[]): P
 	});
 }
 
+function prepareStatement(driver: SQLite, sql: string, params = [] as any[]): Promise<SQLiteStatement> {
+	return new Promise((resolve, reject) => {
+		const statement = driver.prepare(sql, params, err => {
+			if (err) return reject(err);
+			resolve(statement);
+		});
+	});
+}
+
+function stepStatement<T = any>(statement: SQLiteStatement): Promise<T | undefined> {
+	return new Promise((resolve, reject) => {
+		statement.get((err, row) => {
+			if (err) return reject(err);
+			resolve(row);
+		});
+	});
+}
+
+function finalizeStatement(statement: SQLiteStatement): Promise<void> {
+	return new Promise(resolve => {
+		statement.finalize(() => resolve());
+	});
+}
+
 function collectionToString(collection: Collection): string {
 	return `${collection.namespace ? `${collection.namespace}_` : ''}${collection.name}`;
 }
 
+// Name under which the rows of a collection are referenced in a query
 function collectionToSQL(collection: Collection): string {
 	return `"${collectionToString(collection)}"`;
 }
 
-function fieldToSQL(field: Field | FieldAs | FieldDirection, params: any[], variables?: Variables): string {
+function isAttached(database: Database, namespace: string): boolean {
+	const namespaces = database instanceof DatabaseSQLite ? database.options.namespaces : undefined;
+	return namespaces !== undefined && Object.prototype.hasOwnProperty.call(namespaces, namespace);
+}
+
+// Collections of a namespace that is not attached are tables of the main file prefixed by their namespace.
+// Once localized, the namespace of a collection is the schema of the attached file holding its table.
+function localCollection(collection: Collection, database: Database): Collection {
+	return collection.namespace && !isAttached(database, collection.namespace)
+		? q.collection(collectionToString(collection))
+		: collection;
+}
+
+// Every collection of the query is localized, those of its subqueries included
+function localQuery(query: Query, database: Database): Query {
+	if (query instanceof QuerySelect) {
+		return localSelect(query, database);
+	} else if (query instanceof QueryAggregate) {
+		return new QueryAggregate(
+			query.fields && localFields(query.fields, database),
+			query.collection && localCollection(query.collection, database),
+			query.joins && localJoins(query.joins, database),
+			query.conditions && localBinary(query.conditions, database),
+			query.groups && query.groups.map(group => localField(group!, database)).toList(),
+			query.sorts && localSorts(query.sorts, database),
+			query.limit,
+			query.offset,
+			query.isDistinct,
+			query.havingConditions && localBinary(query.havingConditions, database)
+		);
+	} else if (query instanceof QueryUnion) {
+		return new QueryUnion(
+			query.selects && query.selects.map(select => localSelect(select!, database)).toList(),
+			query.sorts && localSorts(query.sorts, database),
+			query.limit,
+			query.offset
+		);
+	} else if (query instanceof QueryInsert) {
+		return new QueryInsert(
+			query.objects && query.objects.map(object => localObject(object, database)).toList(),
+			query.collection && localCollection(query.collection, database),
+			query.conflict && {
+				...query.conflict,
+				object: query.conflict.object && localObject(query.conflict.object, database),
+			},
+			query.returningFields && localFields(query.returningFields, database)
+		);
+	} else if (query instanceof QueryUpdate) {
+		return new QueryUpdate(
+			query.object && localObject(query.object, database),
+			query.collection && localCollection(query.collection, database),
+			query.conditions && localBinary(query.conditions, database),
+			query.returningFields && localFields(query.returningFields, database)
+		);
+	} else if (query instanceof QueryDelete) {
+		return new QueryDelete(
+			query.collection && localCollection(query.collection, database),
+			query.conditions && localBinary(query.conditions, database),
+			query.returningFields && localFields(query.returningFields, database)
+		);
+	} else if (query instanceof QueryCreateCollection) {
+		return new QueryCreateCollection(
+			localCollection(query.collection, database),
+			query.columns,
+			query.indexes,
+			query.foreignKeys && query.foreignKeys.map(foreignKey => localForeignKey(foreignKey!, database)).toList()
+		);
+	} else if (query instanceof QueryAlterCollection) {
+		return new QueryAlterCollection(
+			localCollection(query.collection, database),
+			query.renamed && localCollection(query.renamed, database),
+			query.changes && query.changes.map(change => localChange(change!, database)).toList()
+		);
+	} else if (query instanceof QueryCreateView) {
+		return new QueryCreateView(localCollection(query.collection, database), localSelect(query.select, database));
+	} else if (query instanceof QueryDropView) {
+		return new QueryDropView(localCollection(query.collection, database));
+	} else if (query instanceof QueryDropCollection) {
+		return new QueryDropCollection(localCollection(query.collection, database));
+	} else if (query instanceof QueryDescribeCollection) {
+		return new QueryDescribeCollection(localCollection(query.collection, database));
+	} else if (query instanceof QueryCollectionExists) {
+		return new QueryCollectionExists(localCollection(query.collection, database));
+	}
+	return query;
+}
+
+function localSelect(query: QuerySelect, database: Database): QuerySelect {
+	return new QuerySelect(
+		query.fields && localFields(query.fields, database),
+		query.collection && localCollection(query.collection, database),
+		query.joins && localJoins(query.joins, database),
+		query.conditions && localBinary(query.conditions, database),
+		query.sorts && localSorts(query.sorts, database),
+		query.limit,
+		query.offset,
+		query.isDistinct
+	);
+}
+
+function localJoins(joins: List<Join>, database: Database): List<Join> {
+	return joins
+		.map(join => ({
+			...join!,
+			query: localSelect(join!.query, database),
+			on: join!.on && localExpression(join!.on, database),
+		}))
+		.toList();
+}
+
+function localFields(fields: List<Field | FieldAs>, database: Database): List<Field | FieldAs> {
+	return fields
+		.map(field => (field instanceof FieldAs ? new FieldAs(localField(field.field, database), field.alias) : field!))
+		.toList();
+}
+
+function localSorts(sorts: List<FieldDirection<any, Field | Function>>, database: Database) {
+	return sorts.map(sort => new FieldDirection(localField(sort!.field, database), sort!.direction)).toList();
+}
+
+function localField(field: Field | Function, database: Database): Field | Function {
+	return field instanceof Function ? localFunction(field, database) : field;
+}
+
+function localFunction(fn: Function, database: Database): Function {
+	const constructor = fn.constructor as new (args: List<Value>) => Function;
+	return new constructor(fn.args.map(arg => localValue(arg!, database)).toList());
+}
+
+// Subqueries are the only values that reference collections
+function localValue(value: Value, database: Database): Value {
+	if (value instanceof QuerySelect) {
+		return localSelect(value, database);
+	} else if (value instanceof Function) {
+		return localFunction(value, database);
+	}
+	return value;
+}
+
+function localObject(object: { [key: string]: Value }, database: Database): { [key: string]: Value } {
+	return Object.keys(object).reduce(
+		(local, key) => {
+			local[key] = localValue(object[key], database);
+			return local;
+		},
+		{} as { [key: string]: Value }
+	);
+}
+
+function localBinary(binary: Binary, database: Database): Binary {
+	return new Binary(binary.operator, binary.operands.map(op => localExpression(op!, database)).toList());
+}
+
+function localExpression(expr: BinaryExpression, database: Database): BinaryExpression {
+	if (expr instanceof Binary) {
+		return localBinary(expr, database);
+	} else if (expr instanceof Exists) {
+		return new Exists(localSelect(expr.query, database), expr.negated);
+	}
+	const constructor = expr.constructor as new (field: Field | Function, args: List<Value>) => Comparison;
+	return new constructor(localField(expr.field, database), expr.args.map(arg => localValue(arg!, database)).toList());
+}
+
+function localChange(change: Change, database: Database): Change {
+	return change.type === 'addForeignKey'
+		? { ...change, foreignKey: localForeignKey(change.foreignKey, database) }
+		: change;
+}
+
+function localForeignKey(foreignKey: ForeignKey, database: Database): ForeignKey {
+	return new ForeignKey(
+		foreignKey.columns,
+		localCollection(foreignKey.collection, database),
+		foreignKey.refColumns,
+		foreignKey.onDelete,
+		foreignKey.onUpdate
+	);
+}
+
+function schemaToSQL(collection: Collection): string {
+	return collection.namespace ? `"${collection.namespace}".` : '';
+}
+
+// Name of the table in its own file
+function tableNameToSQL(collection: Collection): string {
+	return `"${collection.name}"`;
+}
+
+function tableToSQL(collection: Collection): string {
+	return `${schemaToSQL(collection)}${tableNameToSQL(collection)}`;
+}
+
+// Tables of the attached files are referenced like those of the main file
+function sourceToSQL(collection: Collection): string {
+	return collection.namespace
+		? `${tableToSQL(collection)} AS ${collectionToSQL(collection)}`
+		: collectionToSQL(collection);
+}
+
+function pragmaToSQL(pragma: string, collection: Collection): string {
+	return `PRAGMA ${schemaToSQL(collection)}${pragma}(${tableNameToSQL(collection)})`;
+}
+
+function collectionFromSQL(name: string): Collection {
+	const match = name.match(/^([^_]+)_(.*)$/);
+	if (match) {
+		return q.collection(match[2], match[1]);
+	}
+	return q.collection(name);
+}
+
+function fieldToSQL(
+	field: Field | FieldAs | FieldDirection<any, Field | Function>,
+	params: any[],
+	variables?: Variables
+): string {
 	if (field instanceof Field) {
 		return `"${field.alias ? `${field.alias}"."` : ''}${field.name.toString()}"`;
 	} else if (field instanceof FieldAs) {
 		if (field.field instanceof Function) {
-			return `"${fnToSQL(field.field, params, variables)}" AS "${field.alias}"`;
+			return `${fnToSQL(field.field, params, variables)} AS "${field.alias}"`;
 		} else {
 			return `"${field.field.toString()}" AS "${field.alias}"`;
 		}
+	} else if (field.field instanceof Function) {
+		return `${fnToSQL(field.field, params, variables)} ${field.direction.toUpperCase() || 'ASC'}`;
 	} else {
 		return `"${field.field.toString()}" ${field.direction.toUpperCase() || 'ASC'}`;
 	}
 }
 
+const dateTruncFormats: { [unit: string]: string } = {
+	year: '%Y-01-01T00:00:00.000Z',
+	month: '%Y-%m-01T00:00:00.000Z',
+	day: '%Y-%m-%dT00:00:00.000Z',
+	hour: '%Y-%m-%dT%H:00:00.000Z',
+	minute: '%Y-%m-%dT%H:%M:00.000Z',
+	second: '%Y-%m-%dT%H:%M:%S.000Z',
+};
+
+const infixOperators: { [fn: string]: string } = {
+	add: ' + ',
+	sub: ' - ',
+	mul: ' * ',
+};
+
 function fnToSQL(field: Function, params: any[], variables?: Variables): string {
-	return `${field.fn.toUpperCase()}(${field.args
-		.map<string>(field => {
-			return field
-				? field instanceof Field
-					? fieldToSQL(field, params, variables)
-					: valueToSQL(field, params, variables)
-				: '';
-		})
-		.join(', ')})`;
+	const args = () => field.args.map<string>(arg => valueToSQL(arg!, params, variables)).toArray();
+
+	if (field instanceof FunctionCase) {
+		const cases = field.cases.map(
+			([condition, value]) =>
+				`WHEN ${expressionToSQL(condition, params, variables)} THEN ${valueToSQL(value, params, variables)}`
+		);
+		return `CASE ${cases.join(' ')} ELSE ${valueToSQL(field.otherwise, params, variables)} END`;
+	} else if (field instanceof FunctionDateTrunc) {
+		const date = valueToSQL(field.args.get(1)!, params, variables);
+		return `strftime('${dateTruncFormats[field.unit]}', ${date})`;
+	} else if (field instanceof FunctionYear || field instanceof FunctionMonth) {
+		return `CAST(strftime('${field instanceof FunctionYear ? '%Y' : '%m'}', ${args()[0]}) AS INTEGER)`;
+	} else if (field instanceof FunctionDiv) {
+		const [dividend, divisor] = args();
+		return `(CAST(${dividend} AS REAL) / ${divisor})`;
+	} else if (infixOperators[field.fn]) {
+		return `(${args().join(infixOperators[field.fn])})`;
+	}
+
+	const fn = field instanceof FunctionCountDistinct ? 'COUNT(DISTINCT ' : `${field.fn.toUpperCase()}(`;
+	return `${fn}${args().join(', ')})`;
+}
+
+// Parses a step of EXPLAIN QUERY PLAN, only older versions of SQLite estimate the rows visited by a step
+function planNodeFromSQL(detail: string): QueryPlanNode {
+	const rows = detail.match(/\(~(\d+) rows?\)/);
+	const cost = rows ? parseInt(rows[1], 10) : undefined;
+
+	if (/SUBQUERY|^CO-ROUTINE|^MATERIALIZE/.test(detail)) {
+		return new QueryPlanNode('subquery', detail, [], undefined, undefined, cost);
+	}
+	const access = detail.match(
+		/^(SCAN|SEARCH) (?:TABLE )?"?([^\s"]+)"?(?: AS \S+)?(?: USING (?:COVERING )?INDEX "?([^\s"]+)"?)?/
+	);
+	if (access) {
+		const operation: QueryPlanOperation = access[1] === 'SEARCH' ? 'search' : 'scan';
+		return new QueryPlanNode(operation, detail, [], collectionFromSQL(access[2]), access[3], cost);
+	}
+	let operation: QueryPlanOperation = 'other';
+	if (/^(COMPOUND|UNION|EXCEPT|INTERSECT)/.test(detail)) {
+		operation = 'compound';
+	} else if (/TEMP B-TREE/.test(detail)) {
+		operation = 'temp';
+	}
+	return new QueryPlanNode(operation, detail, [], undefined, undefined, cost);
 }
 
 function valueToPrimitive(value: unknown): any {
 	if (value instanceof Date) {
 		return value.toISOString();
+	} else if (isJSONValue(value)) {
+		return JSON.stringify(value);
 	}
 	return value;
 }
 
+type DeclaredTypes = { [column: string]: string };
+
+// Values of JSON and DECIMAL columns are stored with a numeric affinity and ENUM columns with a text
+// affinity, they are parsed back to what was written when they are read from their collection.
+function valueParser(declaredType: string): ((value: any) => any) | undefined {
+	switch (declaredType.replace(/\(.*$/, '')) {
+		case 'JSON':
+			return value => (typeof value === 'string' ? JSON.parse(value) : value);
+		case 'DECIMAL':
+			return value => (typeof value === 'string' ? Number(value) : value);
+		case 'ENUM':
+		case 'ENUM_TEXT':
+			return value => (value !== null ? String(value) : value);
+	}
+	return undefined;
+}
+
+function resultParser(query: QuerySelect | QueryAggregate, types: DeclaredTypes): <T>(row: T) => T {
+	const fields =
+		query.fields && query.fields.count() > 0
+			? query.fields
+					.map<[string, Field | Function]>(field =>
+						field instanceof FieldAs ? [field.alias, field.field] : [field!.name as string, field!]
+					)
+					.toArray()
+			: Object.keys(types).map<[string, Field]>(name => [name, q.field(name)]);
+
+	const parsers = fields.reduce(
+		(parsers, [key, field]) => {
+			const parser =
+				field instanceof Field && field.alias === undefined && types[field.name as string] !== undefined
+					? valueParser(types[field.name as string])
+					: undefined;
+			if (parser) {
+				parsers.push([key, parser]);
+			}
+			return parsers;
+		},
+		[] as [string, (value: any) => any][]
+	);
+
+	if (parsers.length === 0) {
+		return row => row;
+	}
+	return (row: any) => {
+		for (const [key, parser] of parsers) {
+			if (key in row) {
+				row[key] = parser(row[key]);
+			}
+		}
+		return row;
+	};
+}
+
 function valueToSQL(field: Value, params: any[], variables?: Variables): string {
 	if (field instanceof Field) {
 		return fieldToSQL(field, params, variables);
 	} else if (field instanceof Function) {
 		return fnToSQL(field, params, variables);
+	} else if (field instanceof QuerySelect) {
+		const stmt = selectQueryToSQL(field, variables);
+		params.push(...stmt.params);
+		return `(${stmt.sql})`;
 	} else if (field instanceof Variable) {
 		if (variables === undefined || typeof variables[field.name] === 'undefined') {
 			throw new Error(`Could not find query variable ${field.name}.`);
@@ -637,66 +1817,246 @@ function valueToSQL(field: Value, params: any[], variables?: Variables): string
 	return '?';
 }
 
-function comparisonToSQL(comparison: Comparison, params: any[], variables?: Variables): string {
-	if (comparison instanceof ComparisonIn) {
-		return `${
-			comparison.field instanceof Field
-				? fieldToSQL(comparison.field, params, variables)
-				: fnToSQL(comparison.field, params, variables)
-		} IN (${comparison.args.map(arg => valueToSQL(arg!, params, variables)).join(', ')})`;
-	} else {
-		return `${
-			comparison.field instanceof Field
-				? fieldToSQL(comparison.field, params, variables)
-				: fnToSQL(comparison.field, params, variables)
-		} ${comparison.operator} ${valueToSQL(comparison.args.get(0), params, variables)}`;
+function comparisonFieldToSQL(comparison: Comparison, params: any[], variables?: Variables): string {
+	return comparison.field instanceof Field
+		? fieldToSQL(comparison.field, params, variables)
+		: fnToSQL(comparison.field, params, variables);
+}
+
+function comparisonToSQL(
+	comparison: Comparison,
+	params: any[],
+	variables?: Variables,
+	collection?: Collection
+): string {
+	if (comparison instanceof ComparisonMatch) {
+		if (!collection) {
+			throw new Error(`Expected ComparisonMatch to be in a query from a collection.`);
+		}
+		return `${collectionToSQL(collection)}.rowid IN (SELECT rowid FROM ${fullTextTableToSQL(
+			collection
+		)} WHERE ${matchToSQL(comparison, collection, params, variables)})`;
+	} else if (comparison instanceof ComparisonIsNull) {
+		return `${comparisonFieldToSQL(comparison, params, variables)} IS NULL`;
+	} else if (comparison instanceof ComparisonIsNotNull) {
+		return `${comparisonFieldToSQL(comparison, params, variables)} IS NOT NULL`;
+	} else if (comparison instanceof ComparisonIn || comparison instanceof ComparisonNotIn) {
+		const operator = comparison instanceof ComparisonNotIn ? 'NOT IN' : 'IN';
+		const field = comparisonFieldToSQL(comparison, params, variables);
+		if (comparison.args.count() === 1 && comparison.args.get(0) instanceof QuerySelect) {
+			return `${field} ${operator} ${valueToSQL(comparison.args.get(0), params, variables)}`;
+		}
+		return `${field} ${operator} (${comparison.args.map(arg => valueToSQL(arg!, params, variables)).join(', ')})`;
+	} else if (comparison instanceof ComparisonBetween) {
+		return `${comparisonFieldToSQL(comparison, params, variables)} BETWEEN ${valueToSQL(
+			comparison.args.get(0),
+			params,
+			variables
+		)} AND ${valueToSQL(comparison.args.get(1), params, variables)}`;
+	} else if (comparison instanceof ComparisonLike) {
+		return `${comparisonFieldToSQL(comparison, params, variables)} LIKE ${valueToSQL(
+			comparison.args.get(0),
+			params,
+			variables
+		)}`;
+	} else if (comparison instanceof ComparisonBeginsWith) {
+		// SQLite's LIKE is case insensitive, substr and instr keep string matching case sensitive
+		const field = comparisonFieldToSQL(comparison, params, variables);
+		const length = valueToSQL(comparison.args.get(0), params, variables);
+		return `substr(${field}, 1, length(${length})) = ${valueToSQL(comparison.args.get(0), params, variables)}`;
+	} else if (comparison instanceof ComparisonEndsWith) {
+		const field = comparisonFieldToSQL(comparison, params, variables);
+		const start = comparisonFieldToSQL(comparison, params, variables);
+		const length = valueToSQL(comparison.args.get(0), params, variables);
+		return `substr(${field}, length(${start}) - length(${length}) + 1) = ${valueToSQL(
+			comparison.args.get(0),
+			params,
+			variables
+		)}`;
+	} else if (comparison instanceof ComparisonContains) {
+		return `instr(${comparisonFieldToSQL(comparison, params, variables)}, ${valueToSQL(
+			comparison.args.get(0),
+			params,
+			variables
+		)}) > 0`;
 	}
+	return `${comparisonFieldToSQL(comparison, params, variables)} ${comparison.operator} ${valueToSQL(
+		comparison.args.get(0),
+		params,
+		variables
+	)}`;
 }
 
-function binaryToSQL(bitwise: Binary, params: any[], variables?: Variables): string {
-	if (bitwise.operands) {
+// The collection of the query binds the full-text matches of the expression
+function binaryToSQL(bitwise: Binary, params: any[], variables?: Variables, collection?: Collection): string {
+	if (bitwise.operator === 'not') {
+		const operand = bitwise.operands.get(0);
+		return operand ? `(NOT ${expressionToSQL(operand, params, variables, collection)})` : '';
+	} else if (bitwise.operands) {
 		return `(${bitwise.operands
-			.map<string>(op => {
-				if (op instanceof Comparison) {
-					return comparisonToSQL(op, params, variables);
-				} else if (op instanceof Binary) {
-					return binaryToSQL(op, params, variables);
-				}
-				return '';
-			})
+			.map<string>(op => (op ? expressionToSQL(op, params, variables, collection) : ''))
 			.join(` ${bitwise.operator.toUpperCase()} `)})`;
 	} else {
 		return '';
 	}
 }
 
-function selectQueryToSQL(query: QuerySelect, database: Database, variables?: Variables): Statement {
-	const params: any[] = [];
-	let sql = ``;
-	sql += `SELECT ${
-		query.fields && query.fields.count() > 0
-			? query.fields!.map<string>(f => (f ? fieldToSQL(f, params, variables) : '')).join(', ')
-			: '*'
-	}`;
+function existsToSQL(exists: Exists, params: any[], variables?: Variables): string {
+	return `${exists.negated ? 'NOT ' : ''}EXISTS ${valueToSQL(exists.query, params, variables)}`;
+}
 
-	if (query.collection) {
-		sql += ` FROM ${collectionToSQL(query.collection!)}`;
-	} else {
+function expressionToSQL(
+	expr: BinaryExpression,
+	params: any[],
+	variables?: Variables,
+	collection?: Collection
+): string {
+	if (expr instanceof Comparison) {
+		return comparisonToSQL(expr, params, variables, collection);
+	} else if (expr instanceof Exists) {
+		return existsToSQL(expr, params, variables);
+	}
+	return binaryToSQL(expr, params, variables, collection);
+}
+
+function fullTextToSQL(collection: Collection): string {
+	return `"${collection.name}_fts"`;
+}
+
+function fullTextTableToSQL(collection: Collection): string {
+	return `${schemaToSQL(collection)}${fullTextToSQL(collection)}`;
+}
+
+// Restricts the FTS5 query to the columns of the match, the text uses the FTS5 query syntax
+function matchToSQL(match: ComparisonMatch, collection: Collection, params: any[], variables?: Variables): string {
+	const columns = match.fields.map(field => `"${field.name.toString().replace(/'/g, "''")}"`).join(' ');
+	return `${fullTextToSQL(collection)} MATCH '{${columns}} : (' || ${valueToSQL(
+		match.text,
+		params,
+		variables
+	)} || ')'`;
+}
+
+function findMatch(expr?: BinaryExpression): ComparisonMatch | undefined {
+	if (expr instanceof ComparisonMatch) {
+		return expr;
+	} else if (expr instanceof Binary && expr.operator !== 'not') {
+		for (const operand of expr.operands.toArray()) {
+			const match = findMatch(operand);
+			if (match) {
+				return match;
+			}
+		}
+	}
+	return undefined;
+}
+
+function sortToSQL(
+	sort: FieldDirection<any, Field | Function>,
+	query: QuerySelect | QueryAggregate,
+	params: any[],
+	variables?: Variables
+): string {
+	if (sort.field instanceof FunctionRank) {
+		const match = findMatch(query.conditions);
+		if (!match || !query.collection) {
+			throw new Error(`Expected a full-text match in the conditions of the query to sort by rank.`);
+		}
+		// bm25 ranks are negative, rows that did not match are the least relevant
+		const fts = fullTextTableToSQL(query.collection);
+		return `IFNULL((SELECT rank FROM ${fts} WHERE ${matchToSQL(
+			match,
+			query.collection,
+			params,
+			variables
+		)} AND rowid = ${collectionToSQL(query.collection)}.rowid), 0) ${sort.direction.toUpperCase()}`;
+	}
+	return fieldToSQL(sort, params, variables);
+}
+
+function fieldsToSQL(query: QuerySelect | QueryAggregate, params: any[], variables?: Variables): string {
+	if (query.fields && query.fields.count() > 0) {
+		return query.fields.map<string>(f => (f ? fieldToSQL(f, params, variables) : '')).join(', ');
+	}
+	// Emulated joins reorder the FROM clause and add helper columns, list the source columns explicitly
+	if (query.collection && query.joins) {
+		return [collectionToSQL(query.collection)]
+			.concat(query.joins.map<string>(join => join!.alias).toArray())
+			.map(source => `${source}.*`)
+			.join(', ');
+	}
+	return '*';
+}
+
+function fromToSQL(query: QuerySelect | QueryAggregate, variables?: Variables): Statement {
+	if (!query.collection) {
 		throw new Error(`Expected QuerySelect to be from a collection.`);
 	}
+
+	let from: Statement = { sql: sourceToSQL(query.collection), params: [] };
+
 	if (query.joins) {
-		query.joins!.forEach((join, alias) => {
-			const joinStm = convertQueryToSQL(join!.query, database, variables);
-			params.push(...joinStm[0].params);
-			sql += ` JOIN (${joinStm[0].sql}) AS ${alias} ON ${join!.on}`;
+		query.joins.forEach(join => {
+			const joinStm = selectQueryToSQL(join!.query, variables);
+			const target = `(${joinStm.sql}) AS ${join!.alias}`;
+			const params: any[] = [];
+			const on = () => (join!.on ? expressionToSQL(join!.on, params, variables) : '1');
+			let sql = ``;
+
+			switch (join!.type) {
+				case 'cross':
+					params.push(...from.params, ...joinStm.params);
+					sql = `${from.sql} CROSS JOIN ${target}`;
+					break;
+				case 'right':
+					// SQLite does not support RIGHT JOIN, swap both sides of a LEFT JOIN
+					params.push(...joinStm.params, ...from.params);
+					sql = `${target} LEFT JOIN (${from.sql}) ON ${on()}`;
+					break;
+				case 'full':
+					// SQLite does not support FULL JOIN, drive the join from a side table
+					// where side 0 yields the left join and side 1 the unmatched rows of the right side
+					const side = `${join!.alias}__side`;
+					const unmatched = () => {
+						params.push(...from.params);
+						return `NOT EXISTS (SELECT 1 FROM ${from.sql} WHERE ${on()})`;
+					};
+					params.push(...from.params);
+					const leftRows = `SELECT 0 AS side WHERE EXISTS (SELECT 1 FROM ${from.sql})`;
+					params.push(...joinStm.params);
+					const rightRows = `SELECT 1 AS side WHERE EXISTS (SELECT 1 FROM ${target} WHERE ${unmatched()})`;
+					params.push(...from.params, ...joinStm.params);
+					const matched = on();
+					sql = `(${leftRows} UNION ALL ${rightRows}) AS ${side}`;
+					sql += ` LEFT JOIN (${from.sql}) ON ${side}.side = 0`;
+					sql += ` LEFT JOIN ${target} ON CASE ${side}.side WHEN 0 THEN ${matched} ELSE ${unmatched()} END`;
+					break;
+				default:
+					params.push(...from.params, ...joinStm.params);
+					sql = `${from.sql} ${join!.type === 'left' ? 'LEFT ' : ''}JOIN ${target} ON ${on()}`;
+			}
+
+			from = { sql, params };
 		});
 	}
+
+	return from;
+}
+
+function selectQueryToSQL(query: QuerySelect, variables?: Variables): Statement {
+	const params: any[] = [];
+	let sql = ``;
+	sql += `SELECT ${query.isDistinct ? 'DISTINCT ' : ''}${fieldsToSQL(query, params, variables)}`;
+
+	const from = fromToSQL(query, variables);
+	params.push(...from.params);
+	sql += ` FROM ${from.sql}`;
 	if (query.conditions) {
-		sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables)}`;
+		sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables, query.collection)}`;
 	}
 	if (query.sorts) {
 		sql += ` ORDER BY ${query
-			.sorts!.map<string>(sort => (sort ? fieldToSQL(sort, params, variables) : ''))
+			.sorts!.map<string>(sort => (sort ? sortToSQL(sort, query, params, variables) : ''))
 			.join(', ')}`;
 	}
 	if (query.limit) {
@@ -714,20 +2074,73 @@ function selectQueryToSQL(query: QuerySelect, database: Database, variables?: Va
 	};
 }
 
-function indexToSQL(collection: Collection, index: Index): string {
+function indexToSQL(collection: Collection, index: Index): string[] {
 	const cols = index.columns;
 	if (!cols || cols.count() === 0) {
 		throw new Error(`Expected index ${index.name} to contain at least 1 column.`);
 	}
+	if (index.type === IndexType.FullText) {
+		return fullTextIndexToSQL(collection, index);
+	}
 	let def = `CREATE `;
 	if (index.type === IndexType.Unique) {
 		def += `UNIQUE `;
 	}
-	def += `INDEX "${index.name}" ON ${collectionToSQL(collection)} (${cols
+	def += `INDEX ${schemaToSQL(collection)}"${index.name}" ON ${tableNameToSQL(collection)} (${cols
 		.map<string>(col => (col !== undefined ? fieldToSQL(col, []) : ''))
 		.join(', ')})`;
 
-	return def;
+	return [def];
+}
+
+// Full-text indexes are FTS5 tables over the content of the collection, kept in sync by triggers
+// named after the index
+function fullTextIndexToSQL(collection: Collection, index: Index): string[] {
+	const schema = schemaToSQL(collection);
+	const table = tableNameToSQL(collection);
+	const fts = fullTextToSQL(collection);
+	const columns = index.columns.map(column => `"${column!.field.toString()}"`).toArray();
+	const values = (row: string) => columns.map(column => `${row}.${column}`).join(', ');
+	const insert = `INSERT INTO ${fts} (rowid, ${columns.join(', ')}) VALUES (new.rowid, ${values('new')});`;
+	const remove = `INSERT INTO ${fts} (${fts}, rowid, ${columns.join(', ')}) VALUES ('delete', old.rowid, ${values(
+		'old'
+	)});`;
+	return [
+		`CREATE VIRTUAL TABLE ${schema}${fts} USING fts5(${columns.join(', ')}, content='${collection.name}')`,
+		`CREATE TRIGGER ${schema}"${index.name}_insert" AFTER INSERT ON ${table} BEGIN ${insert} END`,
+		`CREATE TRIGGER ${schema}"${index.name}_delete" AFTER DELETE ON ${table} BEGIN ${remove} END`,
+		`CREATE TRIGGER ${schema}"${index.name}_update" AFTER UPDATE ON ${table} BEGIN ${remove} ${insert} END`,
+		`INSERT INTO ${schema}${fts} (${fts}) VALUES ('rebuild')`,
+	];
+}
+
+function assertSingleFullTextIndex(collection: Collection, indexes: Index[]): void {
+	if (indexes.filter(index => index.type === IndexType.FullText).length > 1) {
+		throw new Error(`Expected ${collection.toString()} to have at most one full-text index.`);
+	}
+}
+
+const referentialActions: { [action in ReferentialAction]: string } = {
+	noAction: 'NO ACTION',
+	restrict: 'RESTRICT',
+	cascade: 'CASCADE',
+	setNull: 'SET NULL',
+	setDefault: 'SET DEFAULT',
+};
+
+function foreignKeyToSQL(foreignKey: ForeignKey): string {
+	return `FOREIGN KEY (${foreignKey.columns.map(col => `"${col}"`).join(', ')}) REFERENCES ${tableNameToSQL(
+		foreignKey.collection
+	)} (${foreignKey.refColumns.map(col => `"${col}"`).join(', ')}) ON DELETE ${
+		referentialActions[foreignKey.onDelete]
+	} ON UPDATE ${referentialActions[foreignKey.onUpdate]}`;
+}
+
+function referentialActionFromSQL(action: string): ReferentialAction {
+	const found = (Object.keys(referentialActions) as ReferentialAction[]).find(
+		key => referentialActions[key] === action
+	);
+	return found || 'noAction';
 }
 
 function columnType(type: ColumnType) {
@@ -741,6 +2154,19 @@ function columnType(type: ColumnType) {
 			return 'REAL';
 		case ColumnType.Blob:
 			return 'BLOB';
+		case ColumnType.Time:
+			return 'TIME';
+		// Decimals keep a numeric affinity so that they are compared and sorted as numbers
+		case ColumnType.Decimal:
+			return 'DECIMAL';
+		case ColumnType.Uuid:
+			return 'UUID';
+		case ColumnType.Json:
+			return 'JSON';
+		case ColumnType.Enum:
+			// Declared types containing TEXT get a text affinity, enum values such as "01" would otherwise
+			// be stored as integers
+			return 'ENUM_TEXT';
 		default:
 			return 'TEXT';
 	}
@@ -749,11 +2175,185 @@ function columnType(type: ColumnType) {
 export type Statement = {
 	sql: string;
 	params: any[];
+	returning?: boolean;
+	cached?: CachedStatement;
+};
+
+export type CachedStatement = {
+	sql: string;
+	prepared?: Promise<SQLiteStatement>;
 };
 
-export function convertQueryToSQL(query: Query, database: Database, variables?: Variables): Statement[] {
+class VariableParam {
+	constructor(public readonly name: string, public readonly index?: number) {}
+}
+
+// LRU of prepared statements, keyed by their SQL. Variables are compiled as VariableParam so that
+// the same SQL can be bound to other values.
+export class StatementCache {
+	public hits: number = 0;
+	public misses: number = 0;
+
+	protected readonly entries = new Map<string, CachedStatement>();
+
+	constructor(public readonly capacity: number) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	convert(query: Query, database: Database, variables?: Variables): Statement[] {
+		const cacheable =
+			query instanceof QuerySelect ||
+			query instanceof QueryAggregate ||
+			query instanceof QueryUnion ||
+			((query instanceof QueryInsert || query instanceof QueryUpdate || query instanceof QueryDelete) &&
+				!query.returningFields);
+		if (this.capacity === 0 || !cacheable) {
+			return convertQueryToSQL(query, database, variables);
+		}
+
+		const stmt = convertQueryToSQL(query, database, variablesToParams(variables))[0];
+		let cached = this.entries.get(stmt.sql);
+		if (cached) {
+			this.hits += 1;
+			this.entries.delete(stmt.sql);
+		} else {
+			this.misses += 1;
+			cached = { sql: stmt.sql };
+		}
+		this.entries.set(stmt.sql, cached);
+		this.evict();
+
+		return [
+			{
+				cached,
+				sql: cached.sql,
+				params: stmt.params.map(param => {
+					if (param instanceof VariableParam) {
+						const value = variables![param.name];
+						return valueToPrimitive(
+							param.index === undefined ? value : (value as Primitive[])[param.index]
+						);
+					}
+					return param;
+				}),
+			},
+		];
+	}
+
+	async clear(): Promise<void> {
+		const entries = Array.from(this.entries.values());
+		this.entries.clear();
+		await Promise.all(entries.map(finalizeCachedStatement));
+	}
+
+	protected evict(): void {
+		while (this.entries.size > this.capacity) {
+			const key = this.entries.keys().next().value;
+			finalizeCachedStatement(this.entries.get(key)!);
+			this.entries.delete(key);
+		}
+	}
+}
+
+function variablesToParams(variables?: Variables): Variables | undefined {
+	if (variables === undefined) {
+		return undefined;
+	}
+	return Object.keys(variables).reduce(
+		(params, name) => {
+			const value = variables[name];
+			params[name] = isArray(value)
+				? value.map((_, index) => new VariableParam(name, index))
+				: new VariableParam(name);
+			return params;
+		},
+		{} as any
+	);
+}
+
+function finalizeCachedStatement(cached: CachedStatement): Promise<void> {
+	if (!cached.prepared) {
+		return Promise.resolve();
+	}
+	return cached.prepared.then(finalizeStatement, () => undefined);
+}
+
+// SQLite 3.28 has no RETURNING clause, the returned rows are selected around the mutation instead
+function returningToSQL(
+	query: QueryInsert | QueryUpdate | QueryDelete,
+	database: Database,
+	variables?: Variables
+): Statement[] {
+	const collection = query.collection;
+	if (!collection) {
+		throw new Error(`Expected query to be from a collection.`);
+	}
+
+	const select = (where: string, whereParams: any[] = []): Statement => {
+		const params: any[] = [];
+		const fields = fieldsToSQL(new QuerySelect(query.returningFields, collection), params, variables);
+		return {
+			sql: `SELECT ${fields} FROM ${sourceToSQL(collection)} WHERE ${where}`,
+			params: params.concat(whereParams),
+			returning: true,
+		};
+	};
+
+	if (query instanceof QueryInsert) {
+		if (!query.objects || query.objects.count() === 0) {
+			throw new Error(`Expected QueryInsert to have some data.`);
+		}
+		const columns = query.conflict
+			? query.conflict.columns.map<string>(column => column!.name as string).toArray()
+			: [];
+		return query.objects.toArray().reduce<Statement[]>((statements, object) => {
+			const insert = convertQueryToSQL(
+				new QueryInsert(List([object]), collection, query.conflict),
+				database,
+				variables
+			);
+			const params: any[] = [];
+			// Upserted rows keep their rowid, find them back through the conflict columns
+			const where =
+				columns.length > 0 && columns.every(column => object[column] !== undefined)
+					? columns
+							.map(column => `"${column}" = ${valueToSQL(object[column], params, variables)}`)
+							.join(' AND ')
+					: `rowid = last_insert_rowid()`;
+			return statements.concat(insert, select(`changes() > 0 AND ${where}`, params));
+		}, []);
+	} else if (query instanceof QueryUpdate) {
+		const params: any[] = [];
+		const where = query.conditions ? ` WHERE ${binaryToSQL(query.conditions, params, variables, collection)}` : '';
+		const update = convertQueryToSQL(new QueryUpdate(query.object, collection), database, variables)[0];
+		const matched = `rowid IN (SELECT id FROM konstellio_returning)`;
+		return [
+			{ sql: `DROP TABLE IF EXISTS temp.konstellio_returning`, params: [] },
+			{
+				params,
+				sql: `CREATE TEMP TABLE konstellio_returning AS SELECT rowid AS id FROM ${sourceToSQL(
+					collection
+				)}${where}`,
+			},
+			{ sql: `${update.sql} WHERE ${matched}`, params: update.params },
+			select(matched),
+			{ sql: `DROP TABLE temp.konstellio_returning`, params: [] },
+		];
+	}
+
+	const params: any[] = [];
+	const where = query.conditions ? binaryToSQL(query.conditions, params, variables, collection) : '1';
+	return [select(where, params)].concat(
+		convertQueryToSQL(new QueryDelete(collection, query.conditions), database, variables)
+	);
+}
+
+export function convertQueryToSQL(source: Query, database: Database, variables?: Variables): Statement[] {
+	const query = localQuery(source, database);
 	if (query instanceof QuerySelect) {
-		return [selectQueryToSQL(query, database, variables)];
+		return [selectQueryToSQL(query, variables)];
 	} else if (query instanceof QueryUnion) {
 		const params: any[] = [];
 		let sql = ``;
@@ -790,26 +2390,13 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 	} else if (query instanceof QueryAggregate) {
 		const params: any[] = [];
 		let sql = ``;
-		sql += `SELECT ${
-			query.fields && query.fields.count() > 0
-				? query.fields!.map<string>(f => (f ? fieldToSQL(f, params, variables) : '')).join(', ')
-				: '*'
-		}`;
+		sql += `SELECT ${query.isDistinct ? 'DISTINCT ' : ''}${fieldsToSQL(query, params, variables)}`;
 
-		if (query.collection) {
-			sql += ` FROM ${collectionToSQL(query.collection!)}`;
-		} else {
-			throw new Error(`Expected QuerySelect to be from a collection.`);
-		}
-		if (query.joins) {
-			query.joins!.forEach(join => {
-				const joinStm = convertQueryToSQL(join!.query, database, variables);
-				params.push(...joinStm[0].params);
-				sql += ` JOIN (${joinStm[0].sql}) AS ${join!.alias} ON ${join!.on}`;
-			});
-		}
+		const from = fromToSQL(query, variables);
+		params.push(...from.params);
+		sql += ` FROM ${from.sql}`;
 		if (query.conditions) {
-			sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables)}`;
+			sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables, query.collection)}`;
 		}
 		if (query.groups) {
 			sql += ` GROUP BY ${query
@@ -818,9 +2405,12 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 				)
 				.join(', ')}`;
 		}
+		if (query.havingConditions) {
+			sql += ` HAVING ${binaryToSQL(query.havingConditions!, params, variables)}`;
+		}
 		if (query.sorts) {
 			sql += ` ORDER BY ${query
-				.sorts!.map<string>(sort => (sort ? fieldToSQL(sort, params, variables) : ''))
+				.sorts!.map<string>(sort => (sort ? sortToSQL(sort, query, params, variables) : ''))
 				.join(', ')}`;
 		}
 		if (query.limit) {
@@ -834,11 +2424,15 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 
 		return [{ sql, params }];
 	} else if (query instanceof QueryInsert) {
+		if (query.returningFields) {
+			return returningToSQL(query, database, variables);
+		}
+
 		const params: any[] = [];
 		let sql = ``;
 
 		if (query.collection) {
-			sql += `INSERT INTO ${collectionToSQL(query.collection!)}`;
+			sql += `INSERT INTO ${tableToSQL(query.collection!)}`;
 		} else {
 			throw new Error(`Expected QueryInsert to be from a collection.`);
 		}
@@ -861,13 +2455,36 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 			throw new Error(`Expected QueryInsert to have some data.`);
 		}
 
+		if (query.conflict) {
+			const columns = query.conflict.columns.map<string>(column => column!.name as string).toArray();
+			const object =
+				query.conflict.object ||
+				Object.keys(objects.get(0))
+					.filter(key => columns.indexOf(key) === -1)
+					.reduce((object, key) => ({ ...object, [key]: q.field(key, 'excluded') }), {} as any);
+			const keys = Object.keys(object);
+
+			sql += ` ON CONFLICT (${columns.map<string>(column => `"${column}"`).join(', ')})`;
+			if (query.conflict.action === 'update' && keys.length > 0) {
+				sql += ` DO UPDATE SET ${keys
+					.map<string>(key => `"${key}" = ${valueToSQL(object[key] as Value, params, variables)}`)
+					.join(', ')}`;
+			} else {
+				sql += ` DO NOTHING`;
+			}
+		}
+
 		return [{ sql, params }];
 	} else if (query instanceof QueryUpdate) {
+		if (query.returningFields) {
+			return returningToSQL(query, database, variables);
+		}
+
 		const params: any[] = [];
 		let sql = ``;
 
 		if (query.collection) {
-			sql += `UPDATE  ${collectionToSQL(query.collection!)} SET`;
+			sql += `UPDATE  ${sourceToSQL(query.collection!)} SET`;
 		} else {
 			throw new Error(`Expected QueryInsert to be from a collection.`);
 		}
@@ -881,21 +2498,25 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 			throw new Error(`Expected QueryUpdate to have some data.`);
 		}
 		if (query.conditions) {
-			sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables)} `;
+			sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables, query.collection)} `;
 		}
 
 		return [{ sql, params }];
 	} else if (query instanceof QueryDelete) {
+		if (query.returningFields) {
+			return returningToSQL(query, database, variables);
+		}
+
 		const params: any[] = [];
 		let sql = ``;
 
 		if (query.collection) {
-			sql += `DELETE FROM  ${collectionToSQL(query.collection!)}`;
+			sql += `DELETE FROM  ${sourceToSQL(query.collection!)}`;
 		} else {
 			throw new Error(`Expected QueryDelete to be from a collection.`);
 		}
 		if (query.conditions) {
-			sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables)} `;
+			sql += ` WHERE ${binaryToSQL(query.conditions!, params, variables, query.collection)} `;
 		}
 
 		return [{ sql, params }];
@@ -908,7 +2529,7 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 		let sql = '';
 
 		if (collection) {
-			sql += `CREATE TABLE ${collectionToSQL(query.collection!)}`;
+			sql += `CREATE TABLE ${tableToSQL(query.collection!)}`;
 		} else {
 			throw new Error(`Expected QueryCreateCollection to be from a collection.`);
 		}
@@ -946,11 +2567,31 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 				if (col !== undefined) {
 					const defaultValue = col.defaultValue;
 					let def = `"${col.name}" ${columnType(col.type)}`;
+					if (col.type === ColumnType.Decimal && col.size) {
+						def += `(${col.size}${col.scale !== undefined ? `, ${col.scale}` : ''})`;
+					}
 					if (col.name === autoColName) {
 						def += ` PRIMARY KEY AUTOINCREMENT`;
 					}
+					if (!col.nullable) {
+						def += ` NOT NULL`;
+					}
 					if (defaultValue !== undefined && defaultValue !== null) {
-						def += ` DEFAULT ${typeof defaultValue === 'number' ? defaultValue : `'${defaultValue}'`}`;
+						def += ` DEFAULT ${literalToSQL(valueToPrimitive(defaultValue))}`;
+					}
+					if (col.collate) {
+						if (!/^\w+$/.test(col.collate)) {
+							throw new Error(
+								`Expected collation of column ${col.name} to be a name, got ${col.collate}.`
+							);
+						}
+						def += ` COLLATE ${col.collate}`;
+					}
+					if (col.check) {
+						def += ` CHECK (${checkToSQL(col.check)})`;
+					}
+					if (col.type === ColumnType.Enum) {
+						def += ` CHECK ("${col.name}" IN (${col.values!.map(literalToSQL).join(', ')}))`;
 					}
 					return def;
 				}
@@ -967,19 +2608,46 @@ export function convertQueryToSQL(query: Query, database: Database, variables?:
 			}
 		}
 
+		if (query.foreignKeys) {
+			query.foreignKeys.forEach(foreignKey => {
+				if (foreignKey!.collection.namespace !== collection.namespace) {
+					throw new Error(
+						`Expected foreign keys of ${collection.toString()} to reference a collection of the same file.`
+					);
+				}
+				sql += `, ${foreignKeyToSQL(foreignKey!)}`;
+			});
+		}
+
 		sql += `)`;
 
 		const stmts = [{ sql, params }];
 
 		if (otherIndexes && otherIndexes.count() > 0) {
+			assertSingleFullTextIndex(collection, otherIndexes.toArray());
 			otherIndexes.forEach(idx => {
 				if (idx !== undefined) {
-					stmts.push({ sql: indexToSQL(collection, idx), params: [] });
+					stmts.push(...indexToSQL(collection, idx).map(sql => ({ sql, params: [] })));
 				}
 			});
 		}
 
 		return stmts;
+	} else if (query instanceof QueryCreateView) {
+		const select = selectQueryToSQL(query.select);
+		// The select is kept along the view, as it was given, so that it can be described back
+		const json = JSON.stringify((source as QueryCreateView).select.toJSON()).replace(/\*\//g, '*\\/');
+		return [
+			{
+				sql: `CREATE VIEW ${tableToSQL(query.collection)} AS /* ${json} */ ${inlineParams(
+					select.sql,
+					select.params
+				)}`,
+				params: [],
+			},
+		];
+	} else if (query instanceof QueryDropView) {
+		return [{ sql: `DROP VIEW ${tableToSQL(query.collection)}`, params: [] }];
 	} else {
 		return [];
 	}
@@ -0,0 +1,123 @@
+import 'mocha';
+import { use, expect, should } from 'chai';
+use(require('chai-as-promised'));
+should();
+import { DatabaseSQLite } from '../src/DatabaseSQLite';
+import { q, DatabaseReplicated, QuerySelectResult } from '@konstellio/db';
+import { mkdtempSync, copyFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('SQLite replicated', () => {
+	let primary: DatabaseSQLite;
+	let replicas: DatabaseSQLite[];
+	let filenames: string[];
+
+	before(async function() {
+		this.timeout(10000);
+
+		const tmp = mkdtempSync(join(tmpdir(), 'konstellio-db-sqlite-'));
+		const filename = join(tmp, 'primary.sqlite');
+
+		const origin = await new DatabaseSQLite({ filename }).connect();
+		const transaction = await origin.transaction();
+		transaction.execute('CREATE TABLE Bar_Foo (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT)');
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'primary' }));
+		await transaction.commit();
+
+		// Each replica is a copy of the primary with its own title, to tell them apart
+		filenames = [];
+		for (const name of ['first', 'second']) {
+			copyFileSync(filename, join(tmp, `${name}.sqlite`));
+			const replica = await new DatabaseSQLite({ filename: join(tmp, `${name}.sqlite`) }).connect();
+			await replica.execute(`UPDATE Bar_Foo SET title = '${name}'`);
+			await replica.disconnect();
+			filenames.push(join(tmp, `${name}.sqlite`));
+		}
+		await origin.disconnect();
+		filenames.unshift(filename);
+	});
+
+	beforeEach(() => {
+		const [filename, ...copies] = filenames;
+		primary = new DatabaseSQLite({ filename });
+		replicas = copies.map(copy => new DatabaseSQLite({ filename: copy }));
+	});
+
+	const titles = async (database: DatabaseReplicated, count: number) => {
+		const select = q
+			.select('title')
+			.from(q.collection('Foo', 'Bar'))
+			.range({ limit: 1 });
+		const result: string[] = [];
+		for (let i = 0; i < count; ++i) {
+			const rows: QuerySelectResult<any> = await database.execute<any>(select);
+			result.push(rows.results[0].title);
+		}
+		return result;
+	};
+
+	it('round-robin reads', async () => {
+		const database = new DatabaseReplicated(primary, replicas);
+		expect(await database.connect()).to.equal(database);
+		expect(database.features).to.equal(primary.features);
+
+		expect(await titles(database, 3)).to.eql(['first', 'second', 'first']);
+
+		const rows: any[] = [];
+		for await (const row of database.stream(q.select('title').from(q.collection('Foo', 'Bar')))) {
+			rows.push(row);
+		}
+		expect(rows).to.eql([{ title: 'second' }]);
+
+		const plan = await database.explain(q.select('title').from(q.collection('Foo', 'Bar')));
+		expect(plan.fullScans.length).to.equal(1);
+
+		await database.disconnect();
+	});
+
+	it('write to primary', async () => {
+		const database = await new DatabaseReplicated(primary, replicas).connect();
+
+		const transaction = await database.transaction();
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'written' }));
+		await transaction.commit().should.be.fulfilled;
+
+		const count = q
+			.select('title')
+			.from(q.collection('Foo', 'Bar'))
+			.where(q.eq('title', 'written'));
+		expect((await primary.execute(count)).results.length).to.equal(1);
+		expect((await replicas[0].execute(count)).results.length).to.equal(0);
+		expect((await database.execute(count)).results.length).to.equal(0);
+
+		const desc = await database.execute(q.describeCollection(q.collection('Foo', 'Bar')));
+		expect(desc.columns.length).to.equal(2);
+
+		await database.disconnect();
+	});
+
+	it('pin reads to primary after write', async () => {
+		const database = await new DatabaseReplicated(primary, replicas, { stickyWindow: 50 }).connect();
+
+		expect(await titles(database, 1)).to.eql(['first']);
+
+		const transaction = await database.transaction();
+		transaction.execute(
+			q
+				.update(q.collection('Foo', 'Bar'))
+				.set({ title: 'updated' })
+				.where(q.eq('id', 1))
+		);
+		await transaction.commit();
+		expect(await titles(database, 2)).to.eql(['updated', 'updated']);
+
+		await new Promise(resolve => setTimeout(resolve, 60));
+		expect(await titles(database, 2)).to.eql(['second', 'first']);
+
+		await database.execute("UPDATE Bar_Foo SET title = 'raw' WHERE id = 1");
+		expect(await titles(database, 1)).to.eql(['raw']);
+
+		await database.disconnect();
+	});
+});
@@ -8,9 +8,15 @@ import {
 	ColumnType,
 	IndexType,
 	QuerySelectResult,
+	QueryAggregateResult,
 	QueryShowCollectionResult,
 	QueryCollectionExistsResult,
 	QueryDescribeCollectionResult,
+	QueryExplainResult,
+	Column,
+	BinaryExpression,
+	Variables,
+	FieldDirection,
 } from '@konstellio/db';
 import { mkdtempSync } from 'fs';
 import { join } from 'path';
@@ -98,6 +104,1073 @@ describe('SQLite', () => {
 		expect(result).to.be.an.instanceOf(QuerySelectResult);
 	});
 
+	it('stream', async () => {
+		const select = q.select<any>('id', 'title').from(q.collection('Foo', 'Bar'));
+		const result: QuerySelectResult<any> = await driver.execute<Foo>(select).should.be.fulfilled;
+
+		const rows: any[] = [];
+		for await (const row of driver.stream(select)) {
+			rows.push(row);
+		}
+		expect(rows).to.eql(result.results);
+
+		const first: any[] = [];
+		for await (const row of driver.stream(select)) {
+			first.push(row);
+			break;
+		}
+		expect(first).to.eql(result.results.slice(0, 1));
+
+		const nested: any[] = [];
+		for await (const row of driver.stream<any>(select)) {
+			const count = await driver.execute<any>(
+				q.aggregate<any>(q.as(q.count('id'), 'total')).from(q.collection('Foo', 'Bar'))
+			);
+			nested.push([row.id, count.results[0].total]);
+		}
+		expect(nested).to.eql(result.results.map(row => [row.id, result.results.length]));
+
+		const variable = select.where(q.eq('title', q.var('title')));
+		await driver.stream(variable).next().should.be.rejected;
+	});
+
+	it('explain', async () => {
+		const search: QueryExplainResult = await driver.explain(
+			q
+				.select('title')
+				.from(q.collection('Foo', 'Bar'))
+				.where(q.eq('title', q.var('title'))),
+			{ title: 'Hello world' }
+		).should.be.fulfilled;
+		expect(search.plan[0].operation).to.equal('search');
+		expect(search.plan[0].collection!.toString()).to.equal('Bar__Foo');
+		expect(search.usesIndex('Bar_Foo_title')).to.equal(true);
+		expect(search.fullScans).to.eql([]);
+
+		const scan: QueryExplainResult = await driver.explain(
+			q
+				.select('title')
+				.from(q.collection('Foo', 'Bar'))
+				.where(q.gt('likes', 1))
+				.sort(q.sort('likes'))
+		).should.be.fulfilled;
+		expect(scan.fullScans.length).to.equal(1);
+		expect(scan.nodes.map(node => node.operation)).to.eql(['scan', 'temp']);
+
+		await driver.explain(q.delete('Bar_Foo') as any).should.be.rejectedWith(TypeError);
+	});
+
+	it('full-text search', async () => {
+		const post = q.collection('Post', 'Blog');
+		const create = await driver.transaction();
+		create.execute(
+			q
+				.createCollection(post)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title__fr', ColumnType.Text),
+						q.column('content__fr', ColumnType.Text),
+					],
+					[
+						q.index('Blog_Post_id', IndexType.Primary, [q.sort('id', 'asc')]),
+						q.index('Blog_Post_search', IndexType.FullText, [
+							q.sort('title__fr', 'asc'),
+							q.sort('content__fr', 'asc'),
+						]),
+					]
+				)
+		);
+		create.execute(q.insert(post).add({ title__fr: 'Bonjour le monde', content__fr: 'Premier article' }));
+		create.execute(
+			q.insert(post).add({ title__fr: 'Recette de crêpes', content__fr: 'La recette des crêpes bretonnes' })
+		);
+		create.execute(q.insert(post).add({ title__fr: 'Autre', content__fr: 'Bonjour, voici une recette' }));
+		await create.commit().should.be.fulfilled;
+
+		const search = async (condition: BinaryExpression, variables?: Variables) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(
+				q
+					.select('id')
+					.from(post)
+					.where(condition)
+					.sort(q.sort(q.rank()), q.sort('id')),
+				variables
+			);
+			return result.results.map(row => row.id);
+		};
+
+		expect(await search(q.match<any>(['title__fr', 'content__fr'], 'recette'))).to.eql([2, 3]);
+		expect(await search(q.match<any>('title__fr', 'bonjour'))).to.eql([1]);
+		const found = await search(q.match<any>(['title__fr', 'content__fr'], q.var('text')), { text: 'bonjour' });
+		expect(found.sort()).to.eql([1, 3]);
+		expect(await search(q.and(q.match<any>('content__fr', 'crêp*'), q.gt('id', 1)))).to.eql([2]);
+		expect(await search(q.or(q.match<any>('title__fr', 'monde'), q.eq('id', 3)))).to.eql([1, 3]);
+
+		const desc: QueryDescribeCollectionResult = await driver.execute(q.describeCollection(post));
+		const index = desc.indexes.find(index => index.type === IndexType.FullText)!;
+		expect(index.name).to.equal('Blog_Post_search');
+		expect(index.columns.map(column => column!.toString()).toArray()).to.eql(['title__fr ASC', 'content__fr ASC']);
+
+		const show: QueryShowCollectionResult = await driver.execute(q.showCollection());
+		expect(show.collections.map(collection => collection.toString())).to.include('Blog__Post');
+		expect(show.collections.filter(collection => collection.name.indexOf('fts') > -1)).to.eql([]);
+
+		const update = await driver.transaction();
+		update.execute(
+			q
+				.update<any>(post)
+				.set({ content__fr: 'Rien à voir' })
+				.where(q.eq('id', 3))
+		);
+		update.execute(q.delete(post).where(q.match<any>('title__fr', 'monde')));
+		await update.commit().should.be.fulfilled;
+		expect(await search(q.match<any>(['title__fr', 'content__fr'], 'recette OR bonjour'))).to.eql([2]);
+
+		const alter = await driver.transaction();
+		alter.execute(q.alterCollection(post).addColumn(q.column('likes', ColumnType.Int)));
+		await alter.commit().should.be.fulfilled;
+		expect(await search(q.match<any>('content__fr', 'bretonnes'))).to.eql([2]);
+		const altered: QueryDescribeCollectionResult = await driver.execute(q.describeCollection(post));
+		expect(altered.indexes.filter(index => index.type === IndexType.FullText).length).to.equal(1);
+
+		const twice = await driver.transaction();
+		expect(() =>
+			twice.execute(
+				q
+					.alterCollection(post)
+					.addIndex(q.index('Blog_Post_title', IndexType.FullText, [q.sort('title__fr', 'asc')]))
+			)
+		).to.not.throw();
+		await twice.commit().should.be.rejectedWith(Error, 'at most one full-text index');
+
+		await driver
+			.execute(
+				q
+					.select('id')
+					.from(post)
+					.sort(q.sort(q.rank()))
+			)
+			.should.be.rejectedWith(Error);
+
+		const drop = await driver.transaction();
+		drop.execute(q.dropCollection(post));
+		await drop.commit().should.be.fulfilled;
+	});
+
+	it('keyset pagination', async () => {
+		const page = q.collection('Page');
+		const create = await driver.transaction();
+		create.execute(
+			q
+				.createCollection(page)
+				.define(
+					[q.column('id', ColumnType.Int, 64, null, true), q.column('postDate', ColumnType.Date)],
+					[q.index('Page_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		for (const postDate of ['2018-01-02', null, '2018-01-01', '2018-01-02', null]) {
+			create.execute(q.insert(page).add({ postDate: postDate ? new Date(postDate) : null }));
+		}
+		await create.commit().should.be.fulfilled;
+
+		const sorts: FieldDirection[] = [q.sort('postDate', 'desc'), q.sort('id', 'asc')];
+		const select = q
+			.select('id', 'postDate')
+			.from(page)
+			.sort(...sorts);
+		const all: QuerySelectResult<any> = await driver.execute<any>(select);
+		expect(all.results.map(row => row.id)).to.eql([1, 4, 3, 2, 5]);
+
+		const pages: number[][] = [];
+		let cursor: string | undefined;
+		do {
+			const result: QuerySelectResult<any> = await driver.execute<any>(
+				(cursor ? select.where(q.after(cursor, sorts)) : select).range({ limit: 2 })
+			);
+			pages.push(result.results.map(row => row.id));
+			cursor = result.results.length ? q.cursor(result.results[result.results.length - 1], sorts) : undefined;
+		} while (cursor);
+		expect(pages).to.eql([[1, 4], [3, 2], [5], []]);
+
+		const before: QuerySelectResult<any> = await driver.execute<any>(
+			select.where(q.before(q.cursor(all.results[3], sorts), sorts))
+		);
+		expect(before.results.map(row => row.id)).to.eql([1, 4, 3]);
+
+		const drop = await driver.transaction();
+		drop.execute(q.dropCollection(page));
+		await drop.commit().should.be.fulfilled;
+	});
+
+	it('view', async () => {
+		const author = q.collection('Author', 'Blog');
+		const article = q.collection('Article', 'Blog');
+		const view = q.collection('PublishedArticle', 'Blog');
+		const create = await driver.transaction();
+		create.execute(
+			q
+				.createCollection(author)
+				.define(
+					[q.column('id', ColumnType.Int, 64, null, true), q.column('username', ColumnType.Text)],
+					[q.index('Blog_Author_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		create.execute(
+			q
+				.createCollection(article)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title', ColumnType.Text),
+						q.column('published', ColumnType.Boolean),
+						q.column('author', ColumnType.Int),
+					],
+					[q.index('Blog_Article_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		create.execute(q.insert(author).add({ username: "o'brien" }));
+		create.execute(q.insert(article).add({ title: 'Draft', published: false, author: 1 }));
+		create.execute(q.insert(article).add({ title: 'Hello', published: true, author: 1 }));
+		const published = q
+			.select<any>(q.field('id', 'Blog_Article'), 'title', q.field('username', 'author'))
+			.from(article)
+			.join(
+				'author',
+				q.select<any>('id', 'username').from(author),
+				q.eq(q.field('id', 'author'), q.field('author'))
+			)
+			.where(q.eq('published', true));
+		create.execute(q.createView(view, published));
+		await create.commit().should.be.fulfilled;
+
+		const result: QuerySelectResult<any> = await driver.execute<any>(
+			q.select('id', 'title', 'username').from(view)
+		);
+		expect(result.results).to.eql([{ id: 2, title: 'Hello', username: "o'brien" }]);
+
+		const show: QueryShowCollectionResult = await driver.execute(q.showCollection());
+		expect(show.collections.map(collection => collection.toString())).to.include('Blog__PublishedArticle');
+		expect(show.views.map(collection => collection.toString())).to.eql(['Blog__PublishedArticle']);
+
+		const desc: QueryDescribeCollectionResult = await driver.execute(q.describeCollection(view));
+		expect(desc.readOnly).to.equal(true);
+		expect(desc.columns.map(column => column.name)).to.eql(['id', 'title', 'username']);
+		expect(desc.indexes).to.eql([]);
+		expect(desc.view!.toJSON()).to.eql(published.toJSON());
+		const table: QueryDescribeCollectionResult = await driver.execute(q.describeCollection(article));
+		expect(table.readOnly).to.equal(false);
+		expect(table.view).to.equal(undefined);
+
+		const write = await driver.transaction();
+		write.execute(q.insert(view).add({ title: 'Nope' }));
+		await write.commit().should.be.rejectedWith(Error, 'cannot modify');
+
+		const alter = await driver.transaction();
+		alter.execute(q.alterCollection(article).addColumn(q.column('content', ColumnType.Text)));
+		await alter.commit().should.be.fulfilled;
+		const altered: QuerySelectResult<any> = await driver.execute<any>(q.select('title').from(view));
+		expect(altered.results).to.eql([{ title: 'Hello' }]);
+
+		const drop = await driver.transaction();
+		drop.execute(q.dropView(view));
+		drop.execute(q.dropCollection(article));
+		drop.execute(q.dropCollection(author));
+		await drop.commit().should.be.fulfilled;
+		const exists: QueryCollectionExistsResult = await driver.execute(q.collectionExists(view));
+		expect(exists.exists).to.equal(false);
+	});
+
+	it('statement cache', async () => {
+		const cache = driver.statementCache;
+		const { hits, misses } = cache;
+		const select = q
+			.select<any>('likes')
+			.from(q.collection('Foo', 'Bar'))
+			.where(q.and(q.eq('title', q.var('title')), q.in('id', q.var('ids'))));
+
+		const a: QuerySelectResult<any> = await driver.execute<Foo>(select, { title: 'Hello world', ids: [1] }).should
+			.be.fulfilled;
+		const b: QuerySelectResult<any> = await driver.execute<Foo>(select, { title: 'Foo', ids: [1] }).should.be
+			.fulfilled;
+		expect(a.results).to.eql([{ likes: 11 }]);
+		expect(b.results).to.eql([]);
+		expect(cache.misses).to.equal(misses + 1);
+		expect(cache.hits).to.equal(hits + 1);
+
+		const c: QuerySelectResult<any> = await driver.execute<Foo>(select, { title: 'Hello world', ids: [0, 1] })
+			.should.be.fulfilled;
+		expect(c.results).to.eql([{ likes: 11 }]);
+		expect(cache.misses).to.equal(misses + 2);
+
+		const other = new DatabaseSQLite({ filename: ':memory:', statementCacheSize: 1 });
+		await other.connect();
+		await other.execute(q.select<any>('name').from('sqlite_master')).should.be.fulfilled;
+		await other.execute(q.select<any>('type').from('sqlite_master')).should.be.fulfilled;
+		expect(other.statementCache.size).to.equal(1);
+		await other.disconnect().should.be.fulfilled;
+		expect(other.statementCache.size).to.equal(0);
+	});
+
+	it('join', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute('CREATE TABLE Tag (source INTEGER, name TEXT)');
+		transaction.execute(`INSERT INTO Tag (source, name) VALUES (1, 'foo'), (1, 'baz'), (3, 'bar')`);
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'Foo', postDate: new Date(), likes: 2 }));
+		await transaction.commit();
+
+		const tags = q
+			.select<any>('source', 'name')
+			.from('Tag')
+			.where(q.ne('name', q.var('skip')));
+		const on = q.eq(q.field('source', 'tag'), q.field('id', 'Bar_Foo'));
+		const select = q.select<any>('title', q.field('name', 'tag')).from(q.collection('Foo', 'Bar'));
+		const run = async (query: typeof select) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(query, { skip: 'baz' }).should.be
+				.fulfilled;
+			return result.results.map(row => `${row.title}:${row.name}`).sort();
+		};
+
+		expect(await run(select.join('tag', tags, on))).to.eql(['Hello world:foo']);
+		expect(await run(select.leftJoin('tag', tags, on))).to.eql(['Foo:null', 'Hello world:foo']);
+		expect(await run(select.rightJoin('tag', tags, on))).to.eql(['Hello world:foo', 'null:bar']);
+		expect(await run(select.fullJoin('tag', tags, on))).to.eql(['Foo:null', 'Hello world:foo', 'null:bar']);
+		expect(await run(select.crossJoin('tag', tags))).to.eql([
+			'Foo:bar',
+			'Foo:foo',
+			'Hello world:bar',
+			'Hello world:foo',
+		]);
+
+		const empty = q
+			.select<any>('source', 'name')
+			.from('Tag')
+			.where(q.eq('source', 0));
+		expect(await run(select.fullJoin('tag', empty, on))).to.eql(['Foo:null', 'Hello world:null']);
+
+		const drop = await driver.transaction();
+		drop.execute('DROP TABLE Tag');
+		await drop.commit();
+	});
+
+	it('subquery', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute('CREATE TABLE Tag (source INTEGER, name TEXT)');
+		transaction.execute(`INSERT INTO Tag (source, name) VALUES (1, 'foo'), (2, 'bar'), (9, 'moo')`);
+		await transaction.commit();
+
+		const select = q.select<any>('title').from(q.collection('Foo', 'Bar'));
+		const tagged = (name: any) =>
+			q
+				.select<any>('source')
+				.from('Tag')
+				.where(q.and<any>(q.eq(q.field('source', 'Tag'), q.field('id', 'Bar_Foo')), q.eq('name', name)));
+		const run = async (query: typeof select) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(query, { skip: 'Foo', tag: 'foo' }).should
+				.be.fulfilled;
+			return result.results.map(row => row.title).sort();
+		};
+
+		expect(
+			await run(
+				select.where(
+					q.and(
+						q.ne('title', q.var('skip')),
+						q.in(
+							'id',
+							q
+								.select<any>('source')
+								.from('Tag')
+								.where(q.eq('name', q.var('tag')))
+						)
+					)
+				)
+			)
+		).to.eql(['Hello world']);
+		expect(
+			await run(
+				select.where(
+					q.eq(
+						'id',
+						q
+							.select<any>('source')
+							.from('Tag')
+							.where(q.eq('name', 'bar'))
+					)
+				)
+			)
+		).to.eql(['Foo']);
+		expect(await run(select.where(q.exists(tagged(q.var('tag')))))).to.eql(['Hello world']);
+		expect(await run(select.where(q.or(q.exists(tagged('bar')), q.eq('title', q.var('skip')))))).to.eql(['Foo']);
+		expect(await run(select.where(q.notExists(tagged('bar'))))).to.eql(['Hello world']);
+
+		const drop = await driver.transaction();
+		drop.execute('DROP TABLE Tag');
+		await drop.commit();
+	});
+
+	it('comparison', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute(q.insert(q.collection('Foo', 'Bar')).add({ title: 'Bar', likes: 5 }));
+		await transaction.commit();
+
+		const select = q.select<any>('title').from(q.collection('Foo', 'Bar'));
+		const run = async (query: typeof select) => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(query, { min: 3, pattern: 'h%' }).should.be
+				.fulfilled;
+			return result.results.map(row => row.title).sort();
+		};
+
+		expect(await run(select.where(q.isNull('postDate')))).to.eql(['Bar']);
+		expect(await run(select.where(q.isNotNull('postDate')))).to.eql(['Foo', 'Hello world']);
+		expect(await run(select.where(q.not(q.isNull('postDate'))))).to.eql(['Foo', 'Hello world']);
+		expect(await run(select.where(q.notIn('title', ['Foo', 'Bar'])))).to.eql(['Hello world']);
+		expect(await run(select.where(q.between('likes', q.var('min'), 11)))).to.eql(['Bar', 'Hello world']);
+		expect(await run(select.where(q.like('title', q.var('pattern'))))).to.eql(['Hello world']);
+		expect(await run(select.where(q.beginsWith('title', 'Hello')))).to.eql(['Hello world']);
+		expect(await run(select.where(q.beginsWith('title', 'hello')))).to.eql([]);
+		expect(await run(select.where(q.endsWith('title', 'oo')))).to.eql(['Foo']);
+		expect(await run(select.where(q.contains('title', 'a')))).to.eql(['Bar']);
+		expect(await run(select.where(q.not(q.or(q.contains('title', 'o'), q.gt('likes', 10)))))).to.eql(['Bar']);
+
+		const cleanup = await driver.transaction();
+		cleanup.execute(q.delete(q.collection('Foo', 'Bar')).where(q.eq('title', 'Bar')));
+		await cleanup.commit();
+	});
+
+	it('aggregate', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute('CREATE TABLE Tag (source INTEGER, name TEXT)');
+		transaction.execute(
+			`INSERT INTO Tag (source, name) VALUES (1, 'foo'), (2, 'foo'), (2, 'foo'), (1, 'bar'), (3, 'moo')`
+		);
+		await transaction.commit();
+
+		const distinct: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>('name')
+				.from('Tag')
+				.distinct()
+				.sort(q.sort('name'))
+		).should.be.fulfilled;
+		expect(distinct.results).to.eql([{ name: 'bar' }, { name: 'foo' }, { name: 'moo' }]);
+
+		const having: QueryAggregateResult<any> = await driver.execute<any>(
+			q
+				.aggregate<any>('name', q.as(q.count('source'), 'tags'), q.as(q.countDistinct('source'), 'sources'))
+				.from('Tag')
+				.group(q.field('name'))
+				.having(q.gt(q.count('source'), q.var('min')))
+				.sort(q.sort('name')),
+			{ min: 1 }
+		).should.be.fulfilled;
+		expect(having.results).to.eql([{ name: 'foo', tags: 3, sources: 2 }]);
+
+		const drop = await driver.transaction();
+		drop.execute('DROP TABLE Tag');
+		await drop.commit();
+	});
+
+	it('scalar function', async () => {
+		const transaction = await driver.transaction();
+		transaction.execute('CREATE TABLE Article (id INTEGER PRIMARY KEY, title TEXT, postDate TEXT, likes INTEGER)');
+		transaction.execute(
+			`INSERT INTO Article (id, title, postDate, likes) VALUES (1, '  Hello ', '2018-01-15T10:30:00.000Z', 5), ` +
+				`(2, 'world', '2018-01-20T08:00:00.000Z', -3), (3, NULL, '2018-03-02T23:59:59.000Z', NULL), ` +
+				`(4, 'Again', '2017-12-31T12:00:00.000Z', 10)`
+		);
+		await transaction.commit();
+
+		const select: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>(
+					q.as(q.lower(q.trim('title')), 'lower'),
+					q.as(q.upper('title'), 'upper'),
+					q.as(q.len('title'), 'length'),
+					q.as(q.substr(q.trim('title'), 2, 3), 'part'),
+					q.as(q.substr(q.trim('title'), -2), 'tail'),
+					q.as(q.round(q.div(q.field('likes'), 2)), 'half'),
+					q.as(q.round(q.div(q.field('likes'), 3), 2), 'third'),
+					q.as(q.div(q.field('likes'), 0), 'infinite'),
+					q.as(q.add(q.field('likes'), q.mul(q.field('likes'), 2), 1), 'total'),
+					q.as(q.abs(q.sub(q.field('likes'), 10)), 'distance'),
+					q.as(q.year('postDate'), 'year'),
+					q.as(q.month('postDate'), 'month'),
+					q.as(q.dateTrunc('month', 'postDate'), 'archive'),
+					q.as(q.case([[q.gt('likes', 4), 'hot'], [q.gt('likes', 0), 'warm']], 'cold'), 'heat')
+				)
+				.from('Article')
+				.where(q.eq('id', 1))
+		).should.be.fulfilled;
+		expect(select.results).to.eql([
+			{
+				lower: 'hello',
+				upper: '  HELLO ',
+				length: 8,
+				part: 'ell',
+				tail: 'lo',
+				half: 3,
+				third: 1.67,
+				infinite: null,
+				total: 16,
+				distance: 5,
+				year: 2018,
+				month: 1,
+				archive: '2018-01-01T00:00:00.000Z',
+				heat: 'hot',
+			},
+		]);
+
+		const draft: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>(
+					q.as(q.coalesce('title', 'untitled'), 'title'),
+					q.as(q.len('title'), 'length'),
+					q.as(q.case([[q.isNull('title'), 'draft']]), 'state'),
+					q.as(q.case([[q.isNotNull('title'), 'published']]), 'published')
+				)
+				.from('Article')
+				.where(q.eq('id', 3))
+		).should.be.fulfilled;
+		expect(draft.results).to.eql([{ title: 'untitled', length: null, state: 'draft', published: null }]);
+
+		const archive: QueryAggregateResult<any> = await driver.execute<any>(
+			q
+				.aggregate<any>(
+					q.as(q.year('postDate'), 'year'),
+					q.as(q.month('postDate'), 'month'),
+					q.as(q.count('id'), 'posts')
+				)
+				.from('Article')
+				.group(q.year('postDate'), q.month('postDate'))
+				.sort(q.sort(q.year('postDate'), 'desc'), q.sort(q.month('postDate'), 'desc'))
+		).should.be.fulfilled;
+		expect(archive.results).to.eql([
+			{ year: 2018, month: 3, posts: 1 },
+			{ year: 2018, month: 1, posts: 2 },
+			{ year: 2017, month: 12, posts: 1 },
+		]);
+
+		const january: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>('id')
+				.from('Article')
+				.where(q.eq(q.dateTrunc('month', 'postDate'), new Date('2018-01-01T00:00:00.000Z')))
+				.sort(q.sort(q.lower('title'), 'desc'))
+		).should.be.fulfilled;
+		expect(january.results).to.eql([{ id: 2 }, { id: 1 }]);
+
+		const sorted: QuerySelectResult<any> = await driver.execute<any>(
+			q
+				.select<any>('id')
+				.from('Article')
+				.where(q.isNotNull('title'))
+				.sort(q.sort(q.lower('title')))
+		).should.be.fulfilled;
+		expect(sorted.results).to.eql([{ id: 1 }, { id: 4 }, { id: 2 }]);
+
+		const drop = await driver.transaction();
+		drop.execute('DROP TABLE Article');
+		await drop.commit();
+	});
+
+	it('upsert', async () => {
+		const upsert = q.insert<any>(q.collection('Foo', 'Bar'));
+		const likes = async () => {
+			const result: QuerySelectResult<any> = await driver.execute<any>(
+				q
+					.select<any>('id', 'likes')
+					.from(q.collection('Foo', 'Bar'))
+					.sort(q.sort('id'))
+			).should.be.fulfilled;
+			return result.results.map(row => `${row.id}:${row.likes}`);
+		};
+
+		const transaction = await driver.transaction();
+		transaction.execute(
+			upsert
+				.add({ id: 1, title: 'Hello world', likes: 99 })
+				.add({ id: 5, title: 'Upsert', likes: 1 })
+				.onConflict('id')
+				.doNothing()
+		);
+		await transaction.commit().should.be.fulfilled;
+		expect(await likes()).to.eql(['1:11', '2:2', '5:1']);
+
+		const update = await driver.transaction();
+		update.execute(
+			upsert
+				.add({ id: 1, likes: 3 })
+				.onConflict('id')
+				.doUpdate({ likes: q.field('likes', 'excluded') })
+		);
+		update.execute(
+			upsert
+				.add({ id: 5, likes: 2 })
+				.onConflict('id')
+				.doUpdate()
+		);
+		await update.commit().should.be.fulfilled;
+		expect(await likes()).to.eql(['1:3', '2:2', '5:2']);
+
+		const cleanup = await driver.transaction();
+		cleanup.execute(
+			q
+				.update(q.collection('Foo', 'Bar'))
+				.set({ likes: 11 })
+				.where(q.eq('id', 1))
+		);
+		cleanup.execute(q.delete(q.collection('Foo', 'Bar')).where(q.eq('id', 5)));
+		await cleanup.commit();
+	});
+
+	it('returning', async () => {
+		const foo = q.collection('Foo', 'Bar');
+		const titles = (rows: any[]) => rows.map(row => `${row.title}:${row.likes}`);
+
+		const insert = await driver.transaction();
+		insert.execute(
+			q
+				.insert<any>(foo)
+				.add({ title: 'A', likes: 1 })
+				.add({ title: 'B', likes: 2 })
+				.returning('title', 'likes')
+		);
+		insert.execute(
+			q
+				.insert<any>(foo)
+				.add({ id: 1, title: 'Hello world' })
+				.onConflict('id')
+				.doNothing()
+				.returning()
+		);
+		insert.execute(
+			q
+				.update<any>(foo)
+				.set({ likes: 11 })
+				.where(q.eq('id', 1))
+		);
+		insert.execute(
+			q
+				.insert<any>(foo)
+				.add({ id: 1, title: 'Hello world' })
+				.onConflict('id')
+				.doUpdate({ likes: 11 })
+				.returning('id')
+		);
+		const inserted = await insert.commit().should.be.fulfilled;
+		expect(inserted.statements.length).to.equal(4);
+		expect(inserted.statements[0].changes).to.equal(2);
+		expect(titles(inserted.statements[0].results)).to.eql(['A:1', 'B:2']);
+		expect(inserted.statements[1].changes).to.equal(0);
+		expect(inserted.statements[1].results).to.eql([]);
+		expect(inserted.statements[2].changes).to.equal(1);
+		expect(inserted.statements[2].results).to.equal(undefined);
+		expect(inserted.statements[3].changes).to.equal(1);
+		expect(inserted.statements[3].results).to.eql([{ id: 1 }]);
+
+		const update = await driver.transaction();
+		update.execute(
+			q
+				.update<any>(foo)
+				.set({ likes: 7 })
+				.where(q.in('title', ['A', 'B']))
+				.returning('title', 'likes')
+		);
+		update.execute(
+			q
+				.update<any>(foo)
+				.set({ likes: 7 })
+				.where(q.eq('title', 'C'))
+				.returning()
+		);
+		update.execute(
+			q
+				.delete(foo)
+				.where(q.in('title', ['A', 'B']))
+				.returning()
+		);
+		const updated = await update.commit().should.be.fulfilled;
+		expect(updated.statements[0].changes).to.equal(2);
+		expect(titles(updated.statements[0].results)).to.eql(['A:7', 'B:7']);
+		expect(updated.statements[1].changes).to.equal(0);
+		expect(updated.statements[1].results).to.eql([]);
+		expect(updated.statements[2].changes).to.equal(2);
+		expect(titles(updated.statements[2].results)).to.eql(['A:7', 'B:7']);
+		expect(Object.keys(updated.statements[2].results[0])).to.eql(['id', 'title', 'postDate', 'likes']);
+	});
+
+	it('savepoint', async () => {
+		const names = async () =>
+			(await driver.execute<any>(q.select<any>('name').from('Sp'))).results.map(({ name }) => name).sort();
+		const insert = (name: string) => q.insert<any>('Sp').add({ name });
+
+		const setup = await driver.transaction();
+		setup.execute('CREATE TABLE Sp (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE)');
+		await setup.commit().should.be.fulfilled;
+
+		const explicit = await driver.transaction();
+		explicit.execute(insert('a'));
+		explicit.savepoint('before_b');
+		explicit.execute(insert('b'));
+		explicit.rollbackTo('before_b');
+		explicit.release('before_b');
+		explicit.execute(insert('c'));
+		await explicit.commit().should.be.fulfilled;
+		expect(await names()).to.eql(['a', 'c']);
+
+		const parent = await driver.transaction();
+		parent.execute(insert('d'));
+		const failing = await parent.transaction();
+		failing.execute(insert('e'));
+		failing.execute(insert('a'));
+		let rolledBack = false;
+		failing.once('rollback', () => {
+			rolledBack = true;
+		});
+		const failingCommit = failing.commit();
+		const child = await parent.transaction();
+		child.execute(insert('f'));
+		const grandchild = await child.transaction();
+		grandchild.execute(insert('c'));
+		let grandchildRolledBack = false;
+		grandchild.once('rollback', () => {
+			grandchildRolledBack = true;
+		});
+		const grandchildCommit = grandchild.commit();
+		let childCommitted = false;
+		child.once('commit', () => {
+			childCommitted = true;
+		});
+		const childCommit = child.commit();
+		parent.execute(insert('g'));
+		// Children are merged into their parent, their statements only run when it commits
+		await Promise.all([failingCommit, grandchildCommit, childCommit]).should.be.fulfilled;
+		expect(rolledBack).to.equal(false);
+		await parent.commit().should.be.fulfilled;
+		expect(rolledBack).to.equal(true);
+		expect(grandchildRolledBack).to.equal(true);
+		expect(childCommitted).to.equal(true);
+		expect(await names()).to.eql(['a', 'c', 'd', 'f', 'g']);
+
+		const sequential = await driver.transaction();
+		const nested = await sequential.transaction();
+		nested.execute(insert('i'));
+		await nested.commit().should.be.fulfilled;
+		sequential.execute(insert('j'));
+		await sequential.commit().should.be.fulfilled;
+		expect(await names()).to.eql(['a', 'c', 'd', 'f', 'g', 'i', 'j']);
+
+		const atomic = await driver.transaction();
+		atomic.execute(insert('h'));
+		atomic.execute(insert('a'));
+		await atomic.commit().should.be.rejected;
+		expect(await names()).to.eql(['a', 'c', 'd', 'f', 'g', 'i', 'j']);
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection('Sp'));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('read in transaction', async () => {
+		const setup = await driver.transaction();
+		setup.execute('CREATE TABLE Counter (name TEXT PRIMARY KEY, value INTEGER)');
+		setup.execute(q.insert<any>('Counter').add({ name: 'views', value: 0 }));
+		await setup.commit().should.be.fulfilled;
+
+		const select = q
+			.select<any>('value')
+			.from('Counter')
+			.where(q.eq('name', 'views'));
+		const increment = async () => {
+			const transaction = await driver.transaction();
+			const { results } = await transaction.execute<any>(select);
+			transaction.execute(
+				q
+					.update<any>('Counter')
+					.set({ value: results[0].value + 1 })
+					.where(q.eq('name', 'views'))
+			);
+			await transaction.commit();
+		};
+		await Promise.all([increment(), increment(), increment()]);
+		expect((await driver.execute<any>(select)).results[0].value).to.equal(3);
+
+		const transaction = await driver.transaction();
+		transaction.execute(q.insert<any>('Counter').add({ name: 'likes', value: 1 }));
+		const count = q.aggregate<any>(q.as(q.count('name'), 'count')).from('Counter');
+		expect((await transaction.execute<any>(count)).results[0].count).to.equal(2);
+		const child = await transaction.transaction();
+		child.execute(q.insert<any>('Counter').add({ name: 'shares', value: 1 }));
+		expect((await child.execute<any>(count)).results[0].count).to.equal(3);
+		await child.rollback();
+		expect((await transaction.execute<any>(count)).results[0].count).to.equal(2);
+		await transaction.commit().should.be.fulfilled;
+		expect((await driver.execute<any>(count)).results[0].count).to.equal(2);
+
+		const failing = await driver.transaction();
+		failing.execute(q.insert<any>('Counter').add({ name: 'comments', value: 0 }));
+		failing.execute(q.insert<any>('Counter').add({ name: 'views', value: 0 }));
+		await failing.execute<any>(count).should.be.rejected;
+		await failing.commit().should.be.rejected;
+		expect((await driver.execute<any>(count)).results[0].count).to.equal(2);
+
+		// Queries from outside wait for the interactive transaction to release the connection
+		const open = await driver.transaction();
+		open.execute(q.insert<any>('Counter').add({ name: 'dirty', value: 0 }));
+		expect((await open.execute<any>(count)).results[0].count).to.equal(3);
+		const outsideRead = driver.execute<any>(count);
+		const outsideWrite = driver.execute(`INSERT INTO Counter (name, value) VALUES ('outside', 0)`);
+		await open.rollback();
+		expect((await outsideRead).results[0].count).to.equal(2);
+		await outsideWrite.should.be.fulfilled;
+		expect((await driver.execute<any>(count)).results[0].count).to.equal(3);
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection('Counter'));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('foreign key', async () => {
+		const author = q.collection('Author', 'Fk');
+		const post = q.collection('Post', 'Fk');
+		const posts = async () =>
+			(await driver.execute<any>(q.select<any>('title').from(post))).results.map(({ title }) => title).sort();
+
+		const setup = await driver.transaction();
+		setup.execute(
+			q
+				.createCollection(author)
+				.define(
+					[q.column('id', ColumnType.Int, 64, null, true), q.column('name', ColumnType.Text)],
+					[q.index('Fk_Author_id', IndexType.Primary, [q.sort('id', 'asc')])]
+				)
+		);
+		setup.execute(
+			q
+				.createCollection(post)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title', ColumnType.Text),
+						q.column('author', ColumnType.Int, 64),
+					],
+					[q.index('Fk_Post_id', IndexType.Primary, [q.sort('id', 'asc')])],
+					[q.foreignKey('author', author, 'id', { onDelete: 'cascade' })]
+				)
+		);
+		setup.execute(
+			q
+				.insert<any>(author)
+				.add({ id: 1, name: 'Foo' })
+				.add({ id: 2, name: 'Bar' })
+		);
+		setup.execute(
+			q
+				.insert<any>(post)
+				.add({ title: 'A', author: 1 })
+				.add({ title: 'B', author: 1 })
+				.add({ title: 'C', author: 2 })
+		);
+		await setup.commit().should.be.fulfilled;
+
+		const description = await driver.execute(q.describeCollection(post));
+		expect(description.foreignKeys.length).to.equal(1);
+		expect(description.foreignKeys[0].columns.toArray()).to.eql(['author']);
+		expect(description.foreignKeys[0].collection.toString()).to.equal(author.toString());
+		expect(description.foreignKeys[0].refColumns.toArray()).to.eql(['id']);
+		expect(description.foreignKeys[0].onDelete).to.equal('cascade');
+		expect(description.foreignKeys[0].onUpdate).to.equal('noAction');
+
+		const dangling = await driver.transaction();
+		dangling.execute(q.insert<any>(post).add({ title: 'D', author: 3 }));
+		await dangling.commit().should.be.rejected;
+
+		const remove = await driver.transaction();
+		remove.execute(q.delete(author).where(q.eq('id', 1)));
+		await remove.commit().should.be.fulfilled;
+		expect(await posts()).to.eql(['C']);
+
+		// Rebuilding either side keeps the rows and the constraint
+		const rebuild = await driver.transaction();
+		rebuild.execute(q.alterCollection(author).addColumn(q.column('bio', ColumnType.Text)));
+		rebuild.execute(q.alterCollection(post).alterColumn('author', q.column('writer', ColumnType.Int, 64)));
+		await rebuild.commit().should.be.fulfilled;
+		expect(await posts()).to.eql(['C']);
+		const rebuilt = await driver.execute(q.describeCollection(post));
+		expect(rebuilt.foreignKeys.map(foreignKey => foreignKey.toString())).to.eql([
+			'FOREIGN KEY (writer) REFERENCES Fk__Author (id) ON DELETE cascade',
+		]);
+
+		const drop = await driver.transaction();
+		drop.execute(q.alterCollection(post).dropForeignKey('writer'));
+		await drop.commit().should.be.fulfilled;
+		expect((await driver.execute(q.describeCollection(post))).foreignKeys).to.eql([]);
+
+		const add = await driver.transaction();
+		add.execute(
+			q.alterCollection(post).addForeignKey(q.foreignKey('writer', author, 'id', { onDelete: 'setNull' }))
+		);
+		await add.commit().should.be.fulfilled;
+		const removeAgain = await driver.transaction();
+		removeAgain.execute(q.delete(author).where(q.eq('id', 2)));
+		await removeAgain.commit().should.be.fulfilled;
+		expect((await driver.execute<any>(q.select<any>('title', 'writer').from(post))).results).to.eql([
+			{ title: 'C', writer: null },
+		]);
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(post));
+		teardown.execute(q.dropCollection(author));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('column constraints', async () => {
+		const user = q.collection('User', 'Ck');
+		const columns = [
+			q.column('id', ColumnType.Int, 64, null, true),
+			q.column('name', ColumnType.Text, undefined, undefined, false, { nullable: false, collate: 'NOCASE' }),
+			q.column('role', ColumnType.Text, undefined, "it's a guest", false, {
+				check: q.in('role', ["it's a guest", 'admin']),
+			}),
+			q.column('age', ColumnType.Int, 64, 18, false, {
+				nullable: false,
+				check: q.and(q.gte('age', 18), q.lt('age', 150)),
+			}),
+		];
+
+		const setup = await driver.transaction();
+		setup.execute(
+			q.createCollection(user).define(columns, [q.index('Ck_User_id', IndexType.Primary, [q.sort('id', 'asc')])])
+		);
+		setup.execute(q.insert<any>(user).add({ name: 'Foo' }));
+		await setup.commit().should.be.fulfilled;
+
+		const constraints = (column: Column) => [
+			column.nullable,
+			column.defaultValue === undefined ? null : column.defaultValue,
+			`${column.check}`,
+			column.collate,
+		];
+		const description = await driver.execute(q.describeCollection(user));
+		expect(description.columns.map(constraints)).to.eql(columns.map(constraints));
+		expect(
+			(await driver.execute<any>(
+				q
+					.select<any>('role', 'age')
+					.from(user)
+					.where(q.eq('name', 'FOO'))
+			)).results
+		).to.eql([{ role: "it's a guest", age: 18 }]);
+
+		const missing = await driver.transaction();
+		missing.execute(q.insert<any>(user).add({ age: 20 }));
+		await missing.commit().should.be.rejected;
+
+		const invalid = await driver.transaction();
+		invalid.execute(q.insert<any>(user).add({ name: 'Bar', age: 12 }));
+		await invalid.commit().should.be.rejected;
+
+		// Rebuilding the table keeps the constraints
+		const rebuild = await driver.transaction();
+		rebuild.execute(q.alterCollection(user).dropColumn('role'));
+		await rebuild.commit().should.be.fulfilled;
+		const rebuilt = await driver.execute(q.describeCollection(user));
+		expect(rebuilt.columns.map(constraints)).to.eql([columns[0], columns[1], columns[3]].map(constraints));
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(user));
+		await teardown.commit().should.be.fulfilled;
+	});
+
+	it('column types', async () => {
+		const product = q.collection('Product', 'Ty');
+		const columns = [
+			q.column('id', ColumnType.Uuid),
+			q.column('price', ColumnType.Decimal, 10, undefined, false, { scale: 2 }),
+			q.column('opens', ColumnType.Time),
+			q.column('status', ColumnType.Enum, undefined, 'draft', false, {
+				values: ['draft', '1', '01', "it's out"],
+			}),
+			q.column('meta', ColumnType.Json),
+		];
+
+		const setup = await driver.transaction();
+		setup.execute(q.createCollection(product).define(columns, []));
+		setup.execute(
+			q.insert<any>(product).add({
+				id: '0b9a7c9e-0f3a-4c8e-9d5e-3f1c2b7a6d10',
+				price: '12.50',
+				opens: '08:30:00',
+				meta: { tags: ['a', 'b'], stock: 3 },
+			})
+		);
+		setup.execute(
+			q
+				.insert<any>(product)
+				.add({ id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479', price: 9.5, status: '1', meta: [1] })
+		);
+		setup.execute(
+			q.insert<any>(product).add({ id: '9c858901-8a57-4791-81fe-4c455b099bc9', price: '100.25', status: '01' })
+		);
+		expect((await setup.execute<any>(q.select<any>('status', 'meta').from(product))).results).to.eql([
+			{ status: 'draft', meta: { tags: ['a', 'b'], stock: 3 } },
+			{ status: '1', meta: [1] },
+			{ status: '01', meta: null },
+		]);
+		await setup.commit().should.be.fulfilled;
+
+		const definition = (column: Column) => [column.type, column.scale, column.values && column.values.toArray()];
+		const description = await driver.execute(q.describeCollection(product));
+		expect(description.columns.map(definition)).to.eql(columns.map(definition));
+		expect(description.columns[1].size).to.equal(10);
+
+		const select = q.select<any>().from(product);
+		expect((await driver.execute<any>(select)).results).to.eql([
+			{
+				id: '0b9a7c9e-0f3a-4c8e-9d5e-3f1c2b7a6d10',
+				price: 12.5,
+				opens: '08:30:00',
+				status: 'draft',
+				meta: { tags: ['a', 'b'], stock: 3 },
+			},
+			{ id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479', price: 9.5, opens: null, status: '1', meta: [1] },
+			{ id: '9c858901-8a57-4791-81fe-4c455b099bc9', price: 100.25, opens: null, status: '01', meta: null },
+		]);
+		// Decimals are compared and sorted as numbers
+		const prices = async (condition?: BinaryExpression) => {
+			const query = q
+				.select<any>('price')
+				.from(product)
+				.sort(q.sort('price', 'asc'));
+			const result = await driver.execute<any>(condition ? query.where(condition) : query);
+			return result.results.map(row => row.price);
+		};
+		expect(await prices()).to.eql([9.5, 12.5, 100.25]);
+		expect(await prices(q.gt('price', 10))).to.eql([12.5, 100.25]);
+		expect(await prices(q.between('price', 10, 50))).to.eql([12.5]);
+		expect(
+			(await driver.execute<any>(
+				q
+					.aggregate<any>(q.as('status', 'state'), q.as(q.count('id'), 'total'))
+					.from(product)
+					.group(q.field('status'))
+					.sort(q.sort('status', 'asc'))
+			)).results
+		).to.eql([{ state: '01', total: 1 }, { state: '1', total: 1 }, { state: 'draft', total: 1 }]);
+		for await (const row of driver.stream<any>(q.select<any>('meta').from(product))) {
+			expect(row.meta).to.not.be.a('string');
+		}
+
+		const invalid = await driver.transaction();
+		invalid.execute(q.insert<any>(product).add({ id: 'c56a4180-65aa-42ec-a945-5fd21dec0538', status: 'gone' }));
+		await invalid.commit().should.be.rejected;
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(product));
+		await teardown.commit().should.be.fulfilled;
+	});
+
 	it('delete', async () => {
 		const transaction = await driver.transaction();
 
@@ -265,4 +1338,152 @@ describe('SQLite', () => {
 
 		await transaction.commit().should.be.fulfilled;
 	});
+
+	it('namespaces', async () => {
+		const tmp = mkdtempSync(join(tmpdir(), 'konstellio-db-sqlite-'));
+		const database = await new DatabaseSQLite({
+			filename: join(tmp, 'main.sqlite'),
+			namespaces: { archive: join(tmp, 'archive.sqlite') },
+		}).connect();
+
+		const post = q.collection('Post');
+		const archived = q.collection('Post', 'archive');
+		const define = (collection: typeof post, prefix: string) =>
+			q
+				.createCollection(collection)
+				.define(
+					[
+						q.column('id', ColumnType.Int, 64, null, true),
+						q.column('title', ColumnType.Text),
+						q.column('author', ColumnType.Text),
+					],
+					[
+						q.index(`${prefix}_id`, IndexType.Primary, [q.sort('id', 'asc')]),
+						q.index(`${prefix}_title`, IndexType.FullText, [q.sort('title', 'asc')]),
+					]
+				);
+
+		const create = await database.transaction();
+		create.execute(define(post, 'Post'));
+		create.execute(define(archived, 'archive_Post'));
+		create.execute(q.insert(post).add({ title: 'Old post', author: 'foo' }));
+		create.execute(q.insert(post).add({ title: 'New post', author: 'bar' }));
+		await create.commit().should.be.fulfilled;
+
+		const shown: QueryShowCollectionResult = await database.execute(q.showCollection());
+		expect(shown.collections.map(collection => collection.toString())).to.eql(['Post']);
+		const attached: QueryShowCollectionResult = await database.execute(q.showCollection('archive'));
+		expect(attached.collections.map(collection => collection.toString())).to.eql(['archive__Post']);
+
+		// Archive old posts into the other file
+		const move = await database.transaction();
+		move.execute(q.insert(archived).add({ id: 1, title: 'Old post', author: 'foo' }));
+		move.execute(q.delete(post).where(q.eq('id', 1)));
+		await move.commit().should.be.fulfilled;
+
+		const titles = async (collection: typeof post) => {
+			const result: QuerySelectResult<any> = await database.execute<any>(q.select('title').from(collection));
+			return result.results.map(row => row.title);
+		};
+		expect(await titles(post)).to.eql(['New post']);
+		expect(await titles(archived)).to.eql(['Old post']);
+
+		// Both files are rolled back together
+		const failing = await database.transaction();
+		failing.execute(q.insert(archived).add({ id: 2, title: 'New post', author: 'bar' }));
+		failing.execute(q.delete(post).where(q.eq('id', 2)));
+		failing.execute(q.insert(archived).add({ id: 1, title: 'Duplicate', author: 'foo' }));
+		await failing.commit().should.be.rejected;
+		expect(await titles(post)).to.eql(['New post']);
+		expect(await titles(archived)).to.eql(['Old post']);
+
+		const update = await database.transaction();
+		update.execute(
+			q
+				.update(archived)
+				.set({ author: 'baz' })
+				.where(q.eq('id', 1))
+		);
+		await update.commit().should.be.fulfilled;
+
+		const joined: QuerySelectResult<any> = await database.execute<any>(
+			q
+				.select<any>('title', q.field('author', 'old'))
+				.from(post)
+				.join(
+					'old',
+					q.select<any>('author').from(archived),
+					q.ne(q.field('author', 'old'), q.field('author', 'Post'))
+				)
+		);
+		expect(joined.results).to.eql([{ title: 'New post', author: 'baz' }]);
+
+		const matched: QuerySelectResult<any> = await database.execute<any>(
+			q
+				.select<any>('id')
+				.from(archived)
+				.where(q.match<any>('title', 'old'))
+				.sort(q.sort(q.rank()))
+		);
+		expect(matched.results).to.eql([{ id: 1 }]);
+
+		const alter = await database.transaction();
+		alter.execute(q.alterCollection(archived).addColumn(q.column('archivedAt', ColumnType.Date)));
+		await alter.commit().should.be.fulfilled;
+
+		const desc: QueryDescribeCollectionResult = await database.execute(q.describeCollection(archived));
+		expect(desc.columns.map(column => column.name)).to.eql(['id', 'title', 'author', 'archivedAt']);
+		expect(desc.indexes.map(index => index.type)).to.eql([IndexType.Primary, IndexType.FullText]);
+		expect(await titles(archived)).to.eql(['Old post']);
+		expect((await database.execute(q.collectionExists(archived))).exists).to.equal(true);
+
+		const drop = await database.transaction();
+		drop.execute(q.dropCollection(archived));
+		await drop.commit().should.be.fulfilled;
+		expect((await database.execute(q.collectionExists(archived))).exists).to.equal(false);
+
+		await database.disconnect();
+	});
+
+	it('localized collections', async () => {
+		const file = q.collection('File', 'Bar');
+		const setup = await driver.transaction();
+		setup.execute(
+			q
+				.createCollection(file)
+				.define(
+					[
+						q.column('id', ColumnType.Text),
+						q.column('data', ColumnType.Blob),
+						q.column('size', ColumnType.Int),
+					],
+					[q.index('Bar_File_id', IndexType.Primary, [q.sort('id')])]
+				)
+		);
+		setup.execute(q.insert<any>(file).add({ id: 'a', data: Buffer.from('foo'), size: null }));
+		setup.execute(q.insert<any>(file).add({ id: 'b', data: Buffer.from('bar'), size: 3 }));
+		await setup.commit().should.be.fulfilled;
+
+		// Collections are localized in subqueries too
+		const cleanup = await driver.transaction();
+		cleanup.execute(
+			q.delete(file).where(
+				q.in(
+					'id',
+					q
+						.select('id')
+						.from(file)
+						.where(q.and(q.isNull('size'), q.eq('id', 'a')))
+				)
+			)
+		);
+		await cleanup.commit().should.be.fulfilled;
+
+		const result: QuerySelectResult<any> = await driver.execute<any>(q.select('id', 'data').from(file));
+		expect(result.results).to.eql([{ id: 'b', data: Buffer.from('bar') }]);
+
+		const teardown = await driver.transaction();
+		teardown.execute(q.dropCollection(file));
+		await teardown.commit().should.be.fulfilled;
+	});
 });
@@ -28,6 +28,14 @@ export abstract class Database {
 	abstract execute(query: Query.QueryDescribeCollection): Promise<Result.QueryDescribeCollectionResult>;
 	abstract execute(query: Query.QueryCollectionExists): Promise<Result.QueryCollectionExistsResult>;
 
+	abstract stream<T>(query: Query.QuerySelect, variables?: Query.Variables): AsyncIterableIterator<T>;
+	abstract stream<T>(query: Query.QueryAggregate, variables?: Query.Variables): AsyncIterableIterator<T>;
+	abstract stream<T>(query: Query.QueryUnion, variables?: Query.Variables): AsyncIterableIterator<T>;
+
+	abstract explain(query: Query.QuerySelect, variables?: Query.Variables): Promise<Result.QueryExplainResult>;
+	abstract explain(query: Query.QueryAggregate, variables?: Query.Variables): Promise<Result.QueryExplainResult>;
+	abstract explain(query: Query.QueryUnion, variables?: Query.Variables): Promise<Result.QueryExplainResult>;
+
 	abstract transaction(): Promise<Transaction>;
 
 	abstract compareTypes(aType: Query.ColumnType, aSize: number, bType: Query.ColumnType, bSize: number): Compare;
@@ -41,6 +49,18 @@ export abstract class Transaction extends EventEmitter {
 	abstract execute(query: Query.QueryCreateCollection): void;
 	abstract execute(query: Query.QueryAlterCollection): void;
 	abstract execute(query: Query.QueryDropCollection): void;
+	abstract execute(query: Query.QueryCreateView): void;
+	abstract execute(query: Query.QueryDropView): void;
+	abstract execute<T>(query: Query.QuerySelect, variables?: Query.Variables): Promise<Result.QuerySelectResult<T>>;
+	abstract execute<T>(
+		query: Query.QueryAggregate,
+		variables?: Query.Variables
+	): Promise<Result.QueryAggregateResult<T>>;
+
+	abstract savepoint(name: string): void;
+	abstract rollbackTo(name: string): void;
+	abstract release(name: string): void;
+	abstract transaction(): Promise<Transaction>;
 
 	abstract commit(): Promise<Result.QueryCommitResult>;
 	abstract rollback(): Promise<void>;
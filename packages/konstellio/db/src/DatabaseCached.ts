@@ -0,0 +1,186 @@
+import { Cache, encode, decode } from '@konstellio/cache';
+import { createHash } from 'crypto';
+import { Database } from './Database';
+import { DatabaseInterceptor, InterceptedQuery, InterceptedCommit } from './DatabaseInterceptor';
+import { q, QuerySelect, QueryAggregate, QueryInsert, QueryUpdate, QueryDelete } from './Query';
+import { QuerySelectResult, QueryAggregateResult } from './QueryResult';
+import { isSelectSQL } from './Utils';
+
+export type DatabaseCachedOptions = {
+	// Prefix of every key written in the cache
+	prefix?: string;
+	// Seconds before a result expires, or a function that decides it for each query and returns false
+	// for the queries that should not be cached
+	ttl?: number | ((query: QuerySelect | QueryAggregate) => number | false);
+};
+
+// Results are stored under a key that includes a generation number for each collection the query
+// reads. Committing a write increments the generations of the collections it touches, so the
+// stale results are never read again and are left to expire or be evicted.
+export class DatabaseCached extends DatabaseInterceptor {
+	public readonly options: DatabaseCachedOptions;
+	// Collections read by each view, or undefined when the driver can not tell the select of a view
+	private views?: Promise<Map<string, Set<string> | undefined>>;
+
+	constructor(database: Database, public readonly cache: Cache, options: DatabaseCachedOptions = {}) {
+		super(database, []);
+		this.options = options;
+		this.use({
+			execute: (query, next) => this.executeCached(query, next),
+			commit: (commit, next) => this.commitInvalidate(commit, next),
+		});
+	}
+
+	// Invalidates the cached results that read from these collections, or every cached result
+	async invalidate(collections?: string[]): Promise<void> {
+		const keys = collections
+			? collections.map(collection => this.generationKey(collection))
+			: [this.generationKey()];
+		await Promise.all(keys.map(key => this.cache.increment(key)));
+	}
+
+	private async executeCached(query: InterceptedQuery, next: (query: InterceptedQuery) => Promise<any>) {
+		if (typeof query.query === 'string') {
+			const result = await next(query);
+			// Raw queries might write to any collection
+			if (!isSelectSQL(query.query)) {
+				await this.invalidate();
+			}
+			return result;
+		}
+
+		if (
+			query.transaction ||
+			query.stream ||
+			!(query.query instanceof QuerySelect || query.query instanceof QueryAggregate)
+		) {
+			return next(query);
+		}
+
+		const ttl = typeof this.options.ttl === 'function' ? this.options.ttl(query.query) : this.options.ttl;
+		if (ttl === false) {
+			return next(query);
+		}
+
+		const key = await this.resultKey(query.query, query.variables);
+		if (key === undefined) {
+			return next(query);
+		}
+		const cached = await this.cache.get(key);
+		if (typeof cached === 'string') {
+			const results = decode(cached);
+			return query.query instanceof QueryAggregate
+				? new QueryAggregateResult(results)
+				: new QuerySelectResult(results);
+		}
+
+		const result: QuerySelectResult<any> | QueryAggregateResult<any> = await next(query);
+		await this.cache.set(key, encode(result.results), ttl);
+		return result;
+	}
+
+	private async commitInvalidate(commit: InterceptedCommit, next: (commit: InterceptedCommit) => Promise<any>) {
+		const result = await next(commit);
+		// Views are described again after the schema changed
+		if (
+			commit.queries.some(
+				({ query }) =>
+					!(query instanceof QueryInsert || query instanceof QueryUpdate || query instanceof QueryDelete)
+			)
+		) {
+			this.views = undefined;
+		}
+		if (commit.queries.some(query => typeof query.query === 'string')) {
+			await this.invalidate();
+		} else {
+			const collections = new Set<string>();
+			for (const query of commit.queries) {
+				collectionsOf(query.query, collections);
+			}
+			await this.invalidate(Array.from(collections));
+		}
+		return result;
+	}
+
+	private async resultKey(query: QuerySelect | QueryAggregate, variables?: any): Promise<string | undefined> {
+		const sources = await this.sourcesOf(collectionsOf(query.toJSON()));
+		if (sources === undefined) {
+			return undefined;
+		}
+		const collections = Array.from(sources).sort();
+		const generations = await Promise.all(
+			[undefined, ...collections].map(collection => this.cache.get(this.generationKey(collection)))
+		);
+		const hash = createHash('sha1')
+			.update(encode([query.toJSON(), variables, generations]))
+			.digest('hex');
+		return `${this.options.prefix || 'db:'}result:${hash}`;
+	}
+
+	// Collections read by a query, with the collections read by its views. Results of the views whose
+	// select is unknown could not be invalidated, they are not cached.
+	private async sourcesOf(collections: Set<string>): Promise<Set<string> | undefined> {
+		if (!this.views) {
+			this.views = this.describeViews();
+			this.views.catch(() => {
+				this.views = undefined;
+			});
+		}
+		const views = await this.views;
+
+		const sources = new Set<string>();
+		const pending = Array.from(collections);
+		while (pending.length) {
+			const collection = pending.pop()!;
+			if (!sources.has(collection)) {
+				sources.add(collection);
+				if (views.has(collection)) {
+					const viewSources = views.get(collection);
+					if (viewSources === undefined) {
+						return undefined;
+					}
+					pending.push(...Array.from(viewSources));
+				}
+			}
+		}
+		return sources;
+	}
+
+	private async describeViews(): Promise<Map<string, Set<string> | undefined>> {
+		const { views } = await this.database.execute(q.showCollection());
+		const descriptions = await Promise.all(views.map(view => this.database.execute(q.describeCollection(view))));
+		return new Map(
+			descriptions.map<[string, Set<string> | undefined]>(description => [
+				collectionName(description.collection),
+				description.view && collectionsOf(description.view),
+			])
+		);
+	}
+
+	private generationKey(collection?: string): string {
+		return `${this.options.prefix || 'db:'}generation:${collection === undefined ? '*' : collection}`;
+	}
+}
+
+// Collections referenced by a query or by its JSON
+function collectionsOf(json: any, collections: Set<string> = new Set()): Set<string> {
+	if (json && typeof json.toJSON === 'function') {
+		return collectionsOf(json.toJSON(), collections);
+	} else if (Array.isArray(json)) {
+		for (const item of json) {
+			collectionsOf(item, collections);
+		}
+	} else if (json && typeof json === 'object') {
+		if (json.kind === 'collection') {
+			collections.add(collectionName(json));
+		}
+		for (const key of Object.keys(json)) {
+			collectionsOf(json[key], collections);
+		}
+	}
+	return collections;
+}
+
+function collectionName(collection: { name: string; namespace?: string }): string {
+	return `${collection.namespace ? `${collection.namespace}__` : ''}${collection.name}`;
+}
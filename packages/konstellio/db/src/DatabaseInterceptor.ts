@@ -0,0 +1,257 @@
+import { Database, Transaction, Features, Compare } from './Database';
+import {
+	Query,
+	QuerySelect,
+	QueryAggregate,
+	QueryUnion,
+	QueryInsert,
+	QueryUpdate,
+	QueryDelete,
+	QueryShowCollection,
+	QueryDescribeCollection,
+	QueryCollectionExists,
+	QueryCreateCollection,
+	QueryAlterCollection,
+	QueryDropCollection,
+	QueryCreateView,
+	QueryDropView,
+	ColumnType,
+	Variables,
+	Primitive,
+} from './Query';
+import {
+	QuerySelectResult,
+	QueryAggregateResult,
+	QueryShowCollectionResult,
+	QueryDescribeCollectionResult,
+	QueryCollectionExistsResult,
+	QueryExplainResult,
+	QueryCommitResult,
+} from './QueryResult';
+
+export type InterceptedQuery = {
+	readonly query: Query | string;
+	readonly variables?: Variables | Primitive[];
+	// Set when the query is part of a transaction, writes are intercepted when the transaction is committed
+	readonly transaction?: Transaction;
+	// Streams resolve to the iterator of the rows once the stream started
+	readonly stream?: boolean;
+};
+
+export type InterceptedCommit = {
+	readonly transaction: Transaction;
+	readonly queries: InterceptedQuery[];
+};
+
+// Interceptors are called in order, each one decides if and how it calls the next one. They can
+// rewrite the query, measure or log it, handle its errors or resolve it without reaching the database.
+export interface Interceptor {
+	execute?(query: InterceptedQuery, next: (query: InterceptedQuery) => Promise<any>): Promise<any>;
+	commit?(
+		commit: InterceptedCommit,
+		next: (commit: InterceptedCommit) => Promise<QueryCommitResult>
+	): Promise<QueryCommitResult>;
+}
+
+function intercept<T>(
+	interceptors: Interceptor[],
+	hook: 'execute' | 'commit',
+	input: T,
+	last: (input: T) => Promise<any>
+): Promise<any> {
+	const dispatch = (index: number, input: T): Promise<any> => {
+		for (let i = index, l = interceptors.length; i < l; ++i) {
+			const interceptor = interceptors[i];
+			const handler = interceptor[hook] as
+				| ((input: T, next: (input: T) => Promise<any>) => Promise<any>)
+				| undefined;
+			if (handler) {
+				return new Promise(resolve =>
+					resolve(handler.call(interceptor, input, (next: T) => dispatch(i + 1, next)))
+				);
+			}
+		}
+		return new Promise(resolve => resolve(last(input)));
+	};
+	return dispatch(0, input);
+}
+
+export class DatabaseInterceptor extends Database {
+	constructor(public readonly database: Database, public readonly interceptors: Interceptor[] = []) {
+		super();
+	}
+
+	get features(): Features {
+		return this.database.features;
+	}
+
+	use(interceptor: Interceptor): DatabaseInterceptor {
+		this.interceptors.push(interceptor);
+		return this;
+	}
+
+	async connect(): Promise<DatabaseInterceptor> {
+		await this.database.connect();
+		return this;
+	}
+
+	disconnect(): Promise<void> {
+		return this.database.disconnect();
+	}
+
+	execute(query: string, variables?: (string | number | boolean | Date | null)[]): Promise<any>;
+	execute<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>>;
+	execute<T>(query: QueryUnion, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute(query: QueryShowCollection): Promise<QueryShowCollectionResult>;
+	execute(query: QueryDescribeCollection): Promise<QueryDescribeCollectionResult>;
+	execute(query: QueryCollectionExists): Promise<QueryCollectionExistsResult>;
+	execute(query: any, variables?: any): Promise<any> {
+		return intercept<InterceptedQuery>(this.interceptors, 'execute', { query, variables }, intercepted =>
+			this.database.execute(intercepted.query as any, intercepted.variables as any)
+		);
+	}
+
+	stream<T>(query: QuerySelect, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryAggregate, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryUnion, variables?: Variables): AsyncIterableIterator<T>;
+	async *stream<T>(query: any, variables?: any): AsyncIterableIterator<T> {
+		const rows: AsyncIterableIterator<T> = await intercept<InterceptedQuery>(
+			this.interceptors,
+			'execute',
+			{ query, variables, stream: true },
+			async intercepted => this.database.stream<T>(intercepted.query as any, intercepted.variables as any)
+		);
+		for await (const row of rows) {
+			yield row;
+		}
+	}
+
+	explain(query: QuerySelect, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryAggregate, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryUnion, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: any, variables?: any): Promise<QueryExplainResult> {
+		return this.database.explain(query, variables);
+	}
+
+	async transaction(): Promise<TransactionInterceptor> {
+		return new TransactionInterceptor(this, await this.database.transaction());
+	}
+
+	compareTypes(aType: ColumnType, aSize: number, bType: ColumnType, bSize: number): Compare {
+		return this.database.compareTypes(aType, aSize, bType, bSize);
+	}
+}
+
+export class TransactionInterceptor extends Transaction {
+	// Writes, savepoints and releases are replayed in order on the wrapped transaction
+	protected operations: (() => Promise<void>)[];
+	protected queries: InterceptedQuery[];
+
+	constructor(
+		public readonly database: DatabaseInterceptor,
+		public readonly inner: Transaction,
+		public readonly parent?: TransactionInterceptor
+	) {
+		super();
+		this.operations = [];
+		this.queries = [];
+	}
+
+	async transaction(): Promise<TransactionInterceptor> {
+		await this.flush();
+		return new TransactionInterceptor(this.database, await this.inner.transaction(), this);
+	}
+
+	savepoint(name: string): void {
+		this.operations.push(async () => this.inner.savepoint(name));
+	}
+
+	rollbackTo(name: string): void {
+		this.operations.push(async () => this.inner.rollbackTo(name));
+	}
+
+	release(name: string): void {
+		this.operations.push(async () => this.inner.release(name));
+	}
+
+	execute(query: string, variables?: (string | number | boolean | Date | null)[]): void;
+	execute(query: QueryInsert, variables?: Variables): void;
+	execute(query: QueryUpdate, variables?: Variables): void;
+	execute(query: QueryDelete, variables?: Variables): void;
+	execute(query: QueryCreateCollection): void;
+	execute(query: QueryAlterCollection): void;
+	execute(query: QueryDropCollection): void;
+	execute(query: QueryCreateView): void;
+	execute(query: QueryDropView): void;
+	execute<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>>;
+	execute(query: any, variables?: any): any {
+		if (query instanceof QuerySelect || query instanceof QueryAggregate) {
+			return this.flush().then(() =>
+				intercept<InterceptedQuery>(
+					this.database.interceptors,
+					'execute',
+					{ query, variables, transaction: this },
+					intercepted =>
+						this.inner.execute<any>(intercepted.query as QuerySelect, intercepted.variables as Variables)
+				)
+			);
+		}
+
+		this.operations.push(() =>
+			intercept<InterceptedQuery>(
+				this.database.interceptors,
+				'execute',
+				{ query, variables, transaction: this },
+				async intercepted => {
+					this.queries.push(intercepted);
+					this.inner.execute(intercepted.query as any, intercepted.variables as any);
+				}
+			)
+		);
+	}
+
+	async commit(): Promise<QueryCommitResult> {
+		try {
+			await this.flush();
+		} catch (err) {
+			await this.inner.rollback();
+			await this.emitAsync('rollback');
+			throw err;
+		}
+		let result: QueryCommitResult;
+		try {
+			// Children merge into their parent, their writes are intercepted when the root commits
+			if (this.parent) {
+				result = await this.inner.commit();
+				this.parent.queries.push(...this.queries);
+			} else {
+				result = await intercept<InterceptedCommit>(
+					this.database.interceptors,
+					'commit',
+					{ transaction: this, queries: this.queries.slice() },
+					() => this.inner.commit()
+				);
+			}
+		} catch (err) {
+			// Listeners are registered on the wrapped transaction, not on the inner one
+			await this.emitAsync('rollback');
+			throw err;
+		}
+		await this.emitAsync('commit', result);
+		return result;
+	}
+
+	async rollback(): Promise<void> {
+		this.operations = [];
+		await this.inner.rollback();
+		await this.emitAsync('rollback');
+	}
+
+	protected async flush(): Promise<void> {
+		while (this.operations.length) {
+			await this.operations.shift()!();
+		}
+	}
+}
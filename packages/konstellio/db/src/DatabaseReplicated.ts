@@ -0,0 +1,140 @@
+import { Database, Transaction, Features, Compare } from './Database';
+import { DatabaseInterceptor } from './DatabaseInterceptor';
+import {
+	QuerySelect,
+	QueryAggregate,
+	QueryUnion,
+	QueryShowCollection,
+	QueryDescribeCollection,
+	QueryCollectionExists,
+	ColumnType,
+	Variables,
+} from './Query';
+import {
+	QuerySelectResult,
+	QueryAggregateResult,
+	QueryShowCollectionResult,
+	QueryDescribeCollectionResult,
+	QueryCollectionExistsResult,
+	QueryExplainResult,
+} from './QueryResult';
+import { isSelectSQL } from './Utils';
+
+export type DatabaseReplicatedOptions = {
+	// Milliseconds during which reads are sent to the primary after a write, so that they see it
+	// even if the replicas did not catch up yet
+	stickyWindow?: number;
+};
+
+export class DatabaseReplicated extends Database {
+	public readonly options: DatabaseReplicatedOptions;
+
+	private readonly writer: DatabaseInterceptor;
+	private nextReplica: number;
+	private pinnedUntil: number;
+
+	constructor(
+		public readonly primary: Database,
+		public readonly replicas: Database[] = [],
+		options: DatabaseReplicatedOptions = {}
+	) {
+		super();
+		this.options = options;
+		this.nextReplica = 0;
+		this.pinnedUntil = 0;
+		this.writer = new DatabaseInterceptor(primary, [
+			{
+				commit: async (commit, next) => {
+					try {
+						return await next(commit);
+					} finally {
+						this.pin();
+					}
+				},
+			},
+		]);
+	}
+
+	get features(): Features {
+		return this.primary.features;
+	}
+
+	async connect(): Promise<DatabaseReplicated> {
+		await Promise.all([this.primary, ...this.replicas].map(database => database.connect()));
+		return this;
+	}
+
+	async disconnect(): Promise<void> {
+		await Promise.all([this.primary, ...this.replicas].map(database => database.disconnect()));
+	}
+
+	// Next replica in turn, or the primary when there are none or when reads are pinned to it
+	reader(): Database {
+		if (this.replicas.length === 0 || Date.now() < this.pinnedUntil) {
+			return this.primary;
+		}
+		const replica = this.replicas[this.nextReplica % this.replicas.length];
+		this.nextReplica = (this.nextReplica + 1) % this.replicas.length;
+		return replica;
+	}
+
+	execute(query: string, variables?: (string | number | boolean | Date | null)[]): Promise<any>;
+	execute<T>(query: QuerySelect, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute<T>(query: QueryAggregate, variables?: Variables): Promise<QueryAggregateResult<T>>;
+	execute<T>(query: QueryUnion, variables?: Variables): Promise<QuerySelectResult<T>>;
+	execute(query: QueryShowCollection): Promise<QueryShowCollectionResult>;
+	execute(query: QueryDescribeCollection): Promise<QueryDescribeCollectionResult>;
+	execute(query: QueryCollectionExists): Promise<QueryCollectionExistsResult>;
+	execute(query: any, variables?: any): Promise<any> {
+		if (
+			query instanceof QuerySelect ||
+			query instanceof QueryAggregate ||
+			query instanceof QueryUnion ||
+			(typeof query === 'string' && isSelectSQL(query))
+		) {
+			return this.reader().execute<any>(query as QuerySelect, variables);
+		} else if (typeof query === 'string') {
+			// Any other raw query might write
+			return this.primary.execute(query, variables).then(
+				result => {
+					this.pin();
+					return result;
+				},
+				err => {
+					this.pin();
+					throw err;
+				}
+			);
+		}
+		// The schema of the replicas might lag behind the primary
+		return this.primary.execute(query);
+	}
+
+	stream<T>(query: QuerySelect, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryAggregate, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: QueryUnion, variables?: Variables): AsyncIterableIterator<T>;
+	stream<T>(query: any, variables?: any): AsyncIterableIterator<T> {
+		return this.reader().stream<T>(query, variables);
+	}
+
+	explain(query: QuerySelect, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryAggregate, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: QueryUnion, variables?: Variables): Promise<QueryExplainResult>;
+	explain(query: any, variables?: any): Promise<QueryExplainResult> {
+		return this.reader().explain(query, variables);
+	}
+
+	transaction(): Promise<Transaction> {
+		return this.writer.transaction();
+	}
+
+	compareTypes(aType: ColumnType, aSize: number, bType: ColumnType, bSize: number): Compare {
+		return this.primary.compareTypes(aType, aSize, bType, bSize);
+	}
+
+	private pin(): void {
+		if (this.options.stickyWindow) {
+			this.pinnedUntil = Date.now() + this.options.stickyWindow;
+		}
+	}
+}
@@ -0,0 +1,526 @@
+import { q, NodeJSON, ValueJSON, QuerySelect, QueryAggregate, QueryUnion, BinaryExpression } from './Query';
+
+export class QuerySyntaxError extends Error {}
+
+type TokenType = 'identifier' | 'number' | 'string' | 'symbol' | 'end';
+
+type Token = {
+	type: TokenType;
+	value: string;
+	position: number;
+};
+
+const symbols = ['!=', '>=', '<=', '=', '>', '<', '(', ')', ',', '.', '*', '-'];
+
+const joinTypes = ['LEFT', 'RIGHT', 'FULL', 'CROSS'];
+
+const camelCaseFunctions: { [name: string]: string } = {
+	datetrunc: 'dateTrunc',
+};
+
+const aggregateFunctions = ['count', 'countDistinct', 'avg', 'sum'];
+
+const comparisonOperators: { [keyword: string]: string } = {
+	'=': '=',
+	'!=': '!=',
+	'>': '>',
+	'>=': '>=',
+	'<': '<',
+	'<=': '<=',
+	BEGINSWITH: 'beginsWith',
+	ENDSWITH: 'endsWith',
+	CONTAINS: 'contains',
+	LIKE: 'like',
+	MATCH: 'match',
+	BETWEEN: 'between',
+	IN: 'in',
+	NOTIN: 'notIn',
+	ISNULL: 'isNull',
+	ISNOTNULL: 'isNotNull',
+};
+
+function tokenize(dsl: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+
+	while (position < dsl.length) {
+		const char = dsl[position];
+		const rest = dsl.substr(position);
+		let match: RegExpMatchArray | null;
+
+		if (/\s/.test(char)) {
+			position += 1;
+		} else if ((match = rest.match(/^[A-Za-z_$][\w$]*/))) {
+			tokens.push({ position, type: 'identifier', value: match[0] });
+			position += match[0].length;
+		} else if ((match = rest.match(/^\d+(\.\d+)?/))) {
+			tokens.push({ position, type: 'number', value: match[0] });
+			position += match[0].length;
+		} else if (char === '"' || char === "'") {
+			let value = '';
+			let end = position + 1;
+			while (end < dsl.length && dsl[end] !== char) {
+				if (dsl[end] === '\\') {
+					end += 1;
+				}
+				value += dsl[end];
+				end += 1;
+			}
+			if (end >= dsl.length) {
+				throw new QuerySyntaxError(`Unterminated string at position ${position}.`);
+			}
+			tokens.push({ position, value, type: 'string' });
+			position = end + 1;
+		} else {
+			const symbol = symbols.find(symbol => rest.substr(0, symbol.length) === symbol);
+			if (!symbol) {
+				throw new QuerySyntaxError(`Unexpected character \`${char}\` at position ${position}.`);
+			}
+			tokens.push({ position, type: 'symbol', value: symbol });
+			position += symbol.length;
+		}
+	}
+
+	tokens.push({ position, type: 'end', value: '' });
+	return tokens;
+}
+
+class Parser {
+	protected readonly tokens: Token[];
+	protected index: number = 0;
+
+	// Binaries created by an operator, as opposed to those created by parenthesis
+	protected readonly bare = new WeakSet<NodeJSON>();
+
+	constructor(dsl: string) {
+		this.tokens = tokenize(dsl);
+	}
+
+	protected get token(): Token {
+		return this.tokens[this.index];
+	}
+
+	protected peek(offset: number = 1): Token {
+		return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+	}
+
+	protected unexpected(expected: string): QuerySyntaxError {
+		const found = this.token.type === 'end' ? 'end of input' : `\`${this.token.value}\``;
+		return new QuerySyntaxError(`Unexpected ${found} at position ${this.token.position}, expected ${expected}.`);
+	}
+
+	protected isKeyword(keyword: string, token: Token = this.token): boolean {
+		return token.type === 'identifier' && token.value.toUpperCase() === keyword;
+	}
+
+	protected isSymbol(symbol: string, token: Token = this.token): boolean {
+		return token.type === 'symbol' && token.value === symbol;
+	}
+
+	protected acceptKeyword(keyword: string): boolean {
+		if (this.isKeyword(keyword)) {
+			this.index += 1;
+			return true;
+		}
+		return false;
+	}
+
+	protected acceptSymbol(symbol: string): boolean {
+		if (this.isSymbol(symbol)) {
+			this.index += 1;
+			return true;
+		}
+		return false;
+	}
+
+	protected expectKeyword(keyword: string): void {
+		if (!this.acceptKeyword(keyword)) {
+			throw this.unexpected(keyword);
+		}
+	}
+
+	protected expectSymbol(symbol: string): void {
+		if (!this.acceptSymbol(symbol)) {
+			throw this.unexpected(`\`${symbol}\``);
+		}
+	}
+
+	protected expectIdentifier(): string {
+		if (this.token.type !== 'identifier') {
+			throw this.unexpected('an identifier');
+		}
+		const value = this.token.value;
+		this.index += 1;
+		return value;
+	}
+
+	protected expectInteger(): number {
+		if (this.token.type !== 'number' || this.token.value.indexOf('.') > -1) {
+			throw this.unexpected('an integer');
+		}
+		const value = parseInt(this.token.value, 10);
+		this.index += 1;
+		return value;
+	}
+
+	expectEnd(): void {
+		if (this.token.type !== 'end') {
+			throw this.unexpected('end of input');
+		}
+	}
+
+	parseQuery(): NodeJSON {
+		if (this.isSymbol('(')) {
+			return this.parseUnion();
+		}
+		return this.parseSelect();
+	}
+
+	protected parseUnion(): NodeJSON {
+		const selects: NodeJSON[] = [];
+		do {
+			this.expectSymbol('(');
+			const select = this.parseSelect();
+			if (select.kind !== 'select') {
+				throw new QuerySyntaxError(`Union can only contain simple select queries.`);
+			}
+			selects.push(select);
+			this.expectSymbol(')');
+		} while (this.acceptKeyword('UNION'));
+
+		if (selects.length < 2) {
+			throw this.unexpected('UNION');
+		}
+
+		const union: NodeJSON = { selects, kind: 'union' };
+		this.parseRange(union);
+		return union;
+	}
+
+	protected parseSelect(): NodeJSON {
+		this.expectKeyword('SELECT');
+
+		const select: NodeJSON = { kind: 'select' };
+		let aggregate = false;
+
+		if (this.acceptKeyword('DISTINCT')) {
+			select.distinct = true;
+		}
+
+		if (!this.acceptSymbol('*')) {
+			select.fields = this.parseList(() => {
+				const field = this.parseOperand();
+				if (this.acceptKeyword('AS')) {
+					aggregate = aggregate || isAggregate(field);
+					return { field, kind: 'as', alias: this.expectIdentifier() };
+				} else if (field.kind === 'function') {
+					throw new QuerySyntaxError(`Function ${field.fn} must be aliased.`);
+				}
+				return field;
+			});
+		}
+
+		if (this.acceptKeyword('FROM')) {
+			select.collection = this.parseCollection();
+		}
+
+		while (
+			this.isKeyword('JOIN') ||
+			(joinTypes.some(type => this.isKeyword(type)) && this.isKeyword('JOIN', this.peek()))
+		) {
+			select.joins = select.joins || [];
+			select.joins.push(this.parseJoin());
+		}
+
+		if (this.acceptKeyword('WHERE')) {
+			select.conditions = this.parseConditions();
+		}
+
+		if (this.acceptKeyword('GROUP')) {
+			this.expectKeyword('BY');
+			aggregate = true;
+			select.groups = this.parseList(() => this.parseOperand());
+		}
+
+		if (this.acceptKeyword('HAVING')) {
+			aggregate = true;
+			select.having = this.parseConditions();
+		}
+
+		if (this.acceptKeyword('SORT') || this.acceptKeyword('ORDER')) {
+			this.expectKeyword('BY');
+			select.sorts = this.parseSorts();
+		}
+
+		this.parseRange(select);
+
+		if (aggregate) {
+			select.kind = 'aggregate';
+		}
+		return select;
+	}
+
+	protected parseRange(query: NodeJSON): void {
+		while (this.isKeyword('OFFSET') || this.isKeyword('LIMIT')) {
+			if (this.acceptKeyword('OFFSET')) {
+				query.offset = this.expectInteger();
+			} else if (this.acceptKeyword('LIMIT')) {
+				query.limit = this.expectInteger();
+			}
+		}
+	}
+
+	protected parseJoin(): { [key: string]: any } {
+		const type = this.isKeyword('JOIN') ? 'inner' : this.expectIdentifier().toLowerCase();
+		this.expectKeyword('JOIN');
+		this.expectSymbol('(');
+		const query = this.parseSelect();
+		if (query.kind !== 'select') {
+			throw new QuerySyntaxError(`Join can only contain simple select queries.`);
+		}
+		this.expectSymbol(')');
+		this.expectKeyword('AS');
+		const alias = this.expectIdentifier();
+
+		const join: { [key: string]: any } = { type, alias, query };
+		if (this.acceptKeyword('ON')) {
+			join.on = this.parseCondition();
+		}
+		return join;
+	}
+
+	protected parseCollection(): NodeJSON {
+		const identifier = this.expectIdentifier();
+		const separator = identifier.indexOf('__');
+		if (separator > 0) {
+			return {
+				kind: 'collection',
+				namespace: identifier.substr(0, separator),
+				name: identifier.substr(separator + 2),
+			};
+		}
+		return { kind: 'collection', name: identifier };
+	}
+
+	protected parseSorts(): NodeJSON[] {
+		return this.parseList(() => {
+			const field = this.parseOperand();
+			let direction = 'asc';
+			if (this.acceptKeyword('DESC')) {
+				direction = 'desc';
+			} else {
+				this.acceptKeyword('ASC');
+			}
+			return { field, direction, kind: 'sort' };
+		});
+	}
+
+	protected parseList<T>(parseItem: () => T): T[] {
+		const items = [parseItem()];
+		while (this.acceptSymbol(',')) {
+			items.push(parseItem());
+		}
+		return items;
+	}
+
+	protected parseConditions(): NodeJSON {
+		const condition = this.parseCondition();
+		return condition.kind === 'binary' ? condition : { kind: 'binary', operator: 'and', operands: [condition] };
+	}
+
+	parseCondition(): NodeJSON {
+		return this.parseBinary('OR', () =>
+			this.parseBinary('XOR', () => this.parseBinary('AND', () => this.parseNot()))
+		);
+	}
+
+	protected parseBinary(keyword: string, parseOperand: () => NodeJSON): NodeJSON {
+		const operands = [parseOperand()];
+		while (this.acceptKeyword(keyword)) {
+			operands.push(parseOperand());
+		}
+		if (operands.length === 1) {
+			return operands[0];
+		}
+		const binary = { operands, kind: 'binary', operator: keyword.toLowerCase() };
+		this.bare.add(binary);
+		return binary;
+	}
+
+	protected parseNot(): NodeJSON {
+		if (this.isKeyword('NOT') && !this.isKeyword('EXISTS', this.peek())) {
+			this.index += 1;
+			const binary = { kind: 'binary', operator: 'not', operands: [this.parseNot()] };
+			this.bare.add(binary);
+			return binary;
+		}
+		return this.parsePredicate();
+	}
+
+	protected parsePredicate(): NodeJSON {
+		if (this.isKeyword('EXISTS') || this.isKeyword('NOT')) {
+			const negated = this.acceptKeyword('NOT');
+			this.expectKeyword('EXISTS');
+			return { negated, kind: 'exists', query: this.parseSubquery() };
+		}
+
+		if (this.isSymbol('(') && !this.isKeyword('SELECT', this.peek())) {
+			this.index += 1;
+			const condition = this.parseCondition();
+			this.expectSymbol(')');
+			if (this.bare.has(condition)) {
+				this.bare.delete(condition);
+				return condition;
+			}
+			return { kind: 'binary', operator: 'and', operands: [condition] };
+		}
+
+		return this.parseComparison();
+	}
+
+	protected parseComparison(): NodeJSON {
+		const field = this.parseOperand();
+		const token = this.token;
+		const operator =
+			token.type === 'symbol' || token.type === 'identifier'
+				? comparisonOperators[token.value.toUpperCase()]
+				: undefined;
+
+		if (!operator) {
+			throw this.unexpected('a comparison operator');
+		}
+		this.index += 1;
+
+		let args: ValueJSON[] = [];
+		if (operator === 'between') {
+			args.push(this.parseValue());
+			this.expectKeyword('AND');
+			args.push(this.parseValue());
+		} else if (operator === 'in' || operator === 'notIn' || operator === 'match') {
+			if (this.isSymbol('(') && !this.isKeyword('SELECT', this.peek())) {
+				this.index += 1;
+				args = this.parseList(() => this.parseValue());
+				this.expectSymbol(')');
+			} else {
+				args = this.parseList(() => this.parseValue());
+			}
+		} else if (operator !== 'isNull' && operator !== 'isNotNull') {
+			args.push(this.parseValue());
+		}
+
+		return { field, operator, args, kind: 'comparison' };
+	}
+
+	protected parseSubquery(): NodeJSON {
+		this.expectSymbol('(');
+		const query = this.parseSelect();
+		if (query.kind !== 'select') {
+			throw new QuerySyntaxError(`Subquery can only be a simple select query.`);
+		}
+		this.expectSymbol(')');
+		return query;
+	}
+
+	protected parseValue(): ValueJSON {
+		const token = this.token;
+
+		if (token.type === 'string') {
+			this.index += 1;
+			return token.value;
+		} else if (token.type === 'number' || (this.isSymbol('-') && this.peek().type === 'number')) {
+			const negative = this.acceptSymbol('-');
+			const value = parseFloat(this.token.value);
+			this.index += 1;
+			return negative ? -value : value;
+		} else if (this.isSymbol('(')) {
+			return this.parseSubquery();
+		} else if (this.acceptKeyword('NULL')) {
+			return null;
+		} else if (this.acceptKeyword('TRUE')) {
+			return true;
+		} else if (this.acceptKeyword('FALSE')) {
+			return false;
+		} else if (this.isKeyword('VAR') && this.isSymbol('(', this.peek())) {
+			this.index += 2;
+			const name = this.expectIdentifier();
+			this.expectSymbol(')');
+			return { name, kind: 'var' };
+		}
+		return this.parseOperand();
+	}
+
+	protected parseOperand(): NodeJSON {
+		if (this.isKeyword('CASE') && this.isKeyword('WHEN', this.peek())) {
+			return this.parseCase();
+		}
+		if (this.token.type === 'identifier' && this.isSymbol('(', this.peek())) {
+			const name = this.expectIdentifier().toLowerCase();
+			let fn = camelCaseFunctions[name] || name;
+			this.expectSymbol('(');
+			if (this.acceptKeyword('DISTINCT')) {
+				if (fn !== 'count') {
+					throw new QuerySyntaxError(`DISTINCT is only supported within COUNT.`);
+				}
+				fn = 'countDistinct';
+			}
+			const args = this.isSymbol(')') ? [] : this.parseList(() => this.parseValue());
+			this.expectSymbol(')');
+			return { fn, args, kind: 'function' };
+		}
+		return this.parseField();
+	}
+
+	protected parseCase(): NodeJSON {
+		this.expectKeyword('CASE');
+		const args: ValueJSON[] = [];
+		while (this.acceptKeyword('WHEN')) {
+			args.push(this.parseCondition());
+			this.expectKeyword('THEN');
+			args.push(this.parseValue());
+		}
+		args.push(this.acceptKeyword('ELSE') ? this.parseValue() : null);
+		this.expectKeyword('END');
+		return { args, kind: 'function', fn: 'case' };
+	}
+
+	protected parseField(): NodeJSON {
+		const name = this.expectIdentifier();
+		if (this.acceptSymbol('.')) {
+			return { kind: 'field', name: this.expectIdentifier(), alias: name };
+		}
+		return { name, kind: 'field' };
+	}
+}
+
+function isAggregate(json: ValueJSON): boolean {
+	if (json === null || typeof json !== 'object' || json.kind !== 'function') {
+		return false;
+	} else if (aggregateFunctions.indexOf(json.fn) > -1 || (/^(max|min)$/.test(json.fn) && json.args.length === 1)) {
+		return true;
+	}
+	return json.args.some(isAggregate);
+}
+
+function build<T>(json: NodeJSON): T {
+	try {
+		return q.fromJSON<T>(json);
+	} catch (err) {
+		throw new QuerySyntaxError(err.message);
+	}
+}
+
+// Parses the language printed by the queries' toString(). Bare words are read as fields
+// and string literals must be quoted, either with double or single quotes.
+export function parseQuery<F = any, I = any>(dsl: string): QuerySelect<F, I> | QueryAggregate<F, I> | QueryUnion<F, I> {
+	const parser = new Parser(dsl);
+	const json = parser.parseQuery();
+	parser.expectEnd();
+	return build(json);
+}
+
+export function parseCondition<I = any>(dsl: string): BinaryExpression<I> {
+	const parser = new Parser(dsl);
+	const json = parser.parseCondition();
+	parser.expectEnd();
+	return build(json);
+}
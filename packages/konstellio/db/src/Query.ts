@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { Map, List } from 'immutable';
+import { Map, List, is } from 'immutable';
 import { isArray } from 'util';
 
 function isKeyOf<T = any>(value: any): value is keyof T {
@@ -8,7 +8,7 @@ function isKeyOf<T = any>(value: any): value is keyof T {
 
 // tslint:disable:class-name
 export class q {
-	public static select<F = any, I = any>(...fields: (keyof F | Field<F>)[]) {
+	public static select<F = any, I = any>(...fields: (keyof F | Field<F> | FieldAs<F>)[]) {
 		return new QuerySelect<F, I>().select(...fields);
 	}
 
@@ -32,8 +32,8 @@ export class q {
 		return new QueryDelete<I>().from(name);
 	}
 
-	public static showCollection() {
-		return new QueryShowCollection();
+	public static showCollection(namespace?: string) {
+		return new QueryShowCollection(namespace);
 	}
 
 	public static createCollection(name: string | Collection) {
@@ -56,18 +56,67 @@ export class q {
 		return new QueryDropCollection(typeof name === 'string' ? new Collection(name) : name);
 	}
 
+	public static createView(name: string | Collection, select: QuerySelect) {
+		assert(select instanceof QuerySelect);
+
+		return new QueryCreateView(typeof name === 'string' ? new Collection(name) : name, select);
+	}
+
+	public static dropView(name: string | Collection) {
+		return new QueryDropView(typeof name === 'string' ? new Collection(name) : name);
+	}
+
 	public static collection(name: string, namespace?: string) {
 		return new Collection(name, namespace);
 	}
 
-	public static column(name: string, type: ColumnType, size?: number, defaultValue?: any, autoIncrement?: boolean) {
-		return new Column(name, type, size, defaultValue, autoIncrement);
+	public static column(
+		name: string,
+		type: ColumnType,
+		size?: number,
+		defaultValue?: any,
+		autoIncrement?: boolean,
+		{
+			nullable,
+			check,
+			collate,
+			scale,
+			values,
+		}: { nullable?: boolean; check?: BinaryExpression; collate?: string; scale?: number; values?: string[] } = {}
+	) {
+		return new Column(
+			name,
+			type,
+			size,
+			defaultValue,
+			autoIncrement,
+			nullable,
+			check,
+			collate,
+			scale,
+			values && List(values)
+		);
 	}
 
 	public static index(name: string, type: IndexType, columns?: FieldDirection[]) {
 		return new Index(name, type, List(columns || []));
 	}
 
+	public static foreignKey(
+		columns: string | string[],
+		collection: string | Collection,
+		refColumns: string | string[],
+		{ onDelete, onUpdate }: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {}
+	) {
+		return new ForeignKey(
+			List(typeof columns === 'string' ? [columns] : columns),
+			typeof collection === 'string' ? new Collection(collection) : collection,
+			List(typeof refColumns === 'string' ? [refColumns] : refColumns),
+			onDelete,
+			onUpdate
+		);
+	}
+
 	public static var(name: string) {
 		return new Variable(name);
 	}
@@ -76,8 +125,10 @@ export class q {
 		return new Field<F>(name, alias);
 	}
 
-	public static sort<I = any>(field: keyof I | Field<I>, direction: Direction = 'asc') {
-		return new FieldDirection<I>(isKeyOf(field) ? new Field(field) : field, direction);
+	public static sort<I = any>(field: keyof I | Field<I>, direction?: Direction): FieldDirection<I>;
+	public static sort<I = any>(field: Function<I>, direction?: Direction): FieldDirection<I, Function<I>>;
+	public static sort<I = any>(field: keyof I | Field<I> | Function<I>, direction: Direction = 'asc') {
+		return new FieldDirection<I, Field<I> | Function<I>>(isKeyOf(field) ? new Field(field) : field, direction);
 	}
 
 	public static as<F = any>(field: keyof F | Field<F> | Function<F>, alias: string) {
@@ -88,6 +139,10 @@ export class q {
 		return new FunctionCount<F>(List([isKeyOf(field) ? new Field(field) : field]));
 	}
 
+	public static countDistinct<F = any>(field: keyof F | Field<F>) {
+		return new FunctionCountDistinct<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
 	public static avg<F = any>(...args: Value<F>[]) {
 		return new FunctionAvg<F>(List<Value<F>>(args));
 	}
@@ -112,9 +167,87 @@ export class q {
 		return new FunctionConcat<F>(List<Value<F>>(args));
 	}
 
+	public static lower<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionLower<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static upper<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionUpper<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	// Classes can not declare a static length, LENGTH() is built with q.len
+	public static len<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionLength<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static trim<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionTrim<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static substr<F = any>(field: keyof F | Field<F> | Function<F>, start: Value<F>, length?: Value<F>) {
+		assert(start !== undefined);
+
+		const args: Value<F>[] = [isKeyOf(field) ? new Field(field) : field, start];
+		return new FunctionSubstr<F>(List(length === undefined ? args : args.concat([length])));
+	}
+
+	public static coalesce<F = any>(field: keyof F | Field<F> | Function<F>, ...fallbacks: Value<F>[]) {
+		assert(fallbacks.length > 0);
+
+		return new FunctionCoalesce<F>(List<Value<F>>([isKeyOf(field) ? new Field(field) : field, ...fallbacks]));
+	}
+
+	public static abs<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionAbs<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static round<F = any>(field: keyof F | Field<F> | Function<F>, digits?: Value<F>) {
+		const args: Value<F>[] = [isKeyOf(field) ? new Field(field) : field];
+		return new FunctionRound<F>(List(digits === undefined ? args : args.concat([digits])));
+	}
+
+	public static add<F = any>(...args: Value<F>[]) {
+		return new FunctionAdd<F>(List<Value<F>>(args));
+	}
+
+	public static mul<F = any>(...args: Value<F>[]) {
+		return new FunctionMul<F>(List<Value<F>>(args));
+	}
+
+	public static div<F = any>(dividend: Value<F>, divisor: Value<F>) {
+		return new FunctionDiv<F>(List<Value<F>>([dividend, divisor]));
+	}
+
+	public static year<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionYear<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static month<F = any>(field: keyof F | Field<F> | Function<F>) {
+		return new FunctionMonth<F>(List([isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static dateTrunc<F = any>(unit: DateTruncUnit, field: keyof F | Field<F> | Function<F>) {
+		return new FunctionDateTrunc<F>(List<Value<F>>([unit, isKeyOf(field) ? new Field(field) : field]));
+	}
+
+	public static case<F = any>(cases: [BinaryExpression<F>, Value<F>][], otherwise: Value<F> = null) {
+		assert(cases.length > 0 && cases.filter(([condition]) => !isBinaryExpression(condition)).length === 0);
+
+		return new FunctionCase<F>(
+			List<Value<F>>(
+				cases.reduce<Value<F>[]>((args, [condition, value]) => args.concat([condition as any, value]), [])
+			).push(otherwise)
+		);
+	}
+
+	// Relevance of the rows found by a full-text match, lower is more relevant
+	public static rank<F = any>() {
+		return new FunctionRank<F>(List());
+	}
+
 	public static eq<F = any, K extends keyof F = any>(
 		field: K | Field<F> | Function<F>,
-		value: F[K] | Field<F> | Function<F>
+		value: F[K] | Field<F> | Function<F> | QuerySelect
 	) {
 		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
 		assert(value !== undefined);
@@ -124,7 +257,7 @@ export class q {
 
 	public static ne<F = any, K extends keyof F = any>(
 		field: K | Field<F> | Function<F>,
-		value: F[K] | Field<F> | Function<F>
+		value: F[K] | Field<F> | Function<F> | QuerySelect
 	) {
 		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
 		assert(value !== undefined);
@@ -134,7 +267,7 @@ export class q {
 
 	public static gt<F = any, K extends keyof F = any>(
 		field: K | Field<F> | Function<F>,
-		value: F[K] | Field<F> | Function<F>
+		value: F[K] | Field<F> | Function<F> | QuerySelect
 	) {
 		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
 		assert(value !== undefined);
@@ -144,7 +277,7 @@ export class q {
 
 	public static gte<F = any, K extends keyof F = any>(
 		field: K | Field<F> | Function<F>,
-		value: F[K] | Field<F> | Function<F>
+		value: F[K] | Field<F> | Function<F> | QuerySelect
 	) {
 		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
 		assert(value !== undefined);
@@ -154,7 +287,7 @@ export class q {
 
 	public static lt<F = any, K extends keyof F = any>(
 		field: K | Field<F> | Function<F>,
-		value: F[K] | Field<F> | Function<F>
+		value: F[K] | Field<F> | Function<F> | QuerySelect
 	) {
 		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
 		assert(value !== undefined);
@@ -164,7 +297,7 @@ export class q {
 
 	public static lte<F = any, K extends keyof F = any>(
 		field: K | Field<F> | Function<F>,
-		value: F[K] | Field<F> | Function<F>
+		value: F[K] | Field<F> | Function<F> | QuerySelect
 	) {
 		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
 		assert(value !== undefined);
@@ -192,32 +325,146 @@ export class q {
 		return new ComparisonBeginsWith<F>(isKeyOf(field) ? new Field(field) : field, List([value as any]));
 	}
 
-	public static and<I = any>(...operands: BinaryExpression<I>[]) {
-		assert(
-			operands.length > 0 &&
-				operands.filter(op => !(op instanceof Binary || op instanceof Comparison)).length === 0
+	public static notIn<F = any, K extends keyof F = any>(
+		field: K | Field<F> | Function<F>,
+		values: F[K] | Value<F> | Value<F>[]
+	) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+
+		return new ComparisonNotIn<F>(
+			isKeyOf(field) ? new Field(field) : field,
+			List(isArray(values) ? values : [values as Value])
 		);
+	}
+
+	public static isNull<F = any, K extends keyof F = any>(field: K | Field<F> | Function<F>) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+
+		return new ComparisonIsNull<F>(isKeyOf(field) ? new Field(field) : field, List());
+	}
+
+	public static isNotNull<F = any, K extends keyof F = any>(field: K | Field<F> | Function<F>) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+
+		return new ComparisonIsNotNull<F>(isKeyOf(field) ? new Field(field) : field, List());
+	}
+
+	public static endsWith<F = any, K extends keyof F = any>(field: K | Field<F> | Function<F>, value: F[K]) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+		assert(value !== undefined);
+
+		return new ComparisonEndsWith<F>(isKeyOf(field) ? new Field(field) : field, List([value as any]));
+	}
+
+	public static contains<F = any, K extends keyof F = any>(field: K | Field<F> | Function<F>, value: F[K]) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+		assert(value !== undefined);
+
+		return new ComparisonContains<F>(isKeyOf(field) ? new Field(field) : field, List([value as any]));
+	}
+
+	public static like<F = any, K extends keyof F = any>(
+		field: K | Field<F> | Function<F>,
+		pattern: string | Variable
+	) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+		assert(typeof pattern === 'string' || pattern instanceof Variable);
+
+		return new ComparisonLike<F>(isKeyOf(field) ? new Field(field) : field, List([pattern]));
+	}
+
+	public static between<F = any, K extends keyof F = any>(
+		field: K | Field<F> | Function<F>,
+		min: F[K] | Value<F>,
+		max: F[K] | Value<F>
+	) {
+		assert(typeof field === 'string' || field instanceof Field || field instanceof Function);
+		assert(min !== undefined && max !== undefined);
+
+		return new ComparisonBetween<F>(isKeyOf(field) ? new Field(field) : field, List([min as Value, max as Value]));
+	}
+
+	public static match<F = any, K extends keyof F = any>(
+		fields: K | Field<F> | (K | Field<F>)[],
+		text: string | Variable
+	) {
+		const list = (Array.isArray(fields) ? fields : [fields]).map(field =>
+			isKeyOf(field) ? new Field<F>(field) : field
+		);
+		assert(list.length > 0 && list.filter(field => !(field instanceof Field)).length === 0);
+		assert(typeof text === 'string' || text instanceof Variable);
+
+		return new ComparisonMatch<F>(
+			list[0],
+			List<Value<F>>([text])
+				.concat(list.slice(1))
+				.toList()
+		);
+	}
+
+	public static exists<I = any>(query: QuerySelect) {
+		assert(query instanceof QuerySelect);
+
+		return new Exists<I>(query);
+	}
+
+	public static notExists<I = any>(query: QuerySelect) {
+		assert(query instanceof QuerySelect);
+
+		return new Exists<I>(query, true);
+	}
+
+	public static and<I = any>(...operands: BinaryExpression<I>[]) {
+		assert(operands.length > 0 && operands.filter(op => !isBinaryExpression(op)).length === 0);
 
 		return new Binary<I>('and', List(operands));
 	}
 
 	public static or<I = any>(...operands: BinaryExpression<I>[]) {
-		assert(
-			operands.length > 0 &&
-				operands.filter(op => !(op instanceof Binary || op instanceof Comparison)).length === 0
-		);
+		assert(operands.length > 0 && operands.filter(op => !isBinaryExpression(op)).length === 0);
 
 		return new Binary<I>('or', List(operands));
 	}
 
 	public static xor<I = any>(...operands: BinaryExpression<I>[]) {
-		assert(
-			operands.length > 0 &&
-				operands.filter(op => !(op instanceof Binary || op instanceof Comparison)).length === 0
-		);
+		assert(operands.length > 0 && operands.filter(op => !isBinaryExpression(op)).length === 0);
 
 		return new Binary<I>('xor', List(operands));
 	}
+
+	public static not<I = any>(operand: BinaryExpression<I>) {
+		assert(isBinaryExpression(operand));
+
+		return new Binary<I>('not', List([operand]));
+	}
+
+	// Condition of the rows that come after the row of the cursor in the order of these sorts. The last
+	// sort should be on a unique field, rows that tie on every sort would be skipped.
+	public static after<I = any>(cursor: string, sorts: FieldDirection<I>[] | List<FieldDirection<I>>) {
+		return cursorToBinary<I>(cursor, List<FieldDirection<I>>(sorts), false);
+	}
+
+	public static before<I = any>(cursor: string, sorts: FieldDirection<I>[] | List<FieldDirection<I>>) {
+		return cursorToBinary<I>(cursor, List<FieldDirection<I>>(sorts), true);
+	}
+
+	public static cursor<I = any>(row: any, sorts: FieldDirection<I>[] | List<FieldDirection<I>>): string {
+		const fields = List<FieldDirection<I>>(sorts).map(sort => sort!.field);
+		assert(fields.count() > 0 && fields.every(field => field instanceof Field));
+
+		const values = fields.map(field => {
+			const value = row[field!.name];
+			if (value === undefined) {
+				throw new Error(`Expected the row to have a value for ${field!.toString()}.`);
+			}
+			return valueToJSON(value);
+		});
+		return Buffer.from(JSON.stringify(values.toArray())).toString('base64');
+	}
+
+	public static fromJSON<T = any>(json: string | NodeJSON): T {
+		return nodeFromJSON(typeof json === 'string' ? JSON.parse(json) : json);
+	}
 }
 
 export class Collection {
@@ -243,6 +490,10 @@ export class Collection {
 	public toString(): string {
 		return `${this.namespace ? `${this.namespace}__` : ''}${this.name}`;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({ kind: 'collection', name: this.name, namespace: this.namespace });
+	}
 }
 
 export enum ColumnType {
@@ -255,6 +506,11 @@ export enum ColumnType {
 	Blob = 'blob',
 	Date = 'date',
 	DateTime = 'datetime',
+	Time = 'time',
+	Decimal = 'decimal',
+	Uuid = 'uuid',
+	Json = 'json',
+	Enum = 'enum',
 }
 
 export class Column {
@@ -263,19 +519,40 @@ export class Column {
 		public readonly type: ColumnType,
 		public readonly size?: number,
 		public readonly defaultValue?: any,
-		public readonly autoIncrement: boolean = false
+		public readonly autoIncrement: boolean = false,
+		public readonly nullable: boolean = true,
+		public readonly check?: BinaryExpression,
+		public readonly collate?: string,
+		public readonly scale?: number,
+		public readonly values?: List<string>
 	) {
 		assert(typeof name === 'string');
 		assert(typeof type === 'string');
 		assert(size === undefined || typeof size === 'number');
 		assert(autoIncrement === undefined || typeof autoIncrement === 'boolean');
+		assert(nullable === undefined || typeof nullable === 'boolean');
+		assert(collate === undefined || typeof collate === 'string');
+		assert(scale === undefined || typeof scale === 'number');
+		assert(values === undefined || values instanceof List);
+		assert(type !== ColumnType.Enum || (values !== undefined && values.count() > 0));
 	}
 
 	public rename(name: string) {
 		assert(typeof name === 'string');
 
 		if (name !== this.name) {
-			return new Column(name, this.type, this.size, this.defaultValue, this.autoIncrement);
+			return new Column(
+				name,
+				this.type,
+				this.size,
+				this.defaultValue,
+				this.autoIncrement,
+				this.nullable,
+				this.check,
+				this.collate,
+				this.scale,
+				this.values
+			);
 		}
 		return this;
 	}
@@ -284,7 +561,18 @@ export class Column {
 		assert(typeof size === 'number' && size > 0);
 
 		if (size !== this.size) {
-			return new Column(this.name, this.type, size, this.defaultValue, this.autoIncrement);
+			return new Column(
+				this.name,
+				this.type,
+				size,
+				this.defaultValue,
+				this.autoIncrement,
+				this.nullable,
+				this.check,
+				this.collate,
+				this.scale,
+				this.values
+			);
 		}
 		return this;
 	}
@@ -295,14 +583,42 @@ export class Column {
 			this.type === column.type &&
 			this.size === column.size &&
 			this.defaultValue === column.defaultValue &&
-			this.autoIncrement === column.autoIncrement
+			this.autoIncrement === column.autoIncrement &&
+			this.nullable === column.nullable &&
+			this.collate === column.collate &&
+			this.scale === column.scale &&
+			is(this.values, column.values) &&
+			JSON.stringify(this.check) === JSON.stringify(column.check)
 		);
 	}
 
 	public toString(): string {
-		return `${this.name} ${this.type.toString().toUpperCase()}${this.size ? `(${this.size})` : ''}${
-			this.defaultValue ? ` DEFAULT(${this.defaultValue})` : ''
-		}${this.autoIncrement ? ' AUTOINCREMENT' : ''}`;
+		const params = this.values
+			? `(${this.values.join(', ')})`
+			: this.size
+			? `(${this.size}${this.scale !== undefined ? `, ${this.scale}` : ''})`
+			: '';
+		return `${this.name} ${this.type.toString().toUpperCase()}${params}${
+			this.defaultValue ? ` DEFAULT(${valueToString(this.defaultValue)})` : ''
+		}${this.autoIncrement ? ' AUTOINCREMENT' : ''}${this.nullable ? '' : ' NOT NULL'}${
+			this.collate ? ` COLLATE ${this.collate}` : ''
+		}${this.check ? ` CHECK(${this.check.toString()})` : ''}`;
+	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'column',
+			name: this.name,
+			type: this.type,
+			size: this.size,
+			defaultValue: valueToJSON(this.defaultValue),
+			autoIncrement: this.autoIncrement,
+			nullable: this.nullable,
+			check: this.check && this.check.toJSON(),
+			collate: this.collate,
+			scale: this.scale,
+			values: this.values && this.values.toArray(),
+		});
 	}
 }
 
@@ -310,6 +626,7 @@ export enum IndexType {
 	Primary = 'primary',
 	Unique = 'unique',
 	Index = 'index',
+	FullText = 'fulltext',
 }
 
 export class Index {
@@ -339,10 +656,64 @@ export class Index {
 			.map(c => (c ? c.toString() : ''))
 			.join(', ')})`;
 	}
+
+	public toJSON(): NodeJSON {
+		return {
+			kind: 'index',
+			name: this.name,
+			type: this.type,
+			columns: this.columns.map(column => column!.toJSON()).toArray(),
+		};
+	}
+}
+
+export type ReferentialAction = 'noAction' | 'restrict' | 'cascade' | 'setNull' | 'setDefault';
+
+export class ForeignKey {
+	constructor(
+		public readonly columns: List<string>,
+		public readonly collection: Collection,
+		public readonly refColumns: List<string>,
+		public readonly onDelete: ReferentialAction = 'noAction',
+		public readonly onUpdate: ReferentialAction = 'noAction'
+	) {
+		assert(columns instanceof List && columns.count() > 0);
+		assert(collection instanceof Collection);
+		assert(refColumns instanceof List && refColumns.count() === columns.count());
+	}
+
+	public equal(foreignKey: ForeignKey): boolean {
+		return (
+			this.columns.equals(foreignKey.columns) &&
+			this.collection.toString() === foreignKey.collection.toString() &&
+			this.refColumns.equals(foreignKey.refColumns) &&
+			this.onDelete === foreignKey.onDelete &&
+			this.onUpdate === foreignKey.onUpdate
+		);
+	}
+
+	public toString(): string {
+		return `FOREIGN KEY (${this.columns.join(
+			', '
+		)}) REFERENCES ${this.collection.toString()} (${this.refColumns.join(', ')})${
+			this.onDelete !== 'noAction' ? ` ON DELETE ${this.onDelete}` : ''
+		}${this.onUpdate !== 'noAction' ? ` ON UPDATE ${this.onUpdate}` : ''}`;
+	}
+
+	public toJSON(): NodeJSON {
+		return {
+			kind: 'foreignKey',
+			columns: this.columns.toArray(),
+			collection: this.collection.toJSON(),
+			refColumns: this.refColumns.toArray(),
+			onDelete: this.onDelete,
+			onUpdate: this.onUpdate,
+		};
+	}
 }
 
 export type Primitive = string | number | boolean | Date | null;
-export type Value<T = any> = Variable | Field<T> | Function<T> | Primitive;
+export type Value<T = any> = Variable | Field<T> | Function<T> | QuerySelect | Primitive;
 export type Variables = { [key: string]: Primitive | Primitive[] };
 
 export class Variable {
@@ -357,6 +728,10 @@ export class Variable {
 	public toString(): string {
 		return `VAR(${this.name})`;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'var', name: this.name };
+	}
 }
 
 export class Field<T = any> {
@@ -382,17 +757,21 @@ export class Field<T = any> {
 	public toString(): string {
 		return `${this.alias ? `${this.alias}.` : ''}${this.name}`;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({ kind: 'field', name: this.name, alias: this.alias });
+	}
 }
 
 export type Direction = 'asc' | 'desc';
 
-export class FieldDirection<T = any> {
-	constructor(public readonly field: Field<T>, public readonly direction: Direction = 'asc') {
-		assert(field instanceof Field);
+export class FieldDirection<T = any, F extends Field<T> | Function<T> = Field<T>> {
+	constructor(public readonly field: F, public readonly direction: Direction = 'asc') {
+		assert(field instanceof Field || field instanceof Function);
 		assert(direction === 'asc' || direction === 'desc');
 	}
 
-	public sort(direction: Direction): FieldDirection<T> {
+	public sort(direction: Direction): FieldDirection<T, F> {
 		assert(direction === 'asc' || direction === 'desc');
 
 		if (direction !== this.direction) {
@@ -401,29 +780,36 @@ export class FieldDirection<T = any> {
 		return this;
 	}
 
-	public rename(name: Field<T>): FieldDirection<T>;
-	public rename(name: keyof T, alias?: string): FieldDirection<T>;
-	public rename(name: keyof T | Field<T>, alias?: string): FieldDirection<T> {
+	public rename(name: Field<T>): FieldDirection<T, F>;
+	public rename(name: keyof T, alias?: string): FieldDirection<T, F>;
+	public rename(name: keyof T | Field<T>, alias?: string): FieldDirection<T, F> {
 		assert(typeof name === 'string' || name instanceof Field);
 		assert(alias === undefined || typeof alias === 'string');
 
+		if (!(this.field instanceof Field)) {
+			return this;
+		}
 		if (name instanceof Field) {
-			return new FieldDirection(name, this.direction);
+			return new FieldDirection<T, any>(name, this.direction);
 		}
 		const renamed = this.field.rename(name, alias);
 		if (renamed !== this.field) {
-			return new FieldDirection(renamed, this.direction);
+			return new FieldDirection<T, any>(renamed, this.direction);
 		}
 		return this;
 	}
 
-	public equal(field: FieldDirection): boolean {
+	public equal(field: FieldDirection<any, any>): boolean {
 		return this.field === field.field && this.direction === field.direction;
 	}
 
 	public toString(): string {
 		return `${this.field.toString()} ${this.direction.toUpperCase()}`;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'sort', field: this.field.toJSON(), direction: this.direction };
+	}
 }
 
 export abstract class Function<T = any> {
@@ -460,7 +846,11 @@ export abstract class Function<T = any> {
 	}
 
 	public toString(): string {
-		return `${this.fn.toUpperCase()}(${this.args.map(arg => arg && arg.toString()).join(', ')})`;
+		return `${this.fn.toUpperCase()}(${this.args.map(arg => valueToString(arg)).join(', ')})`;
+	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'function', fn: this.fn, args: this.args.map(valueToJSON).toArray() };
 	}
 }
 
@@ -470,6 +860,16 @@ export class FunctionCount<T = any> extends Function<T> {
 	}
 }
 
+export class FunctionCountDistinct<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('countDistinct', args);
+	}
+
+	public toString(): string {
+		return `COUNT(DISTINCT ${this.args.map(arg => valueToString(arg)).join(', ')})`;
+	}
+}
+
 export class FunctionAvg<T = any> extends Function<T> {
 	constructor(args: List<Value<T>>) {
 		super('avg', args);
@@ -506,6 +906,136 @@ export class FunctionConcat<T = any> extends Function<T> {
 	}
 }
 
+export class FunctionLower<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('lower', args);
+	}
+}
+
+export class FunctionUpper<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('upper', args);
+	}
+}
+
+export class FunctionLength<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('length', args);
+	}
+}
+
+export class FunctionTrim<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('trim', args);
+	}
+}
+
+export class FunctionSubstr<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('substr', args);
+	}
+}
+
+export class FunctionCoalesce<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('coalesce', args);
+	}
+}
+
+export class FunctionAbs<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('abs', args);
+	}
+}
+
+export class FunctionRound<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('round', args);
+	}
+}
+
+export class FunctionAdd<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('add', args);
+	}
+}
+
+export class FunctionMul<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('mul', args);
+	}
+}
+
+export class FunctionDiv<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('div', args);
+	}
+}
+
+export class FunctionYear<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('year', args);
+	}
+}
+
+export class FunctionMonth<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('month', args);
+	}
+}
+
+export type DateTruncUnit = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second';
+
+export const dateTruncUnits: DateTruncUnit[] = ['year', 'month', 'day', 'hour', 'minute', 'second'];
+
+export class FunctionDateTrunc<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('dateTrunc', args);
+		assert(dateTruncUnits.indexOf(args.get(0) as DateTruncUnit) > -1);
+	}
+
+	public get unit(): DateTruncUnit {
+		return this.args.get(0) as DateTruncUnit;
+	}
+
+	public toString(): string {
+		return `DATETRUNC('${this.unit}', ${this.args.get(1)!.toString()})`;
+	}
+}
+
+// Arguments alternate between a condition and its value, the last argument is the value
+// used when no condition matches.
+export class FunctionCase<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('case', args);
+		assert(args.size % 2 === 1);
+	}
+
+	public get cases(): [BinaryExpression<T>, Value<T>][] {
+		const cases: [BinaryExpression<T>, Value<T>][] = [];
+		for (let i = 0, l = this.args.size - 1; i < l; i += 2) {
+			cases.push([(this.args.get(i) as any) as BinaryExpression<T>, this.args.get(i + 1)!]);
+		}
+		return cases;
+	}
+
+	public get otherwise(): Value<T> {
+		return this.args.last()!;
+	}
+
+	public toString(): string {
+		return `CASE ${this.cases
+			.map(([condition, value]) => `WHEN ${condition.toString()} THEN ${valueToString(value)}`)
+			.join(' ')} ELSE ${valueToString(this.otherwise)} END`;
+	}
+}
+
+export class FunctionRank<T = any> extends Function<T> {
+	constructor(args: List<Value<T>>) {
+		super('rank', args);
+	}
+}
+
 export class FieldAs<T = any> {
 	constructor(public readonly field: Field<T> | Function<T>, public readonly alias: string) {
 		assert(field instanceof Field || field instanceof Function);
@@ -529,9 +1059,29 @@ export class FieldAs<T = any> {
 	public toString(): string {
 		return `${this.field.toString()} AS ${this.alias}`;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'as', field: this.field.toJSON(), alias: this.alias };
+	}
 }
 
-export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'beginsWith' | 'in';
+export type ComparisonOperator =
+	| '='
+	| '!='
+	| '>'
+	| '>='
+	| '<'
+	| '<='
+	| 'beginsWith'
+	| 'endsWith'
+	| 'contains'
+	| 'like'
+	| 'match'
+	| 'between'
+	| 'in'
+	| 'notIn'
+	| 'isNull'
+	| 'isNotNull';
 
 export abstract class Comparison<T = any> {
 	constructor(
@@ -548,7 +1098,15 @@ export abstract class Comparison<T = any> {
 				operator === '<' ||
 				operator === '<=' ||
 				operator === 'beginsWith' ||
-				operator === 'in'
+				operator === 'endsWith' ||
+				operator === 'contains' ||
+				operator === 'like' ||
+				operator === 'match' ||
+				operator === 'between' ||
+				operator === 'in' ||
+				operator === 'notIn' ||
+				operator === 'isNull' ||
+				operator === 'isNotNull'
 		);
 		assert(args instanceof List);
 	}
@@ -614,9 +1172,18 @@ export abstract class Comparison<T = any> {
 
 	public toString(): string {
 		return `${this.field.toString()} ${this.operator} ${this.args
-			.map(arg => (arg ? arg.toString() : 'NULL'))
+			.map(arg => (arg instanceof QuerySelect ? `(${arg.toString()})` : valueToString(arg)))
 			.join(', ')}`;
 	}
+
+	public toJSON(): NodeJSON {
+		return {
+			kind: 'comparison',
+			operator: this.operator,
+			field: this.field.toJSON(),
+			args: this.args.map(valueToJSON).toArray(),
+		};
+	}
 }
 
 export class ComparisonEqual<T = any> extends Comparison<T> {
@@ -661,22 +1228,116 @@ export class ComparisonBeginsWith<T = any> extends Comparison<T> {
 	}
 }
 
+export class ComparisonEndsWith<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
+		super(field, 'endsWith', args);
+	}
+}
+
+export class ComparisonContains<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
+		super(field, 'contains', args);
+	}
+}
+
+export class ComparisonLike<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
+		super(field, 'like', args);
+	}
+}
+
+// Full-text search of the text in the field and the fields that follow the text in the arguments
+export class ComparisonMatch<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
+		super(field, 'match', args);
+		assert(field instanceof Field && args.size > 0);
+	}
+
+	public get fields(): Field<T>[] {
+		return [this.field as Field<T>].concat(this.args.rest().toArray() as Field<T>[]);
+	}
+
+	public get text(): Value<T> {
+		return this.args.first();
+	}
+}
+
+export class ComparisonBetween<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
+		super(field, 'between', args);
+	}
+
+	public toString(): string {
+		return `${this.field.toString()} between ${this.args.map(arg => valueToString(arg)).join(' and ')}`;
+	}
+}
+
 export class ComparisonIn<T = any> extends Comparison<T> {
 	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
 		super(field, 'in', args);
 	}
 }
 
-export type BinaryOperator = 'and' | 'or' | 'xor';
-export type BinaryExpression<T = any> = Binary<T> | Comparison<T>;
+export class ComparisonNotIn<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>>) {
+		super(field, 'notIn', args);
+	}
+}
+
+export class ComparisonIsNull<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>> = List()) {
+		super(field, 'isNull', args);
+	}
+
+	public toString(): string {
+		return `${this.field.toString()} isNull`;
+	}
+}
+
+export class ComparisonIsNotNull<T = any> extends Comparison<T> {
+	constructor(field: Field<T> | Function<T>, args: List<Value<T>> = List()) {
+		super(field, 'isNotNull', args);
+	}
+
+	public toString(): string {
+		return `${this.field.toString()} isNotNull`;
+	}
+}
+
+export class Exists<T = any> {
+	constructor(public readonly query: QuerySelect, public readonly negated: boolean = false) {
+		assert(query instanceof QuerySelect);
+		assert(typeof negated === 'boolean');
+	}
+
+	public equal(exists: Exists<T>): boolean {
+		return this.query === exists.query && this.negated === exists.negated;
+	}
+
+	public toString(): string {
+		return `${this.negated ? 'NOT ' : ''}EXISTS (${this.query.toString()})`;
+	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'exists', query: this.query.toJSON(), negated: this.negated };
+	}
+}
+
+export type BinaryOperator = 'and' | 'or' | 'xor' | 'not';
+export type BinaryExpression<T = any> = Binary<T> | Comparison<T> | Exists<T>;
+
+function isBinaryExpression(expr: any): expr is BinaryExpression {
+	return expr instanceof Binary || expr instanceof Comparison || expr instanceof Exists;
+}
 
 export class Binary<T = any> {
 	constructor(
 		public readonly operator: BinaryOperator,
 		public readonly operands: List<BinaryExpression<T>> = List()
 	) {
-		assert(operator === 'and' || operator === 'or' || operator === 'xor');
+		assert(operator === 'and' || operator === 'or' || operator === 'xor' || operator === 'not');
 		assert(operands instanceof List);
+		assert(operator !== 'not' || operands.count() <= 1);
 	}
 
 	public isLeaf() {
@@ -684,13 +1345,13 @@ export class Binary<T = any> {
 	}
 
 	public add(expr: BinaryExpression<T>): Binary<T> {
-		assert(expr instanceof Binary || expr instanceof Comparison);
+		assert(isBinaryExpression(expr));
 
 		return new Binary(this.operator, this.operands.push(expr));
 	}
 
 	public remove(expr: BinaryExpression<T>): Binary<T> {
-		assert(expr instanceof Binary || expr instanceof Comparison);
+		assert(isBinaryExpression(expr));
 
 		if (this.operands.contains(expr)) {
 			return new Binary<T>(this.operator, this.operands.filter(op => op !== expr).toList());
@@ -699,8 +1360,8 @@ export class Binary<T = any> {
 	}
 
 	public replace(search: BinaryExpression<T>, replace: BinaryExpression<T>, deep: boolean = false): Binary<T> {
-		assert(search instanceof Binary || search instanceof Comparison);
-		assert(replace instanceof Binary || replace instanceof Comparison);
+		assert(isBinaryExpression(search));
+		assert(isBinaryExpression(replace));
 		assert(typeof deep === 'boolean');
 
 		return this.visit(op => {
@@ -750,18 +1411,34 @@ export class Binary<T = any> {
 	}
 
 	public toString(): string {
+		if (this.operator === 'not') {
+			return `(NOT ${this.operands.map(op => op!.toString()).join('')})`;
+		}
 		return `(${this.operands.map(op => op!.toString()).join(` ${this.operator.toUpperCase()} `)})`;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'binary', operator: this.operator, operands: this.operands.map(op => op!.toJSON()).toArray() };
+	}
 }
 
 export class Query {}
 
+export type JoinType = 'inner' | 'left' | 'right' | 'full' | 'cross';
+
 export type Join<F = any, I = any> = {
+	type: JoinType;
 	alias: string;
-	on: BinaryExpression;
+	on?: BinaryExpression;
 	query: QuerySelect<F, I>;
 };
 
+function joinToString(join: Join): string {
+	const type = join.type === 'inner' ? '' : `${join.type.toUpperCase()} `;
+	const on = join.on ? ` ON ${join.on.toString()}` : '';
+	return `${type}JOIN (${join.query.toString()}) AS ${join.alias}${on}`;
+}
+
 export class QuerySelect<F = any, I = any> extends Query {
 	// @ts-ignore
 	private type: 'select';
@@ -771,9 +1448,10 @@ export class QuerySelect<F = any, I = any> extends Query {
 		public readonly collection?: Collection,
 		public readonly joins?: List<Join>,
 		public readonly conditions?: Binary<I>,
-		public readonly sorts?: List<FieldDirection<I>>,
+		public readonly sorts?: List<FieldDirection<I, Field<I> | Function<I>>>,
 		public readonly limit?: number,
-		public readonly offset = 0
+		public readonly offset = 0,
+		public readonly isDistinct = false
 	) {
 		super();
 	}
@@ -786,7 +1464,8 @@ export class QuerySelect<F = any, I = any> extends Query {
 			this.conditions,
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct
 		);
 	}
 
@@ -801,25 +1480,55 @@ export class QuerySelect<F = any, I = any> extends Query {
 					this.conditions,
 					this.sorts,
 					this.limit,
-					this.offset
+					this.offset,
+					this.isDistinct
 				);
 			}
 		} else if (name !== this.collection) {
-			return new QuerySelect(this.fields, name, this.joins, this.conditions, this.sorts, this.limit, this.offset);
+			return new QuerySelect(
+				this.fields,
+				name,
+				this.joins,
+				this.conditions,
+				this.sorts,
+				this.limit,
+				this.offset,
+				this.isDistinct
+			);
 		}
 		return this;
 	}
 
 	public join(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QuerySelect<F, I> {
-		const join: Join = { alias, query, on };
+		return this.addJoin({ alias, query, on, type: 'inner' });
+	}
+
+	public leftJoin(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QuerySelect<F, I> {
+		return this.addJoin({ alias, query, on, type: 'left' });
+	}
+
+	public rightJoin(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QuerySelect<F, I> {
+		return this.addJoin({ alias, query, on, type: 'right' });
+	}
+
+	public fullJoin(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QuerySelect<F, I> {
+		return this.addJoin({ alias, query, on, type: 'full' });
+	}
+
+	public crossJoin(alias: string, query: QuerySelect<F, I>): QuerySelect<F, I> {
+		return this.addJoin({ alias, query, type: 'cross' });
+	}
+
+	protected addJoin(join: Join<F, I>): QuerySelect<F, I> {
 		return new QuerySelect(
 			this.fields,
 			this.collection,
-			this.joins ? this.joins.push(join) : List(join),
+			this.joins ? this.joins.push(join) : List([join]),
 			this.conditions,
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct
 		);
 	}
 
@@ -828,14 +1537,31 @@ export class QuerySelect<F = any, I = any> extends Query {
 			this.fields,
 			this.collection,
 			this.joins,
-			condition instanceof Comparison ? new Binary('and', List([condition])) : condition,
+			condition instanceof Binary ? condition : new Binary('and', List([condition])),
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct
 		);
 	}
 
-	public sort(...fields: FieldDirection<I>[]): QuerySelect<F, I> {
+	public distinct(distinct = true): QuerySelect<F, I> {
+		if (distinct !== this.isDistinct) {
+			return new QuerySelect(
+				this.fields,
+				this.collection,
+				this.joins,
+				this.conditions,
+				this.sorts,
+				this.limit,
+				this.offset,
+				distinct
+			);
+		}
+		return this;
+	}
+
+	public sort(...fields: FieldDirection<I, Field<I> | Function<I>>[]): QuerySelect<F, I> {
 		return new QuerySelect(
 			this.fields,
 			this.collection,
@@ -843,7 +1569,8 @@ export class QuerySelect<F = any, I = any> extends Query {
 			this.conditions,
 			List(fields),
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct
 		);
 	}
 
@@ -856,7 +1583,8 @@ export class QuerySelect<F = any, I = any> extends Query {
 				this.conditions,
 				this.sorts,
 				limit !== undefined ? limit : this.limit,
-				offset !== undefined ? offset : this.offset
+				offset !== undefined ? offset : this.offset,
+				this.isDistinct
 			);
 		}
 		return this;
@@ -867,9 +1595,9 @@ export class QuerySelect<F = any, I = any> extends Query {
 		indent = multiline && indent ? indent : '';
 
 		const newline = multiline ? `\n` : ' ';
-		let query = `${indent}SELECT `;
+		let query = `${indent}SELECT ${this.isDistinct ? 'DISTINCT ' : ''}`;
 
-		if (this.fields) {
+		if (this.fields && this.fields.count() > 0) {
 			query += this.fields.map<string>(field => (field ? field.toString() : ``)).join(', ');
 		} else {
 			query += `*`;
@@ -880,16 +1608,7 @@ export class QuerySelect<F = any, I = any> extends Query {
 		}
 
 		if (this.joins) {
-			query += this.joins
-				.map<string>(join => {
-					if (join) {
-						return `${newline}${indent}JOIN (${join.query.toString()}) AS ${
-							join.alias
-						} ON ${join.on.toString()}`;
-					}
-					return '';
-				})
-				.join('');
+			query += this.joins.map<string>(join => (join ? `${newline}${indent}${joinToString(join)}` : '')).join('');
 		}
 
 		if (this.conditions) {
@@ -910,6 +1629,23 @@ export class QuerySelect<F = any, I = any> extends Query {
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'select',
+			fields:
+				this.fields && this.fields.count() > 0
+					? this.fields.map(field => field!.toJSON()).toArray()
+					: undefined,
+			collection: this.collection && this.collection.toJSON(),
+			joins: this.joins && this.joins.map(join => joinToJSON(join!)).toArray(),
+			conditions: this.conditions && this.conditions.toJSON(),
+			sorts: this.sorts && this.sorts.map(sort => sort!.toJSON()).toArray(),
+			limit: this.limit,
+			offset: this.offset,
+			distinct: this.isDistinct,
+		});
+	}
 }
 
 export class QueryAggregate<F = any, I = any> extends Query {
@@ -922,9 +1658,11 @@ export class QueryAggregate<F = any, I = any> extends Query {
 		public readonly joins?: List<Join>,
 		public readonly conditions?: Binary<I>,
 		public readonly groups?: List<Field<I> | Function<I>>,
-		public readonly sorts?: List<FieldDirection<I>>,
+		public readonly sorts?: List<FieldDirection<I, Field<I> | Function<I>>>,
 		public readonly limit?: number,
-		public readonly offset = 0
+		public readonly offset = 0,
+		public readonly isDistinct = false,
+		public readonly havingConditions?: Binary<I>
 	) {
 		super();
 	}
@@ -938,7 +1676,9 @@ export class QueryAggregate<F = any, I = any> extends Query {
 			this.groups,
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct,
+			this.havingConditions
 		);
 	}
 
@@ -954,7 +1694,9 @@ export class QueryAggregate<F = any, I = any> extends Query {
 					this.groups,
 					this.sorts,
 					this.limit,
-					this.offset
+					this.offset,
+					this.isDistinct,
+					this.havingConditions
 				);
 			}
 		} else if (name !== this.collection) {
@@ -966,14 +1708,35 @@ export class QueryAggregate<F = any, I = any> extends Query {
 				this.groups,
 				this.sorts,
 				this.limit,
-				this.offset
+				this.offset,
+				this.isDistinct,
+				this.havingConditions
 			);
 		}
 		return this;
 	}
 
 	public join(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QueryAggregate<F, I> {
-		const join: Join = { alias, query, on };
+		return this.addJoin({ alias, query, on, type: 'inner' });
+	}
+
+	public leftJoin(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QueryAggregate<F, I> {
+		return this.addJoin({ alias, query, on, type: 'left' });
+	}
+
+	public rightJoin(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QueryAggregate<F, I> {
+		return this.addJoin({ alias, query, on, type: 'right' });
+	}
+
+	public fullJoin(alias: string, query: QuerySelect<F, I>, on: BinaryExpression<I>): QueryAggregate<F, I> {
+		return this.addJoin({ alias, query, on, type: 'full' });
+	}
+
+	public crossJoin(alias: string, query: QuerySelect<F, I>): QueryAggregate<F, I> {
+		return this.addJoin({ alias, query, type: 'cross' });
+	}
+
+	protected addJoin(join: Join<F, I>): QueryAggregate<F, I> {
 		return new QueryAggregate(
 			this.fields,
 			this.collection,
@@ -982,7 +1745,9 @@ export class QueryAggregate<F = any, I = any> extends Query {
 			this.groups,
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct,
+			this.havingConditions
 		);
 	}
 
@@ -991,11 +1756,13 @@ export class QueryAggregate<F = any, I = any> extends Query {
 			this.fields,
 			this.collection,
 			this.joins,
-			condition instanceof Comparison ? new Binary('and', List([condition])) : condition,
+			condition instanceof Binary ? condition : new Binary('and', List([condition])),
 			this.groups,
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct,
+			this.havingConditions
 		);
 	}
 
@@ -1008,11 +1775,46 @@ export class QueryAggregate<F = any, I = any> extends Query {
 			List(groups),
 			this.sorts,
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct,
+			this.havingConditions
+		);
+	}
+
+	public having(condition: BinaryExpression<I>): QueryAggregate<F, I> {
+		return new QueryAggregate(
+			this.fields,
+			this.collection,
+			this.joins,
+			this.conditions,
+			this.groups,
+			this.sorts,
+			this.limit,
+			this.offset,
+			this.isDistinct,
+			condition instanceof Binary ? condition : new Binary('and', List([condition]))
 		);
 	}
 
-	public sort(...fields: FieldDirection<I>[]): QueryAggregate<F, I> {
+	public distinct(distinct = true): QueryAggregate<F, I> {
+		if (distinct !== this.isDistinct) {
+			return new QueryAggregate(
+				this.fields,
+				this.collection,
+				this.joins,
+				this.conditions,
+				this.groups,
+				this.sorts,
+				this.limit,
+				this.offset,
+				distinct,
+				this.havingConditions
+			);
+		}
+		return this;
+	}
+
+	public sort(...fields: FieldDirection<I, Field<I> | Function<I>>[]): QueryAggregate<F, I> {
 		return new QueryAggregate(
 			this.fields,
 			this.collection,
@@ -1021,7 +1823,9 @@ export class QueryAggregate<F = any, I = any> extends Query {
 			this.groups,
 			List(fields),
 			this.limit,
-			this.offset
+			this.offset,
+			this.isDistinct,
+			this.havingConditions
 		);
 	}
 
@@ -1035,7 +1839,9 @@ export class QueryAggregate<F = any, I = any> extends Query {
 				this.groups,
 				this.sorts,
 				limit !== undefined ? limit : this.limit,
-				offset !== undefined ? offset : this.offset
+				offset !== undefined ? offset : this.offset,
+				this.isDistinct,
+				this.havingConditions
 			);
 		}
 		return this;
@@ -1046,9 +1852,9 @@ export class QueryAggregate<F = any, I = any> extends Query {
 		indent = multiline && indent ? indent : '';
 
 		const newline = multiline ? `\n` : ' ';
-		let query = `${indent}SELECT `;
+		let query = `${indent}SELECT ${this.isDistinct ? 'DISTINCT ' : ''}`;
 
-		if (this.fields) {
+		if (this.fields && this.fields.count() > 0) {
 			query += this.fields.map<string>(field => (field ? field.toString() : ``)).join(', ');
 		} else {
 			query += `*`;
@@ -1059,16 +1865,7 @@ export class QueryAggregate<F = any, I = any> extends Query {
 		}
 
 		if (this.joins) {
-			query += this.joins
-				.map<string>(join => {
-					if (join) {
-						return `${newline}${indent}JOIN (${join.query.toString()}) AS ${
-							join.alias
-						} ON ${join.on.toString()}`;
-					}
-					return '';
-				})
-				.join('');
+			query += this.joins.map<string>(join => (join ? `${newline}${indent}${joinToString(join)}` : '')).join('');
 		}
 
 		if (this.conditions) {
@@ -1079,6 +1876,10 @@ export class QueryAggregate<F = any, I = any> extends Query {
 			query += `${newline}${indent}GROUP BY ${this.groups.map<string>(s => (s ? s.toString() : '')).join(', ')}`;
 		}
 
+		if (this.havingConditions) {
+			query += `${newline}${indent}HAVING ${this.havingConditions.toString()}`;
+		}
+
 		if (this.sorts) {
 			query += `${newline}${indent}SORT BY ${this.sorts.map<string>(s => (s ? s.toString() : '')).join(', ')}`;
 		}
@@ -1093,6 +1894,25 @@ export class QueryAggregate<F = any, I = any> extends Query {
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'aggregate',
+			fields:
+				this.fields && this.fields.count() > 0
+					? this.fields.map(field => field!.toJSON()).toArray()
+					: undefined,
+			collection: this.collection && this.collection.toJSON(),
+			joins: this.joins && this.joins.map(join => joinToJSON(join!)).toArray(),
+			conditions: this.conditions && this.conditions.toJSON(),
+			groups: this.groups && this.groups.map(group => group!.toJSON()).toArray(),
+			having: this.havingConditions && this.havingConditions.toJSON(),
+			sorts: this.sorts && this.sorts.map(sort => sort!.toJSON()).toArray(),
+			limit: this.limit,
+			offset: this.offset,
+			distinct: this.isDistinct,
+		});
+	}
 }
 
 export class QueryUnion<F = any, I = any> extends Query {
@@ -1101,7 +1921,7 @@ export class QueryUnion<F = any, I = any> extends Query {
 
 	constructor(
 		public readonly selects?: List<QuerySelect<F, I>>,
-		public readonly sorts?: List<FieldDirection<I>>,
+		public readonly sorts?: List<FieldDirection<I, Field<I> | Function<I>>>,
 		public readonly limit?: number,
 		public readonly offset = 0
 	) {
@@ -1117,7 +1937,7 @@ export class QueryUnion<F = any, I = any> extends Query {
 		);
 	}
 
-	public sort(...fields: FieldDirection<I>[]): QueryUnion<F, I> {
+	public sort(...fields: FieldDirection<I, Field<I> | Function<I>>[]): QueryUnion<F, I> {
 		return new QueryUnion(this.selects, List(fields), this.limit, this.offset);
 	}
 
@@ -1161,34 +1981,80 @@ export class QueryUnion<F = any, I = any> extends Query {
 		}
 		return '';
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'union',
+			selects: this.selects && this.selects.map(select => select!.toJSON()).toArray(),
+			sorts: this.sorts && this.sorts.map(sort => sort!.toJSON()).toArray(),
+			limit: this.limit,
+			offset: this.offset,
+		});
+	}
 }
 
 export type Object<T = any> = Map<string, Value<T>>;
 
+export type ConflictAction = 'nothing' | 'update';
+
+export type Conflict<T = any> = {
+	action: ConflictAction;
+	columns: List<Field<T>>;
+	object?: Partial<T>;
+};
+
 export class QueryInsert<T = any> extends Query {
 	// @ts-ignore
 	private type: 'insert';
 
-	constructor(public readonly objects?: List<T>, public readonly collection?: Collection) {
+	constructor(
+		public readonly objects?: List<T>,
+		public readonly collection?: Collection,
+		public readonly conflict?: Conflict<T>,
+		public readonly returningFields?: List<Field<T> | FieldAs<T>>
+	) {
 		super();
 	}
 
 	public add(object: T): QueryInsert<T> {
-		return new QueryInsert(this.objects ? this.objects.push(object) : List([object]), this.collection);
+		return new QueryInsert(
+			this.objects ? this.objects.push(object) : List([object]),
+			this.collection,
+			this.conflict,
+			this.returningFields
+		);
 	}
 
 	public into(name: string | Collection): QueryInsert<T> {
 		if (typeof name === 'string') {
 			const renamed = this.collection ? this.collection.rename(name) : new Collection(name);
 			if (renamed !== this.collection) {
-				return new QueryInsert(this.objects, renamed);
+				return new QueryInsert(this.objects, renamed, this.conflict, this.returningFields);
 			}
 		} else if (name !== this.collection) {
-			return new QueryInsert(this.objects, name);
+			return new QueryInsert(this.objects, name, this.conflict, this.returningFields);
 		}
 		return this;
 	}
 
+	public returning(...fields: (keyof T | Field<T> | FieldAs<T>)[]): QueryInsert<T> {
+		return new QueryInsert(
+			this.objects,
+			this.collection,
+			this.conflict,
+			List(fields.map<Field<T> | FieldAs<T>>(field => (isKeyOf(field) ? new Field<T>(field) : field)))
+		);
+	}
+
+	public onConflict(...columns: (keyof T | Field<T>)[]): QueryInsertConflict<T> {
+		assert(columns.length > 0);
+
+		return new QueryInsertConflict<T>(
+			this,
+			List(columns.map<Field<T>>(column => (isKeyOf(column) ? new Field<T>(column) : column)))
+		);
+	}
+
 	public toString(multiline?: boolean, indent?: string): string {
 		multiline = !!multiline;
 		indent = multiline && indent ? indent : '';
@@ -1205,22 +2071,78 @@ export class QueryInsert<T = any> extends Query {
 			query += `${newline}${indent}(${keys.map<string>(key => key || '').join(', ')})`;
 			query += `${newline}${indent}VALUES ${this.objects
 				.map<string>(obj => {
-					return `(${keys
-						.map(key => {
-							// @ts-ignore
-							const value = obj![key];
-							if (typeof value === 'string') {
-								return `"${value}"`;
-							}
-							return `${value}`;
-						})
-						.join(', ')})`;
+					// @ts-ignore
+					return `(${keys.map(key => valueToString(obj![key])).join(', ')})`;
 				})
 				.join(', ')}`;
 		}
 
+		if (this.conflict) {
+			query += `${newline}${indent}ON CONFLICT (${this.conflict.columns
+				.map<string>(column => (column ? column.toString() : ''))
+				.join(', ')}) DO ${this.conflict.action.toUpperCase()}`;
+			if (this.conflict.object) {
+				const object = this.conflict.object;
+				query += ` SET ${Object.keys(object)
+					.map<string>(key => {
+						// @ts-ignore
+						return `${key} = ${valueToString(object[key])}`;
+					})
+					.join(', ')}`;
+			}
+		}
+
+		if (this.returningFields) {
+			query += `${newline}${indent}RETURNING ${
+				this.returningFields.count() > 0
+					? this.returningFields.map<string>(field => (field ? field.toString() : '')).join(', ')
+					: '*'
+			}`;
+		}
+
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'insert',
+			objects: this.objects && this.objects.map(objectToJSON).toArray(),
+			collection: this.collection && this.collection.toJSON(),
+			conflict: this.conflict && conflictToJSON(this.conflict),
+			returning: this.returningFields && this.returningFields.map(field => field!.toJSON()).toArray(),
+		});
+	}
+}
+
+export class QueryInsertConflict<T = any> {
+	constructor(public readonly insert: QueryInsert<T>, public readonly columns: List<Field<T>>) {}
+
+	public doNothing(): QueryInsert<T> {
+		return new QueryInsert(
+			this.insert.objects,
+			this.insert.collection,
+			{
+				action: 'nothing',
+				columns: this.columns,
+			},
+			this.insert.returningFields
+		);
+	}
+
+	// Without an object, every inserted column is overwritten by its new value. Within the object,
+	// q.field(name, 'excluded') refers to the value that failed to be inserted.
+	public doUpdate(object?: Partial<T>): QueryInsert<T> {
+		return new QueryInsert(
+			this.insert.objects,
+			this.insert.collection,
+			{
+				object,
+				action: 'update',
+				columns: this.columns,
+			},
+			this.insert.returningFields
+		);
+	}
 }
 
 export class QueryUpdate<T = any, I = any> extends Query {
@@ -1230,7 +2152,8 @@ export class QueryUpdate<T = any, I = any> extends Query {
 	constructor(
 		public readonly object?: T,
 		public readonly collection?: Collection,
-		public readonly conditions?: Binary<I>
+		public readonly conditions?: Binary<I>,
+		public readonly returningFields?: List<Field<T> | FieldAs<T>>
 	) {
 		super();
 	}
@@ -1239,23 +2162,33 @@ export class QueryUpdate<T = any, I = any> extends Query {
 		if (typeof name === 'string') {
 			const renamed = this.collection ? this.collection.rename(name) : new Collection(name);
 			if (renamed !== this.collection) {
-				return new QueryUpdate(this.object, renamed, this.conditions);
+				return new QueryUpdate(this.object, renamed, this.conditions, this.returningFields);
 			}
 		} else if (name !== this.collection) {
-			return new QueryUpdate(this.object, name, this.conditions);
+			return new QueryUpdate(this.object, name, this.conditions, this.returningFields);
 		}
 		return this;
 	}
 
 	public set(object: T): QueryUpdate<T> {
-		return new QueryUpdate(object, this.collection, this.conditions);
+		return new QueryUpdate(object, this.collection, this.conditions, this.returningFields);
 	}
 
 	public where(condition: BinaryExpression<I>): QueryUpdate<T> {
 		return new QueryUpdate(
 			this.object,
 			this.collection,
-			condition instanceof Comparison ? new Binary('and', List([condition])) : condition
+			condition instanceof Binary ? condition : new Binary('and', List([condition])),
+			this.returningFields
+		);
+	}
+
+	public returning(...fields: (keyof T | Field<T> | FieldAs<T>)[]): QueryUpdate<T> {
+		return new QueryUpdate(
+			this.object,
+			this.collection,
+			this.conditions,
+			List(fields.map<Field<T> | FieldAs<T>>(field => (isKeyOf(field) ? new Field<T>(field) : field)))
 		);
 	}
 
@@ -1274,14 +2207,8 @@ export class QueryUpdate<T = any, I = any> extends Query {
 			const keys = Object.keys(this.object);
 			query += `${newline}${indent}(${keys.map<string>(key => key || '').join(', ')})`;
 			query += `${newline}${indent}VALUES (${keys
-				.map<string>(key => {
-					// @ts-ignore
-					const value = this.object![key];
-					if (typeof value === 'string') {
-						return `"${value}"`;
-					}
-					return `${value}`;
-				})
+				// @ts-ignore
+				.map<string>(key => valueToString(this.object![key]))
 				.join(', ')})`;
 		}
 
@@ -1289,15 +2216,37 @@ export class QueryUpdate<T = any, I = any> extends Query {
 			query += `${newline}${indent}WHERE ${this.where.toString()}`;
 		}
 
+		if (this.returningFields) {
+			query += `${newline}${indent}RETURNING ${
+				this.returningFields.count() > 0
+					? this.returningFields.map<string>(field => (field ? field.toString() : '')).join(', ')
+					: '*'
+			}`;
+		}
+
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'update',
+			object: this.object && objectToJSON(this.object),
+			collection: this.collection && this.collection.toJSON(),
+			conditions: this.conditions && this.conditions.toJSON(),
+			returning: this.returningFields && this.returningFields.map(field => field!.toJSON()).toArray(),
+		});
+	}
 }
 
 export class QueryDelete<I = any> extends Query {
 	// @ts-ignore
 	private type: 'delete';
 
-	constructor(public readonly collection?: Collection, public readonly conditions?: Binary<I>) {
+	constructor(
+		public readonly collection?: Collection,
+		public readonly conditions?: Binary<I>,
+		public readonly returningFields?: List<Field | FieldAs>
+	) {
 		super();
 	}
 
@@ -1305,10 +2254,10 @@ export class QueryDelete<I = any> extends Query {
 		if (typeof name === 'string') {
 			const renamed = this.collection ? this.collection.rename(name) : new Collection(name);
 			if (renamed !== this.collection) {
-				return new QueryDelete(renamed, this.conditions);
+				return new QueryDelete(renamed, this.conditions, this.returningFields);
 			}
 		} else if (name !== this.collection) {
-			return new QueryDelete(name, this.conditions);
+			return new QueryDelete(name, this.conditions, this.returningFields);
 		}
 		return this;
 	}
@@ -1316,7 +2265,16 @@ export class QueryDelete<I = any> extends Query {
 	public where(condition: BinaryExpression<I>): QueryDelete<I> {
 		return new QueryDelete(
 			this.collection,
-			condition instanceof Comparison ? new Binary('and', List([condition])) : condition
+			condition instanceof Binary ? condition : new Binary('and', List([condition])),
+			this.returningFields
+		);
+	}
+
+	public returning(...fields: (string | Field | FieldAs)[]): QueryDelete<I> {
+		return new QueryDelete(
+			this.collection,
+			this.conditions,
+			List(fields.map<Field | FieldAs>(field => (typeof field === 'string' ? new Field(field) : field)))
 		);
 	}
 
@@ -1331,26 +2289,52 @@ export class QueryDelete<I = any> extends Query {
 			query += this.collection.toString();
 		}
 
-		if (this.where) {
-			query += `${newline}${indent}WHERE ${this.where.toString()}`;
+		if (this.conditions) {
+			query += `${newline}${indent}WHERE ${this.conditions.toString()}`;
+		}
+
+		if (this.returningFields) {
+			query += `${newline}${indent}RETURNING ${
+				this.returningFields.count() > 0
+					? this.returningFields.map<string>(field => (field ? field.toString() : '')).join(', ')
+					: '*'
+			}`;
 		}
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'delete',
+			collection: this.collection && this.collection.toJSON(),
+			conditions: this.conditions && this.conditions.toJSON(),
+			returning: this.returningFields && this.returningFields.map(field => field!.toJSON()).toArray(),
+		});
+	}
 }
 
 export class QueryShowCollection extends Query {
 	// @ts-ignore
 	private type: 'showcollection';
 
+	// Only the collections of this namespace are listed when one is given
+	constructor(public readonly namespace?: string) {
+		super();
+	}
+
 	toString(multiline: boolean = false, indent?: string): string {
 		multiline = !!multiline;
 		indent = multiline && indent ? indent : '';
 
-		const query = `${indent}SHOW COLLECTIONS`;
+		const query = `${indent}SHOW COLLECTIONS${this.namespace ? ` IN ${this.namespace}` : ''}`;
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({ kind: 'showCollection', namespace: this.namespace });
+	}
 }
 
 export class QueryCollectionExists extends Query {
@@ -1385,6 +2369,10 @@ export class QueryCollectionExists extends Query {
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'collectionExists', collection: this.collection.toJSON() };
+	}
 }
 
 export class QueryDescribeCollection extends Query {
@@ -1419,6 +2407,10 @@ export class QueryDescribeCollection extends Query {
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'describeCollection', collection: this.collection.toJSON() };
+	}
 }
 
 export class QueryCreateCollection extends Query {
@@ -1428,7 +2420,8 @@ export class QueryCreateCollection extends Query {
 	constructor(
 		public readonly collection: Collection,
 		public readonly columns?: List<Column>,
-		public readonly indexes?: List<Index>
+		public readonly indexes?: List<Index>,
+		public readonly foreignKeys?: List<ForeignKey>
 	) {
 		super();
 	}
@@ -1437,16 +2430,21 @@ export class QueryCreateCollection extends Query {
 		if (typeof name === 'string') {
 			const renamed = this.collection ? this.collection.rename(name) : new Collection(name);
 			if (renamed !== this.collection) {
-				return new QueryCreateCollection(renamed, this.columns, this.indexes);
+				return new QueryCreateCollection(renamed, this.columns, this.indexes, this.foreignKeys);
 			}
 		} else if (name !== this.collection) {
-			return new QueryCreateCollection(name, this.columns, this.indexes);
+			return new QueryCreateCollection(name, this.columns, this.indexes, this.foreignKeys);
 		}
 		return this;
 	}
 
-	public define(columns: Column[], indexes: Index[]): QueryCreateCollection {
-		return new QueryCreateCollection(this.collection, List(columns), List(indexes));
+	public define(columns: Column[], indexes: Index[], foreignKeys?: ForeignKey[]): QueryCreateCollection {
+		return new QueryCreateCollection(
+			this.collection,
+			List(columns),
+			List(indexes),
+			foreignKeys && foreignKeys.length > 0 ? List(foreignKeys) : undefined
+		);
 	}
 
 	public toString(multiline: boolean = false, indent?: string): string {
@@ -1478,8 +2476,26 @@ export class QueryCreateCollection extends Query {
 			query += `${newline}${indent})`;
 		}
 
+		if (this.foreignKeys) {
+			query += ` ${newline}${indent}FOREIGN KEYS (`;
+			query += `${newline}${indent}${this.foreignKeys
+				.map<string>(f => (f ? f.toString() : ''))
+				.join(`,${newline}${indent}`)}`;
+			query += `${newline}${indent})`;
+		}
+
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'createCollection',
+			collection: this.collection.toJSON(),
+			columns: this.columns && this.columns.map(column => column!.toJSON()).toArray(),
+			indexes: this.indexes && this.indexes.map(index => index!.toJSON()).toArray(),
+			foreignKeys: this.foreignKeys && this.foreignKeys.map(foreignKey => foreignKey!.toJSON()).toArray(),
+		});
+	}
 }
 
 export type ChangeAddColumn = {
@@ -1505,7 +2521,23 @@ export type ChangeDropIndex = {
 	index: string;
 };
 
-export type Change = ChangeAddColumn | ChangeAlterColumn | ChangeDropColumn | ChangeAddIndex | ChangeDropIndex;
+export type ChangeAddForeignKey = {
+	type: 'addForeignKey';
+	foreignKey: ForeignKey;
+};
+export type ChangeDropForeignKey = {
+	type: 'dropForeignKey';
+	columns: string[];
+};
+
+export type Change =
+	| ChangeAddColumn
+	| ChangeAlterColumn
+	| ChangeDropColumn
+	| ChangeAddIndex
+	| ChangeDropIndex
+	| ChangeAddForeignKey
+	| ChangeDropForeignKey;
 
 export class QueryAlterCollection extends Query {
 	// @ts-ignore
@@ -1564,6 +2596,24 @@ export class QueryAlterCollection extends Query {
 		return new QueryAlterCollection(this.collection, this.renamed, changes.push({ index, type: 'dropIndex' }));
 	}
 
+	public addForeignKey(foreignKey: ForeignKey): QueryAlterCollection {
+		const changes = this.changes ? this.changes : List<Change>();
+		return new QueryAlterCollection(
+			this.collection,
+			this.renamed,
+			changes.push({ foreignKey, type: 'addForeignKey' })
+		);
+	}
+
+	public dropForeignKey(columns: string | string[]): QueryAlterCollection {
+		const changes = this.changes ? this.changes : List<Change>();
+		return new QueryAlterCollection(
+			this.collection,
+			this.renamed,
+			changes.push({ columns: typeof columns === 'string' ? [columns] : columns, type: 'dropForeignKey' })
+		);
+	}
+
 	public toString(multiline?: boolean, indent?: string): string {
 		multiline = !!multiline;
 		indent = multiline && indent ? indent : '';
@@ -1590,6 +2640,10 @@ export class QueryAlterCollection extends Query {
 						return `ADDIDX ${c.index.toString()}`;
 					} else if (c && c.type === 'dropIndex') {
 						return `DROPIDX ${c.index}`;
+					} else if (c && c.type === 'addForeignKey') {
+						return `ADDFK ${c.foreignKey.toString()}`;
+					} else if (c && c.type === 'dropForeignKey') {
+						return `DROPFK (${c.columns.join(', ')})`;
 					} else {
 						return '';
 					}
@@ -1605,6 +2659,15 @@ export class QueryAlterCollection extends Query {
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return compactJSON({
+			kind: 'alterCollection',
+			collection: this.collection.toJSON(),
+			renamed: this.renamed && this.renamed.toJSON(),
+			changes: this.changes && this.changes.map(change => changeToJSON(change!)).toArray(),
+		});
+	}
 }
 
 export class QueryDropCollection extends Query {
@@ -1639,4 +2702,459 @@ export class QueryDropCollection extends Query {
 
 		return query;
 	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'dropCollection', collection: this.collection.toJSON() };
+	}
+}
+
+// Views are read-only collections whose rows are those of a select
+export class QueryCreateView extends Query {
+	// @ts-ignore
+	private type: 'createview';
+
+	constructor(public readonly collection: Collection, public readonly select: QuerySelect) {
+		super();
+	}
+
+	public rename(name: string | Collection): QueryCreateView {
+		if (typeof name === 'string') {
+			const renamed = this.collection ? this.collection.rename(name) : new Collection(name);
+			if (renamed !== this.collection) {
+				return new QueryCreateView(renamed, this.select);
+			}
+		} else if (name !== this.collection) {
+			return new QueryCreateView(name, this.select);
+		}
+		return this;
+	}
+
+	public toString(multiline: boolean = false, indent?: string): string {
+		multiline = !!multiline;
+		indent = multiline && indent ? indent : '';
+
+		const newline = multiline ? `\n` : ' ';
+		let query = `${indent}CREATE VIEW `;
+
+		if (this.collection) {
+			query += this.collection.toString();
+		}
+
+		query += ` AS${newline}${this.select.toString(multiline, indent)}`;
+
+		return query;
+	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'createView', collection: this.collection.toJSON(), select: this.select.toJSON() };
+	}
+}
+
+export class QueryDropView extends Query {
+	// @ts-ignore
+	private type: 'dropview';
+
+	constructor(public readonly collection: Collection) {
+		super();
+	}
+
+	public rename(name: string | Collection): QueryDropView {
+		if (typeof name === 'string') {
+			const renamed = this.collection ? this.collection.rename(name) : new Collection(name);
+			if (renamed !== this.collection) {
+				return new QueryDropView(renamed);
+			}
+		} else if (name !== this.collection) {
+			return new QueryDropView(name);
+		}
+		return this;
+	}
+
+	public toString(multiline: boolean = false, indent?: string): string {
+		multiline = !!multiline;
+		indent = multiline && indent ? indent : '';
+
+		let query = `${indent}DROP VIEW `;
+
+		if (this.collection) {
+			query += this.collection.toString();
+		}
+
+		return query;
+	}
+
+	public toJSON(): NodeJSON {
+		return { kind: 'dropView', collection: this.collection.toJSON() };
+	}
+}
+
+export type NodeJSON = { kind: string; [key: string]: any };
+export type ValueJSON = NodeJSON | string | number | boolean | null;
+
+const functionConstructors: { [fn: string]: new (args: List<Value>) => Function } = {
+	count: FunctionCount,
+	countDistinct: FunctionCountDistinct,
+	avg: FunctionAvg,
+	sum: FunctionSum,
+	sub: FunctionSub,
+	max: FunctionMax,
+	min: FunctionMin,
+	concat: FunctionConcat,
+	lower: FunctionLower,
+	upper: FunctionUpper,
+	length: FunctionLength,
+	trim: FunctionTrim,
+	substr: FunctionSubstr,
+	coalesce: FunctionCoalesce,
+	abs: FunctionAbs,
+	round: FunctionRound,
+	add: FunctionAdd,
+	mul: FunctionMul,
+	div: FunctionDiv,
+	year: FunctionYear,
+	month: FunctionMonth,
+	dateTrunc: FunctionDateTrunc,
+	case: FunctionCase,
+	rank: FunctionRank,
+};
+
+const comparisonConstructors: {
+	[operator: string]: new (field: Field | Function, args: List<Value>) => Comparison;
+} = {
+	'=': ComparisonEqual,
+	'!=': ComparisonNotEqual,
+	'>': ComparisonGreaterThan,
+	'>=': ComparisonGreaterThanOrEqual,
+	'<': ComparisonLesserThan,
+	'<=': ComparisonLesserThanOrEqual,
+	beginsWith: ComparisonBeginsWith,
+	endsWith: ComparisonEndsWith,
+	contains: ComparisonContains,
+	like: ComparisonLike,
+	match: ComparisonMatch,
+	between: ComparisonBetween,
+	in: ComparisonIn,
+	notIn: ComparisonNotIn,
+	isNull: ComparisonIsNull,
+	isNotNull: ComparisonIsNotNull,
+};
+
+function compactJSON<T extends object>(json: T): T {
+	return Object.keys(json).reduce(
+		(compact, key) => {
+			if ((json as any)[key] !== undefined) {
+				(compact as any)[key] = (json as any)[key];
+			}
+			return compact;
+		},
+		{} as T
+	);
+}
+
+// Cursors are the values of the sorted fields of a row, as base64 encoded JSON
+function cursorToValues(cursor: string, count: number): Primitive[] {
+	let values: any;
+	try {
+		values = JSON.parse(Buffer.from(cursor, 'base64').toString());
+	} catch (err) {
+		values = undefined;
+	}
+	if (
+		!Array.isArray(values) ||
+		values.length !== count ||
+		!values.every(value => value === null || typeof value !== 'object' || value.kind === 'date')
+	) {
+		throw new Error(`Expected a cursor of ${count} values.`);
+	}
+	return values.map(value => (value !== null && typeof value === 'object' ? new Date(value.value) : value));
+}
+
+function cursorToBinary<I>(cursor: string, sorts: List<FieldDirection<I>>, before: boolean): Binary<I> {
+	const fields = sorts.map(sort => sort!.field).toArray();
+	assert(fields.length > 0 && fields.every(field => field instanceof Field));
+
+	const values = cursorToValues(cursor, fields.length);
+	let branches = List<BinaryExpression<I>>();
+	let ties = List<BinaryExpression<I>>();
+	sorts.forEach((sort, idx = 0) => {
+		const field = fields[idx];
+		const value = values[idx];
+		// Nulls come first in ascending order
+		let next: BinaryExpression<I> | undefined;
+		if ((sort!.direction === 'asc') !== before) {
+			next = value === null ? q.isNotNull<I>(field) : q.gt<I>(field, value as any);
+		} else if (value !== null) {
+			next = q.or<I>(q.lt<I>(field, value as any), q.isNull<I>(field));
+		}
+		if (next) {
+			branches = branches.push(ties.count() > 0 ? new Binary<I>('and', ties.push(next)) : next);
+		}
+		ties = ties.push(value === null ? q.isNull<I>(field) : q.eq<I>(field, value as any));
+	});
+
+	// Nothing comes after a null in descending order
+	return branches.count() > 0
+		? new Binary<I>('or', branches)
+		: q.and<I>(q.isNull<I>(fields[0]), q.isNotNull<I>(fields[0]));
+}
+
+function valueToJSON(value?: Value): ValueJSON | undefined {
+	if (value instanceof Date) {
+		return { kind: 'date', value: value.toISOString() };
+	} else if (Buffer.isBuffer(value)) {
+		return { kind: 'buffer', value: value.toString('base64') };
+	} else if (value === null || typeof value !== 'object') {
+		return value;
+	} else if (isJSONValue(value)) {
+		return { value, kind: 'json' };
+	}
+	return value.toJSON();
+}
+
+// String literals are quoted so that the printed queries can be parsed back
+function valueToString(value?: Value): string {
+	if (value === null || value === undefined) {
+		return 'NULL';
+	} else if (typeof value === 'string') {
+		return `"${value.replace(/["\\]/g, '\\$&')}"`;
+	} else if (value instanceof Date) {
+		return `"${value.toISOString()}"`;
+	} else if (isJSONValue(value)) {
+		return JSON.stringify(value);
+	}
+	return value.toString();
+}
+
+// Plain objects and arrays are values of JSON columns
+export function isJSONValue(value: any): boolean {
+	return (
+		Array.isArray(value) ||
+		(typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype)
+	);
+}
+
+function objectToJSON(object: any): { [key: string]: ValueJSON } {
+	return compactJSON(
+		Object.keys(object).reduce(
+			(json, key) => {
+				json[key] = valueToJSON(object[key])!;
+				return json;
+			},
+			{} as { [key: string]: ValueJSON }
+		)
+	);
+}
+
+function joinToJSON(join: Join) {
+	return compactJSON({
+		type: join.type,
+		alias: join.alias,
+		on: join.on && join.on.toJSON(),
+		query: join.query.toJSON(),
+	});
+}
+
+function conflictToJSON(conflict: Conflict) {
+	return compactJSON({
+		action: conflict.action,
+		columns: conflict.columns.map(column => column!.toJSON()).toArray(),
+		object: conflict.object && objectToJSON(conflict.object),
+	});
+}
+
+function changeToJSON(change: Change) {
+	switch (change.type) {
+		case 'addColumn':
+			return compactJSON({ ...change, column: change.column.toJSON() });
+		case 'alterColumn':
+			return { ...change, newColumn: change.newColumn.toJSON() };
+		case 'addIndex':
+			return { ...change, index: change.index.toJSON() };
+		case 'addForeignKey':
+			return { ...change, foreignKey: change.foreignKey.toJSON() };
+		default:
+			return change;
+	}
+}
+
+function valueFromJSON(json: ValueJSON | undefined): Value {
+	if (json !== null && typeof json === 'object') {
+		return nodeFromJSON(json);
+	}
+	return json!;
+}
+
+function listFromJSON(json?: any[]): List<any> | undefined {
+	return json && List(json.map(node => nodeFromJSON(node)));
+}
+
+function objectFromJSON(json: { [key: string]: ValueJSON }): any {
+	return Object.keys(json).reduce(
+		(object, key) => {
+			object[key] = valueFromJSON(json[key]);
+			return object;
+		},
+		{} as any
+	);
+}
+
+function nodeFromJSON(json: NodeJSON): any {
+	switch (json.kind) {
+		case 'json':
+			return json.value;
+		case 'date':
+			return new Date(json.value);
+		case 'buffer':
+			return Buffer.from(json.value, 'base64');
+		case 'collection':
+			return new Collection(json.name, json.namespace);
+		case 'column':
+			return new Column(
+				json.name,
+				json.type,
+				json.size,
+				valueFromJSON(json.defaultValue),
+				json.autoIncrement,
+				json.nullable,
+				json.check && nodeFromJSON(json.check),
+				json.collate,
+				json.scale,
+				json.values && List(json.values)
+			);
+		case 'index':
+			return new Index(json.name, json.type, listFromJSON(json.columns));
+		case 'foreignKey':
+			return new ForeignKey(
+				List(json.columns),
+				nodeFromJSON(json.collection),
+				List(json.refColumns),
+				json.onDelete,
+				json.onUpdate
+			);
+		case 'var':
+			return new Variable(json.name);
+		case 'field':
+			return new Field(json.name, json.alias);
+		case 'sort':
+			return new FieldDirection(nodeFromJSON(json.field), json.direction);
+		case 'as':
+			return new FieldAs(nodeFromJSON(json.field), json.alias);
+		case 'function':
+			if (!functionConstructors[json.fn]) {
+				throw new Error(`Unknown function ${json.fn}.`);
+			}
+			return new functionConstructors[json.fn](List(json.args.map(valueFromJSON)));
+		case 'comparison':
+			if (!comparisonConstructors[json.operator]) {
+				throw new Error(`Unknown comparison operator ${json.operator}.`);
+			}
+			return new comparisonConstructors[json.operator](
+				nodeFromJSON(json.field),
+				List(json.args.map(valueFromJSON))
+			);
+		case 'exists':
+			return new Exists(nodeFromJSON(json.query), json.negated);
+		case 'binary':
+			return new Binary(json.operator, listFromJSON(json.operands));
+		case 'select':
+			return new QuerySelect(
+				listFromJSON(json.fields),
+				json.collection && nodeFromJSON(json.collection),
+				json.joins && List(json.joins.map(joinFromJSON)),
+				json.conditions && nodeFromJSON(json.conditions),
+				listFromJSON(json.sorts),
+				json.limit,
+				json.offset,
+				json.distinct
+			);
+		case 'aggregate':
+			return new QueryAggregate(
+				listFromJSON(json.fields),
+				json.collection && nodeFromJSON(json.collection),
+				json.joins && List(json.joins.map(joinFromJSON)),
+				json.conditions && nodeFromJSON(json.conditions),
+				listFromJSON(json.groups),
+				listFromJSON(json.sorts),
+				json.limit,
+				json.offset,
+				json.distinct,
+				json.having && nodeFromJSON(json.having)
+			);
+		case 'union':
+			return new QueryUnion(listFromJSON(json.selects), listFromJSON(json.sorts), json.limit, json.offset);
+		case 'insert':
+			return new QueryInsert(
+				json.objects && List(json.objects.map(objectFromJSON)),
+				json.collection && nodeFromJSON(json.collection),
+				json.conflict && {
+					action: json.conflict.action,
+					columns: listFromJSON(json.conflict.columns)!,
+					object: json.conflict.object && objectFromJSON(json.conflict.object),
+				},
+				listFromJSON(json.returning)
+			);
+		case 'update':
+			return new QueryUpdate(
+				json.object && objectFromJSON(json.object),
+				json.collection && nodeFromJSON(json.collection),
+				json.conditions && nodeFromJSON(json.conditions),
+				listFromJSON(json.returning)
+			);
+		case 'delete':
+			return new QueryDelete(
+				json.collection && nodeFromJSON(json.collection),
+				json.conditions && nodeFromJSON(json.conditions),
+				listFromJSON(json.returning)
+			);
+		case 'showCollection':
+			return new QueryShowCollection(json.namespace);
+		case 'collectionExists':
+			return new QueryCollectionExists(nodeFromJSON(json.collection));
+		case 'describeCollection':
+			return new QueryDescribeCollection(nodeFromJSON(json.collection));
+		case 'createCollection':
+			return new QueryCreateCollection(
+				nodeFromJSON(json.collection),
+				listFromJSON(json.columns),
+				listFromJSON(json.indexes),
+				listFromJSON(json.foreignKeys)
+			);
+		case 'alterCollection':
+			return new QueryAlterCollection(
+				nodeFromJSON(json.collection),
+				json.renamed && nodeFromJSON(json.renamed),
+				json.changes && List(json.changes.map(changeFromJSON))
+			);
+		case 'dropCollection':
+			return new QueryDropCollection(nodeFromJSON(json.collection));
+		case 'createView':
+			return new QueryCreateView(nodeFromJSON(json.collection), nodeFromJSON(json.select));
+		case 'dropView':
+			return new QueryDropView(nodeFromJSON(json.collection));
+	}
+	throw new Error(`Unknown node ${json.kind}.`);
+}
+
+function joinFromJSON(json: any): Join {
+	return {
+		type: json.type,
+		alias: json.alias,
+		on: json.on && nodeFromJSON(json.on),
+		query: nodeFromJSON(json.query),
+	};
+}
+
+function changeFromJSON(json: any): Change {
+	switch (json.type) {
+		case 'addColumn':
+			return { ...json, column: nodeFromJSON(json.column) };
+		case 'alterColumn':
+			return { ...json, newColumn: nodeFromJSON(json.newColumn) };
+		case 'addIndex':
+			return { ...json, index: nodeFromJSON(json.index) };
+		case 'addForeignKey':
+			return { ...json, foreignKey: nodeFromJSON(json.foreignKey) };
+		default:
+			return json;
+	}
 }
@@ -14,14 +14,21 @@ export class QueryAggregateResult<T> extends QueryResult {
 	}
 }
 
+export class QueryStatementResult<T = any> extends QueryResult {
+	constructor(public readonly changes: number, public readonly results?: T[]) {
+		super();
+	}
+}
+
 export class QueryCommitResult extends QueryResult {
-	constructor(public readonly lastId: string) {
+	constructor(public readonly lastId: string, public readonly statements: QueryStatementResult[] = []) {
 		super();
 	}
 }
 
 export class QueryShowCollectionResult extends QueryResult {
-	constructor(public readonly collections: Query.Collection[]) {
+	// Views are listed with the collections, and also on their own since they are read-only
+	constructor(public readonly collections: Query.Collection[], public readonly views: Query.Collection[] = []) {
 		super();
 	}
 }
@@ -30,7 +37,11 @@ export class QueryDescribeCollectionResult extends QueryResult {
 	constructor(
 		public readonly collection: Query.Collection,
 		public readonly columns: Query.Column[],
-		public readonly indexes: Query.Index[]
+		public readonly indexes: Query.Index[],
+		public readonly foreignKeys: Query.ForeignKey[] = [],
+		public readonly readOnly: boolean = false,
+		// Select of a view, when the driver can tell it
+		public readonly view?: Query.QuerySelect
 	) {
 		super();
 	}
@@ -41,3 +52,45 @@ export class QueryCollectionExistsResult extends QueryResult {
 		super();
 	}
 }
+
+export type QueryPlanOperation = 'scan' | 'search' | 'temp' | 'subquery' | 'compound' | 'other';
+
+export class QueryPlanNode {
+	constructor(
+		public readonly operation: QueryPlanOperation,
+		public readonly detail: string,
+		public readonly children: QueryPlanNode[] = [],
+		public readonly collection?: Query.Collection,
+		public readonly index?: string,
+		public readonly cost?: number
+	) {}
+}
+
+export class QueryExplainResult extends QueryResult {
+	constructor(public readonly plan: QueryPlanNode[]) {
+		super();
+	}
+
+	public get nodes(): QueryPlanNode[] {
+		const flatten = (nodes: QueryPlanNode[]): QueryPlanNode[] =>
+			nodes.reduce<QueryPlanNode[]>((flat, node) => flat.concat([node], flatten(node.children)), []);
+		return flatten(this.plan);
+	}
+
+	// Collections that are read from start to end without the help of an index
+	public get fullScans(): QueryPlanNode[] {
+		return this.nodes.filter(node => node.operation === 'scan' && node.collection && !node.index);
+	}
+
+	// Sum of the estimated cost of each step, undefined when the driver does not estimate them
+	public get cost(): number | undefined {
+		return this.nodes.reduce<number | undefined>(
+			(total, node) => (node.cost === undefined ? total : (total || 0) + node.cost),
+			undefined
+		);
+	}
+
+	public usesIndex(name: string): boolean {
+		return this.nodes.some(node => node.index === name);
+	}
+}
@@ -1,4 +1,14 @@
-import { Binary, Comparison, Field, FieldDirection, Function, BinaryExpression, QuerySelect, FieldAs } from './Query';
+import {
+	Binary,
+	Comparison,
+	Exists,
+	Field,
+	FieldDirection,
+	Function,
+	BinaryExpression,
+	QuerySelect,
+	FieldAs,
+} from './Query';
 import { List } from 'immutable';
 import { isArray } from 'util';
 
@@ -9,9 +19,9 @@ export function simplifyBinaryTree(node: Binary) {
 
 	let simplified = new Binary(node.operator);
 	node.operands.forEach(operand => {
-		if (operand instanceof Comparison) {
+		if (operand instanceof Comparison || operand instanceof Exists) {
 			simplified = simplified.add(operand);
-		} else if (operand instanceof Binary && operand.operator === node.operator) {
+		} else if (operand instanceof Binary && operand.operator === node.operator && node.operator !== 'not') {
 			operand = simplifyBinaryTree(operand);
 			if (operand.operands) {
 				operand.operands.forEach(operand => {
@@ -44,6 +54,8 @@ export function decomposeBinaryTree(tree: Binary): BinaryExpression[] {
 				}
 			} else if (root.operator === 'xor') {
 				throw new QueryTooComplexeError(`Can not decompose XOR binary operation.`);
+			} else if (root.operator === 'not') {
+				throw new QueryTooComplexeError(`Can not decompose NOT binary operation.`);
 			}
 		} else {
 			const walk = [root];
@@ -60,7 +72,7 @@ export function decomposeBinaryTree(tree: Binary): BinaryExpression[] {
 									return simplifyBinaryTree(
 										root.replace(
 											node,
-											op instanceof Comparison ? new Binary('and', List([op])) : op!,
+											op instanceof Binary ? op : new Binary('and', List([op!])),
 											true
 										)
 									);
@@ -71,6 +83,8 @@ export function decomposeBinaryTree(tree: Binary): BinaryExpression[] {
 					break;
 				} else if (root.operator === 'xor') {
 					throw new QueryTooComplexeError(`Can not decompose XOR binary operation.`);
+				} else if (node.operator === 'not') {
+					throw new QueryTooComplexeError(`Can not decompose NOT binary operation.`);
 				}
 
 				// Continue walk with nested bitwise node
@@ -95,6 +109,16 @@ export function getField(field: Field | FieldAs | Function): Field | undefined {
 	return undefined;
 }
 
+// Raw queries that only read
+export function isSelectSQL(query: string): boolean {
+	return (
+		query
+			.replace(/^[\s(]+/, '')
+			.substr(0, 6)
+			.toUpperCase() === 'SELECT'
+	);
+}
+
 export function replaceField(source: any, replace: Map<Field, Field>, matches: Field[] = []): typeof source {
 	const needles = Array.from(replace.keys());
 
@@ -121,6 +145,10 @@ export function replaceField(source: any, replace: Map<Field, Field>, matches: F
 		}
 		return source;
 	} else if (source instanceof FieldDirection) {
+		if (source.field instanceof Function) {
+			const replaced = replaceField(source.field, replace, matches);
+			return replaced !== source.field ? new FieldDirection(replaced, source.direction) : source;
+		}
 		for (let i = 0, l = needles.length; i < l; ++i) {
 			const needle = needles[i];
 			if (needle.equal(source.field)) {
@@ -160,6 +188,8 @@ export function replaceField(source: any, replace: Map<Field, Field>, matches: F
 		return source.visit(op => {
 			return replaceField(op as Comparison, replace, matches);
 		});
+	} else if (source instanceof Exists) {
+		return source;
 	} else if (source instanceof Comparison) {
 		const constructor = source.constructor as any;
 		const args = source.args
@@ -208,14 +238,14 @@ export function replaceField(source: any, replace: Map<Field, Field>, matches: F
 									conditions,
 									sorts,
 									query.limit,
-									query.offset
+									query.offset,
+									query.isDistinct
 							  )
 							: query;
-					const onRenamed =
-						on instanceof Binary ? replaceField(on, replace, matches) : replaceField(on, replace, matches);
+					const onRenamed = on ? replaceField(on, replace, matches) : on;
 
 					if (queryRenamed !== query || onRenamed !== on) {
-						source.set(idx, { alias: field.alias, on: onRenamed, query: queryRenamed });
+						source.set(idx, { ...field, on: onRenamed, query: queryRenamed });
 					}
 				}
 			});
@@ -2,3 +2,7 @@ export * from './Query';
 export * from './QueryResult';
 export * from './Utils';
 export * from './Database';
+export * from './Parser';
+export * from './DatabaseInterceptor';
+export * from './DatabaseReplicated';
+export * from './DatabaseCached';
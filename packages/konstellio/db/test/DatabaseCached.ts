@@ -0,0 +1,246 @@
+import 'mocha';
+import { use, expect, should } from 'chai';
+use(require('chai-as-promised'));
+should();
+import { CacheMemory } from '@konstellio/cache-memory';
+import { q, ColumnType, QuerySelect, QueryShowCollection, QueryDescribeCollection } from '../src/Query';
+import {
+	QuerySelectResult,
+	QueryAggregateResult,
+	QueryCommitResult,
+	QueryExplainResult,
+	QueryShowCollectionResult,
+	QueryDescribeCollectionResult,
+} from '../src/QueryResult';
+import { Database, Transaction, Compare } from '../src/Database';
+import { DatabaseCached } from '../src/DatabaseCached';
+
+class CountingDatabase extends Database {
+	readonly features = { join: false };
+	readonly log: string[] = [];
+	// Select of each view, undefined when it can not be told
+	readonly views = new Map<string, QuerySelect | undefined>();
+
+	async connect(): Promise<CountingDatabase> {
+		return this;
+	}
+
+	async disconnect(): Promise<void> {}
+
+	async execute(query: any, variables?: any): Promise<any> {
+		if (query instanceof QueryShowCollection) {
+			const views = Array.from(this.views.keys()).map(view => q.collection(view));
+			return new QueryShowCollectionResult(views, views);
+		} else if (query instanceof QueryDescribeCollection) {
+			const view = this.views.get(query.collection!.name);
+			return new QueryDescribeCollectionResult(
+				query.collection!,
+				[],
+				[],
+				[],
+				this.views.has(query.collection!.name),
+				view
+			);
+		}
+		this.log.push(query.toString());
+		const row = { id: this.log.length, postDate: new Date('2018-01-01T00:00:00.000Z'), variables };
+		return query.toString().indexOf('GROUP BY') > -1
+			? new QueryAggregateResult([row])
+			: new QuerySelectResult([row]);
+	}
+
+	async *stream(query: any): AsyncIterableIterator<any> {
+		this.log.push(query.toString());
+	}
+
+	async explain(): Promise<QueryExplainResult> {
+		return new QueryExplainResult([]);
+	}
+
+	async transaction(): Promise<CountingTransaction> {
+		return new CountingTransaction(this);
+	}
+
+	compareTypes(aType: ColumnType, aSize: number, bType: ColumnType, bSize: number): Compare {
+		return Compare.Castable;
+	}
+}
+
+class CountingTransaction extends Transaction {
+	constructor(public readonly database: CountingDatabase) {
+		super();
+	}
+
+	execute(query: any, variables?: any): any {
+		this.database.log.push(query.toString());
+	}
+
+	savepoint(name: string): void {}
+
+	rollbackTo(name: string): void {}
+
+	release(name: string): void {}
+
+	async transaction(): Promise<CountingTransaction> {
+		return new CountingTransaction(this.database);
+	}
+
+	async commit(): Promise<QueryCommitResult> {
+		return new QueryCommitResult('1');
+	}
+
+	async rollback(): Promise<void> {}
+}
+
+describe('DatabaseCached', () => {
+	const cache = new CacheMemory();
+
+	after(() => cache.disconnect());
+
+	it('cache results', async () => {
+		const driver = new CountingDatabase();
+		const database = new DatabaseCached(driver, cache, { prefix: 'results:' });
+
+		const select = q
+			.select('id', 'postDate')
+			.from('Post')
+			.where(q.eq('id', q.var('id')));
+
+		const first: QuerySelectResult<any> = await database.execute<any>(select, { id: 1 });
+		const second: QuerySelectResult<any> = await database.execute<any>(select, { id: 1 });
+		expect(second).to.be.an.instanceOf(QuerySelectResult);
+		expect(second.results).to.eql(first.results);
+		expect(second.results[0].postDate).to.be.an.instanceOf(Date);
+		expect(driver.log.length).to.equal(1);
+
+		await database.execute<any>(select, { id: 2 });
+		await database.execute<any>(select.where(q.eq('id', 2)));
+		expect(driver.log.length).to.equal(3);
+
+		const aggregate = q
+			.aggregate<any>(q.as(q.count('id'), 'total'))
+			.from('Post')
+			.group(q.field('id'));
+		await database.execute<any>(aggregate);
+		const result = await database.execute<any>(aggregate);
+		expect(result).to.be.an.instanceOf(QueryAggregateResult);
+		expect(driver.log.length).to.equal(4);
+	});
+
+	it('ttl', async () => {
+		const driver = new CountingDatabase();
+		const database = new DatabaseCached(driver, cache, {
+			prefix: 'ttl:',
+			ttl: query => (query.collection && query.collection.name === 'Log' ? false : 60),
+		});
+
+		await database.execute(q.select('id').from('Log'));
+		await database.execute(q.select('id').from('Log'));
+		expect(driver.log.length).to.equal(2);
+
+		await database.execute(q.select('id').from('Post'));
+		await database.execute(q.select('id').from('Post'));
+		expect(driver.log.length).to.equal(3);
+	});
+
+	it('invalidate on commit', async () => {
+		const driver = new CountingDatabase();
+		const database = new DatabaseCached(driver, cache, { prefix: 'invalidate:' });
+
+		const posts = q.select('id').from('Post');
+		const users = q.select('id').from('User');
+		const joined = q
+			.select('id')
+			.from('Post')
+			.where(q.in('author', q.select('id').from('User')));
+		await database.execute(posts);
+		await database.execute(users);
+		await database.execute(joined);
+		expect(driver.log.length).to.equal(3);
+
+		const transaction = await database.transaction();
+		transaction.execute(q.insert('User').add({ id: 1 }));
+		await transaction.commit();
+
+		await database.execute(posts);
+		await database.execute(users);
+		await database.execute(joined);
+		expect(driver.log.slice(4)).to.eql([users.toString(), joined.toString()]);
+
+		await database.execute('DELETE FROM Post');
+		await database.execute(posts);
+		await database.execute(users);
+		expect(driver.log.length).to.equal(9);
+
+		await database.invalidate(['Post']);
+		await database.execute(posts);
+		await database.execute(users);
+		expect(driver.log.length).to.equal(10);
+	});
+
+	it('invalidate on root commit', async () => {
+		const driver = new CountingDatabase();
+		const database = new DatabaseCached(driver, cache, { prefix: 'nested:' });
+		const reads = () => driver.log.filter(line => line.indexOf('SELECT') === 0).length;
+
+		const posts = q.select('id').from('Post');
+		await database.execute(posts);
+
+		const parent = await database.transaction();
+		const child = await parent.transaction();
+		child.execute(q.insert('Post').add({ id: 1 }));
+		await child.commit();
+
+		// Nothing is written until the parent commits
+		await database.execute(posts);
+		expect(reads()).to.equal(1);
+
+		await parent.commit();
+		await database.execute(posts);
+		expect(reads()).to.equal(2);
+	});
+
+	it('invalidate views', async () => {
+		const driver = new CountingDatabase();
+		const database = new DatabaseCached(driver, cache, { prefix: 'views:' });
+
+		driver.views.set('Published', q.select('id').from('Post'));
+		driver.views.set('Latest', q.select('id').from('Published'));
+		driver.views.set('Legacy', undefined);
+		const reads = () => driver.log.filter(line => line.indexOf('SELECT') === 0).length;
+
+		const latest = q.select('id').from('Latest');
+		await database.execute(latest);
+		await database.execute(latest);
+		expect(reads()).to.equal(1);
+
+		const transaction = await database.transaction();
+		transaction.execute(q.insert('Post').add({ id: 1 }));
+		await transaction.commit();
+
+		await database.execute(latest);
+		expect(reads()).to.equal(2);
+
+		// Results of a view whose select is unknown can not be invalidated
+		await database.execute(q.select('id').from('Legacy'));
+		await database.execute(q.select('id').from('Legacy'));
+		expect(reads()).to.equal(4);
+
+		const redefine = await database.transaction();
+		redefine.execute(q.dropView('Published'));
+		redefine.execute(q.createView('Published', q.select('id').from('User')));
+		await redefine.commit();
+		driver.views.set('Published', q.select('id').from('User'));
+
+		await database.execute(latest);
+		await database.execute(latest);
+		expect(reads()).to.equal(5);
+
+		const user = await database.transaction();
+		user.execute(q.insert('User').add({ id: 1 }));
+		await user.commit();
+
+		await database.execute(latest);
+		expect(reads()).to.equal(6);
+	});
+});
@@ -0,0 +1,247 @@
+import 'mocha';
+import { use, expect, should } from 'chai';
+use(require('chai-as-promised'));
+should();
+import { q, Query, QuerySelect, ColumnType } from '../src/Query';
+import { QuerySelectResult, QueryCommitResult, QueryExplainResult } from '../src/QueryResult';
+import { Database, Transaction, Compare } from '../src/Database';
+import { DatabaseInterceptor, TransactionInterceptor, Interceptor, InterceptedQuery } from '../src/DatabaseInterceptor';
+
+class RecordingDatabase extends Database {
+	readonly features = { join: false };
+	readonly log: string[] = [];
+
+	async connect(): Promise<RecordingDatabase> {
+		return this;
+	}
+
+	async disconnect(): Promise<void> {}
+
+	execute(query: any, variables?: any): Promise<any> {
+		this.log.push(`execute ${query.toString()}`);
+		if (query === 'fail') {
+			return Promise.reject(new Error('Failed'));
+		}
+		return Promise.resolve(new QuerySelectResult([{ variables }]));
+	}
+
+	async *stream(query: any): AsyncIterableIterator<any> {
+		this.log.push(`stream ${query.toString()}`);
+		yield { id: 1 };
+		yield { id: 2 };
+	}
+
+	async explain(): Promise<QueryExplainResult> {
+		return new QueryExplainResult([]);
+	}
+
+	async transaction(): Promise<RecordingTransaction> {
+		return new RecordingTransaction(this);
+	}
+
+	compareTypes(aType: ColumnType, aSize: number, bType: ColumnType, bSize: number): Compare {
+		return Compare.Castable;
+	}
+}
+
+class RecordingTransaction extends Transaction {
+	private failing = false;
+
+	constructor(public readonly database: RecordingDatabase) {
+		super();
+	}
+
+	execute(query: any, variables?: any): any {
+		if (query instanceof QuerySelect) {
+			return this.database.execute(query, variables);
+		}
+		this.failing = this.failing || query === 'fail';
+		this.database.log.push(`queue ${query.toString()}`);
+	}
+
+	savepoint(name: string): void {
+		this.database.log.push(`savepoint ${name}`);
+	}
+
+	rollbackTo(name: string): void {
+		this.database.log.push(`rollbackTo ${name}`);
+	}
+
+	release(name: string): void {
+		this.database.log.push(`release ${name}`);
+	}
+
+	async transaction(): Promise<RecordingTransaction> {
+		return new RecordingTransaction(this.database);
+	}
+
+	async commit(): Promise<QueryCommitResult> {
+		if (this.failing) {
+			throw new Error('Failed');
+		}
+		this.database.log.push('commit');
+		return new QueryCommitResult('1');
+	}
+
+	async rollback(): Promise<void> {
+		this.database.log.push('rollback');
+	}
+}
+
+describe('DatabaseInterceptor', () => {
+	it('execute', async () => {
+		const driver = new RecordingDatabase();
+		const database = new DatabaseInterceptor(driver);
+		const seen: InterceptedQuery[] = [];
+		const errors: Error[] = [];
+
+		database
+			.use({
+				async execute(query, next) {
+					seen.push(query);
+					try {
+						return await next(query);
+					} catch (err) {
+						errors.push(err);
+						throw err;
+					}
+				},
+			})
+			.use({
+				// Scope every select to a tenant
+				execute(query, next) {
+					if (query.query instanceof QuerySelect) {
+						const select = query.query;
+						const tenant = q.eq('tenant', 'acme');
+						return next({
+							...query,
+							query: select.where(select.conditions ? q.and(tenant, select.conditions) : q.and(tenant)),
+						});
+					}
+					return next(query);
+				},
+			});
+
+		expect(await database.connect()).to.equal(database);
+		expect(database.features).to.equal(driver.features);
+
+		const result: QuerySelectResult<any> = await database.execute<any>(
+			q
+				.select('id')
+				.from('Post')
+				.where(q.eq('id', q.var('id'))),
+			{ id: 1 }
+		).should.be.fulfilled;
+		expect(result.results).to.eql([{ variables: { id: 1 } }]);
+		expect(seen.length).to.equal(1);
+		expect(seen[0].variables).to.eql({ id: 1 });
+		expect(driver.log).to.eql(['execute SELECT id FROM Post WHERE (tenant = "acme" AND (id = VAR(id))) OFFSET 0']);
+
+		await database.execute('fail').should.be.rejectedWith(Error, 'Failed');
+		expect(errors.length).to.equal(1);
+
+		const rows: any[] = [];
+		for await (const row of database.stream(q.select('id').from('Post'))) {
+			rows.push(row);
+		}
+		expect(rows).to.eql([{ id: 1 }, { id: 2 }]);
+		expect(seen[2].stream).to.equal(true);
+		expect(driver.log[2]).to.equal('stream SELECT id FROM Post WHERE (tenant = "acme") OFFSET 0');
+	});
+
+	it('short-circuit', async () => {
+		const driver = new RecordingDatabase();
+		const cached = new QuerySelectResult([{ id: 'cached' }]);
+		const database = new DatabaseInterceptor(driver, [
+			{
+				execute(query, next) {
+					return query.query instanceof Query ? Promise.resolve(cached) : next(query);
+				},
+			},
+		]);
+
+		expect(await database.execute(q.select('id').from('Post'))).to.equal(cached);
+		expect(driver.log).to.eql([]);
+	});
+
+	it('transaction', async () => {
+		const driver = new RecordingDatabase();
+		const commits: string[][] = [];
+		const counter: Interceptor = {
+			commit(commit, next) {
+				commits.push(commit.queries.map(query => query.query.toString()));
+				return next(commit);
+			},
+		};
+		const database = new DatabaseInterceptor(driver, [
+			{
+				execute(query, next) {
+					// Drop the writes to the Log collection
+					return query.query.toString().indexOf('Log') > -1 ? Promise.resolve() : next(query);
+				},
+			},
+			counter,
+		]);
+
+		const events: string[] = [];
+		const transaction = await database.transaction();
+		expect(transaction).to.be.an.instanceof(TransactionInterceptor);
+		transaction.on('commit', (result: QueryCommitResult) => {
+			events.push(`commit ${result.lastId}`);
+		});
+		transaction.execute(q.insert('Post').add({ id: 1 }));
+		transaction.savepoint('a');
+		transaction.execute(q.insert('Log').add({ id: 1 }));
+		expect(driver.log).to.eql([]);
+
+		await transaction.execute(q.select('id').from('Post')).should.be.fulfilled;
+		transaction.execute(q.delete('Post').where(q.eq('id', 1)));
+		transaction.release('a');
+
+		const result = await transaction.commit().should.be.fulfilled;
+		expect(result).to.be.an.instanceof(QueryCommitResult);
+		expect(driver.log).to.eql([
+			'queue INSERT Post (id) VALUES (1)',
+			'savepoint a',
+			'execute SELECT id FROM Post OFFSET 0',
+			'queue DELETE Post WHERE (id = 1)',
+			'release a',
+			'commit',
+		]);
+		expect(commits.length).to.equal(1);
+		expect(commits[0].length).to.equal(2);
+		expect(events).to.eql(['commit 1']);
+
+		const aborted = await database.transaction();
+		aborted.on('rollback', () => {
+			events.push('rollback');
+		});
+		aborted.execute(q.insert('Post').add({ id: 3 }));
+		await aborted.rollback().should.be.fulfilled;
+		expect(events).to.eql(['commit 1', 'rollback']);
+
+		const failing = new DatabaseInterceptor(driver, [
+			{
+				execute() {
+					return Promise.reject(new Error('Denied'));
+				},
+			},
+		]);
+		const denied = await failing.transaction();
+		denied.on('rollback', () => {
+			events.push('denied');
+		});
+		denied.execute(q.insert('Post').add({ id: 2 }));
+		await denied.commit().should.be.rejectedWith(Error, 'Denied');
+		expect(driver.log[driver.log.length - 1]).to.equal('rollback');
+		expect(events).to.eql(['commit 1', 'rollback', 'denied']);
+
+		const failed = await database.transaction();
+		failed.on('rollback', () => {
+			events.push('failed');
+		});
+		failed.execute('fail');
+		await failed.commit().should.be.rejectedWith(Error, 'Failed');
+		expect(events).to.eql(['commit 1', 'rollback', 'denied', 'failed']);
+	});
+});
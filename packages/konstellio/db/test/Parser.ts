@@ -0,0 +1,114 @@
+import 'mocha';
+import { expect } from 'chai';
+import { q, QuerySelect, QueryAggregate, QueryUnion, Binary, Comparison, Field, Variable, Exists } from '../src/Query';
+import { parseQuery, parseCondition, QuerySyntaxError } from '../src/Parser';
+
+describe('Parser', () => {
+	it('parse condition', async () => {
+		const a = parseCondition('title = "Hello world" AND likes >= 10');
+		expect(a).to.be.an.instanceof(Binary);
+		expect(a.toString()).to.equal('(title = "Hello world" AND likes >= 10)');
+
+		const b = parseCondition(`(author = a.id OR title beginsWith 'Foo') AND NOT postDate isNull`) as Binary;
+		expect(b.operator).to.equal('and');
+		expect(b.operands.get(0)).to.be.an.instanceof(Binary);
+		const comparison = (b.operands.get(0) as Binary).operands.get(0) as Comparison;
+		expect(comparison.args.get(0)).to.be.an.instanceof(Field);
+		expect((comparison.args.get(0) as Field).alias).to.equal('a');
+		expect(b.toString()).to.equal('((author = a.id OR title beginsWith "Foo") AND (NOT postDate isNull))');
+
+		const c = parseCondition('id in VAR(ids)') as Comparison;
+		expect(c.args.get(0)).to.be.an.instanceof(Variable);
+		expect(parseCondition('id in (1, 2, 3)').toString()).to.equal('id in 1, 2, 3');
+		expect(parseCondition('likes between -1 and 5').toString()).to.equal('likes between -1 and 5');
+		expect(parseCondition('NOT EXISTS (SELECT id FROM Tag)')).to.be.an.instanceof(Exists);
+		expect(parseCondition('COUNT(DISTINCT id) > 1').toString()).to.equal('COUNT(DISTINCT id) > 1');
+		expect(parseCondition(`title MATCH 'foo bar', content`).toString()).to.equal('title match "foo bar", content');
+	});
+
+	it('parse query', async () => {
+		const select = parseQuery(
+			'select distinct id, title as name from Blog__Post where title = VAR(title) limit 10'
+		);
+		expect(select).to.be.an.instanceof(QuerySelect);
+		expect((select as QuerySelect).collection!.namespace).to.equal('Blog');
+		expect((select as QuerySelect).limit).to.equal(10);
+
+		const aggregate = parseQuery('SELECT category, COUNT(id) AS posts FROM Post GROUP BY category');
+		expect(aggregate).to.be.an.instanceof(QueryAggregate);
+
+		expect(parseQuery('(SELECT id FROM Foo) UNION (SELECT id FROM Bar)')).to.be.an.instanceof(QueryUnion);
+		expect(parseQuery('SELECT LOWER(title) AS title FROM Post')).to.be.an.instanceof(QuerySelect);
+		expect(parseQuery('SELECT ROUND(AVG(likes)) AS likes FROM Post')).to.be.an.instanceof(QueryAggregate);
+		expect(parseQuery(`SELECT DateTrunc('day', postDate) AS day FROM Post`).toString()).to.contain(
+			`SELECT DATETRUNC('day', postDate) AS day`
+		);
+	});
+
+	it('round trip', async () => {
+		const queries = [
+			q
+				.select<any>('id', 'title')
+				.from(q.collection('Post', 'Blog'))
+				.join('a', q.select('id').from('Author'), q.eq(q.field('id', 'a'), q.field('author')))
+				.where(q.and(q.or(q.gt('likes', 5), q.not(q.isNull('title'))), q.in('id', q.var('ids'))))
+				.sort(q.sort('title', 'desc'))
+				.range({ limit: 10, offset: 5 })
+				.distinct(),
+			q
+				.aggregate<any>('category', q.as(q.count('id'), 'posts'))
+				.from('Post')
+				.where(q.exists(q.select('id').from('Tag')))
+				.group(q.field('category'))
+				.having(q.gt(q.count('id'), 10)),
+			q.union(q.select('id').from('Foo'), q.select('id').from('Bar')).range({ limit: 1 }),
+			q
+				.aggregate<any>(q.as(q.year('postDate'), 'year'), q.as(q.count('id'), 'posts'))
+				.from('Post')
+				.where(q.gt(q.round(q.div(q.field('likes'), 2)), 1))
+				.group(q.year('postDate'), q.month('postDate'))
+				.sort(q.sort(q.year('postDate'), 'desc')),
+			q
+				.select<any>(
+					'id',
+					q.as(q.case([[q.and(q.gt('likes', 10), q.isNotNull('title')), q.upper('title')]], 0), 'hot'),
+					q.as(q.dateTrunc('month', 'postDate'), 'month')
+				)
+				.from('Post')
+				.sort(q.sort(q.lower('title'))),
+			q
+				.select<any>('id')
+				.from('Post')
+				.where(q.match(['title__fr', 'content__fr'], q.var('search')))
+				.sort(q.sort(q.rank()), q.sort('postDate', 'desc')),
+			q
+				.select<any>('id', q.as(q.coalesce('title', 'none'), 'title'))
+				.from('Post')
+				.where(
+					q.and(
+						q.eq('title', 'Hello "world"'),
+						q.ne('slug', 'back\\slash'),
+						q.between('category', 'a', 'c'),
+						q.in('status', ['draft', 'published'])
+					)
+				),
+			q.select().from('Post'),
+		];
+
+		for (const query of queries) {
+			expect(parseQuery(query.toString()).toJSON()).to.eql(query.toJSON());
+			expect(parseQuery(query.toString(true)).toJSON()).to.eql(query.toJSON());
+		}
+	});
+
+	it('syntax error', async () => {
+		expect(() => parseCondition('title =')).to.throw(QuerySyntaxError);
+		expect(() => parseCondition('title = "foo')).to.throw(QuerySyntaxError);
+		expect(() => parseCondition('title ~ 1')).to.throw(QuerySyntaxError);
+		expect(() => parseQuery('SELECT id FROM Foo WHERE')).to.throw(QuerySyntaxError);
+		expect(() => parseQuery('SELECT COUNT(id) FROM Foo')).to.throw(QuerySyntaxError);
+		expect(() => parseQuery('SELECT id FROM Foo; DROP TABLE Foo')).to.throw(QuerySyntaxError);
+		expect(() => parseQuery('SELECT FOO(id) AS foo FROM Foo')).to.throw(QuerySyntaxError);
+		expect(() => parseQuery('DELETE Foo')).to.throw(QuerySyntaxError);
+	});
+});
@@ -18,6 +18,9 @@ describe('Query', () => {
 		const a = q.collection('foo', 'bar');
 		const b = a.rename('moo');
 		expect(a).to.not.equal(b);
+		expect(q.showCollection().toString()).to.equal('SHOW COLLECTIONS');
+		expect(q.showCollection('bar').namespace).to.equal('bar');
+		expect(q.showCollection('bar').toString()).to.equal('SHOW COLLECTIONS IN bar');
 	});
 
 	it('variable', async () => {
@@ -79,6 +82,66 @@ describe('Query', () => {
 			expect(fn('foo', q.field('bar')).args.count()).to.equal(2);
 			expect(fn('foo', q.field('bar')).args.get(1)).to.be.an.instanceof(Query.Field);
 		});
+
+		expect(q.countDistinct).to.be.a('function');
+		expect(q.countDistinct('foo')).to.be.an.instanceof(Query.FunctionCountDistinct);
+		expect(q.countDistinct('foo').fn).to.equal('countDistinct');
+		expect(q.countDistinct('foo').args.get(0)).to.be.an.instanceof(Query.Field);
+		expect(q.countDistinct('foo').toString()).to.equal('COUNT(DISTINCT foo)');
+	});
+
+	it('scalar function', async () => {
+		[
+			['lower', 'LOWER'],
+			['upper', 'UPPER'],
+			['len', 'LENGTH'],
+			['trim', 'TRIM'],
+			['abs', 'ABS'],
+			['year', 'YEAR'],
+		].forEach(([fnName, sqlName]) => {
+			const fn = (q as any)[fnName];
+			expect(fn).to.be.a('function');
+			expect(fn('foo')).to.be.an.instanceof(Query.Function);
+			expect(fn('foo').args.get(0)).to.be.an.instanceof(Query.Field);
+			expect(fn('foo').toString()).to.equal(`${sqlName}(foo)`);
+		});
+
+		expect(q.substr('title', 1, 3).toString()).to.equal('SUBSTR(title, 1, 3)');
+		expect(q.substr('title', 2).args.count()).to.equal(2);
+		expect(q.coalesce('title', 'none').toString()).to.equal('COALESCE(title, "none")');
+		expect(q.round(q.div(q.field('likes'), 3), 2).toString()).to.equal('ROUND(DIV(likes, 3), 2)');
+		expect(q.add<any>(q.field('likes'), q.mul(q.field('shares'), 2)).toString()).to.equal(
+			'ADD(likes, MUL(shares, 2))'
+		);
+		expect(q.month(q.field('postDate', 'p')).toString()).to.equal('MONTH(p.postDate)');
+
+		const trunc = q.dateTrunc('month', 'postDate');
+		expect(trunc).to.be.an.instanceof(Query.FunctionDateTrunc);
+		expect(trunc.unit).to.equal('month');
+		expect(trunc.toString()).to.equal(`DATETRUNC('month', postDate)`);
+		expect(() => q.dateTrunc('week' as any, 'postDate')).to.throw();
+
+		const kase = q.case([[q.gt('likes', 10), 'hot'], [q.gt('likes', 0), 'warm']], 'cold');
+		expect(kase).to.be.an.instanceof(Query.FunctionCase);
+		expect(kase.cases.length).to.equal(2);
+		expect(kase.otherwise).to.equal('cold');
+		expect(kase.toString()).to.equal('CASE WHEN likes > 10 THEN "hot" WHEN likes > 0 THEN "warm" ELSE "cold" END');
+		expect(q.case([[q.isNull('title'), 1]]).otherwise).to.equal(null);
+
+		const sort = q.sort<any>(q.lower<any>('title'), 'desc');
+		expect(sort.field).to.be.an.instanceof(Query.FunctionLower);
+		expect(sort.toString()).to.equal('LOWER(title) DESC');
+		expect(sort.rename('foo')).to.equal(sort);
+		expect(
+			q
+				.aggregate<any>(q.as(q.year('postDate'), 'year'), q.as(q.count('id'), 'posts'))
+				.from('Post')
+				.group(q.year('postDate'))
+				.sort(sort)
+				.toString()
+		).to.equal(
+			'SELECT YEAR(postDate) AS year, COUNT(id) AS posts FROM Post GROUP BY YEAR(postDate) SORT BY LOWER(title) DESC OFFSET 0'
+		);
 	});
 
 	it('comparison', async () => {
@@ -90,6 +153,9 @@ describe('Query', () => {
 			['lt', '<'],
 			['lte', '<='],
 			['beginsWith', 'beginsWith'],
+			['endsWith', 'endsWith'],
+			['contains', 'contains'],
+			['like', 'like'],
 		].forEach(([fnName, operator]) => {
 			const fn = (q as any)[fnName];
 			expect(fn).to.be.a('function');
@@ -108,11 +174,44 @@ describe('Query', () => {
 		expect(q.in(q.field('foo'), ['bar']).args.count()).to.equal(1);
 		expect(q.in(q.field('foo'), ['bar']).args.get(0)).to.equal('bar');
 
+		expect(q.notIn(q.field('foo'), ['bar', 'moo'])).to.be.an.instanceof(Query.ComparisonNotIn);
+		expect(q.notIn(q.field('foo'), ['bar', 'moo']).operator).to.equal('notIn');
+		expect(q.notIn(q.field('foo'), ['bar', 'moo']).args.count()).to.equal(2);
+
+		expect(q.between('foo', 1, 5)).to.be.an.instanceof(Query.ComparisonBetween);
+		expect(q.between('foo', 1, 5).operator).to.equal('between');
+		expect(q.between('foo', 1, 5).args.toArray()).to.eql([1, 5]);
+		expect(q.between('foo', 1, 5).toString()).to.equal('foo between 1 and 5');
+
+		expect(q.isNull('foo')).to.be.an.instanceof(Query.ComparisonIsNull);
+		expect(q.isNull('foo').args.count()).to.equal(0);
+		expect(q.isNull('foo').toString()).to.equal('foo isNull');
+		expect(q.isNotNull('foo')).to.be.an.instanceof(Query.ComparisonIsNotNull);
+		expect(q.isNotNull('foo').toString()).to.equal('foo isNotNull');
+		expect(
+			q
+				.isNull('foo')
+				.rename('bar')
+				.toString()
+		).to.equal('bar isNull');
+
 		const a = q.eq('foo', 'bar');
 		const b = a.replaceArgument(() => 'moo');
 		expect(a).to.not.equal(b);
 		expect(b).to.be.an.instanceof(Query.ComparisonEqual);
 		expect(b.args.get(0)).to.equal('moo');
+
+		const match = q.match<any>(['title__fr', q.field('content__fr')], 'bonjour');
+		expect(match).to.be.an.instanceof(Query.ComparisonMatch);
+		expect(match.operator).to.equal('match');
+		expect(match.fields.map(field => field.name)).to.eql(['title__fr', 'content__fr']);
+		expect(match.text).to.equal('bonjour');
+		expect(match.toString()).to.equal('title__fr match "bonjour", content__fr');
+		expect(q.match('title', q.var('search')).fields.length).to.equal(1);
+		expect(() => q.match([], 'bonjour')).to.throw();
+
+		expect(q.rank()).to.be.an.instanceof(Query.FunctionRank);
+		expect(q.sort(q.rank()).toString()).to.equal('RANK() ASC');
 	});
 
 	it('binary', async () => {
@@ -130,6 +229,16 @@ describe('Query', () => {
 			);
 		});
 
+		expect(q.not).to.be.a('function');
+		expect(q.not(q.eq('foo', 'bar'))).to.be.an.instanceof(Query.Binary);
+		expect(q.not(q.eq('foo', 'bar')).operator).to.equal('not');
+		expect(q.not(q.eq('foo', 'bar')).operands.count()).to.equal(1);
+		expect(q.not(q.eq('foo', 'bar')).toString()).to.equal('(NOT foo = "bar")');
+		expect(q.not(q.or(q.eq('foo', 'bar'), q.isNull('moo'))).toString()).to.equal(
+			'(NOT (foo = "bar" OR moo isNull))'
+		);
+		expect(() => q.not(q.eq('foo', 'bar')).add(q.eq('moo', 'joo'))).to.throw();
+
 		const op1 = q.lt('boo', 'hoo');
 		const op2 = q.ne('coo', 'koo');
 		const a = q.and(q.eq('foo', 'bar'), q.gt('moo', 'joo'));
@@ -144,6 +253,205 @@ describe('Query', () => {
 		expect(b).to.equal(d);
 	});
 
+	it('cursor', async () => {
+		const sorts: Query.FieldDirection[] = [q.sort('postDate', 'desc'), q.sort('id', 'asc')];
+		const row = { id: 2, title: 'Foo', postDate: new Date('2018-01-01T00:00:00.000Z') };
+		const cursor = q.cursor(row, sorts);
+		expect(cursor).to.be.a('string');
+		const date = `"${row.postDate.toISOString()}"`;
+
+		expect(q.after(cursor, sorts).toString()).to.equal(
+			`((postDate < ${date} OR postDate isNull) OR (postDate = ${date} AND id > 2))`
+		);
+		expect(q.before(cursor, sorts).toString()).to.equal(
+			`(postDate > ${date} OR (postDate = ${date} AND (id < 2 OR id isNull)))`
+		);
+
+		const nulls = q.cursor({ id: 2, postDate: null }, sorts);
+		expect(q.after(nulls, sorts).toString()).to.equal('((postDate isNull AND id > 2))');
+		expect(q.before(nulls, sorts).toString()).to.equal(
+			'(postDate isNotNull OR (postDate isNull AND (id < 2 OR id isNull)))'
+		);
+		expect(q.after(q.cursor({ id: null }, [q.sort('id')]), [q.sort('id', 'desc')]).toString()).to.equal(
+			'(id isNull AND id isNotNull)'
+		);
+
+		expect(() => q.cursor({ id: 2 }, sorts)).to.throw(Error, 'postDate');
+		expect(() => q.cursor(row, [q.sort(q.rank())] as any)).to.throw();
+		expect(() => q.after('bad', sorts)).to.throw(Error, 'Expected a cursor of 2 values.');
+		expect(() => q.after(q.cursor(row, [q.sort('id')]), sorts)).to.throw(Error, 'Expected a cursor of 2 values.');
+		expect(() =>
+			q.after(Buffer.from('[{"kind":"field","name":"id"}]').toString('base64'), [q.sort('id')])
+		).to.throw(Error);
+	});
+
+	it('subquery', async () => {
+		const sub = q
+			.select<any>('source')
+			.from('Relation')
+			.where(q.eq('target', 'foo'));
+
+		expect(q.in('id', sub).args.count()).to.equal(1);
+		expect(q.in('id', sub).args.get(0)).to.equal(sub);
+		expect(q.in('id', sub).toString()).to.equal(
+			'id in (SELECT source FROM Relation WHERE (target = "foo") OFFSET 0)'
+		);
+		expect(q.eq('id', sub).args.get(0)).to.equal(sub);
+
+		expect(q.exists).to.be.a('function');
+		expect(q.exists(sub)).to.be.an.instanceof(Query.Exists);
+		expect(q.exists(sub).query).to.equal(sub);
+		expect(q.exists(sub).negated).to.equal(false);
+		expect(q.notExists(sub).negated).to.equal(true);
+		expect(q.notExists(sub).toString()).to.equal(
+			'NOT EXISTS (SELECT source FROM Relation WHERE (target = "foo") OFFSET 0)'
+		);
+
+		const a = q.and(q.eq('foo', 'bar'), q.exists(sub));
+		expect(a.operands.get(1)).to.be.an.instanceof(Query.Exists);
+		expect(a.add(q.notExists(sub)).operands.count()).to.equal(3);
+
+		const b = q
+			.select<any>('id')
+			.from('Foo')
+			.where(q.exists(sub));
+		expect(b.conditions).to.be.an.instanceof(Query.Binary);
+		expect(b.conditions!.operands.get(0)).to.be.an.instanceof(Query.Exists);
+	});
+
+	it('join', async () => {
+		const sub = q.select<any>('id').from('Bar');
+		const on = q.eq(q.field('id', 'bar'), q.field('id'));
+
+		['join', 'leftJoin', 'rightJoin', 'fullJoin'].forEach(method => {
+			const select = (q.select<any>('title').from('Foo') as any)[method]('bar', sub, on);
+			expect(select.joins.count()).to.equal(1);
+			expect(select.joins.get(0).alias).to.equal('bar');
+			expect(select.joins.get(0).query).to.equal(sub);
+			expect(select.joins.get(0).on).to.equal(on);
+		});
+
+		expect(
+			q
+				.select<any>('title')
+				.from('Foo')
+				.join('bar', sub, on)
+				.toString()
+		).to.equal('SELECT title FROM Foo JOIN (SELECT id FROM Bar OFFSET 0) AS bar ON bar.id = id OFFSET 0');
+		expect(
+			q
+				.aggregate<any>('title')
+				.from('Foo')
+				.leftJoin('bar', sub, on)
+				.toString()
+		).to.equal('SELECT title FROM Foo LEFT JOIN (SELECT id FROM Bar OFFSET 0) AS bar ON bar.id = id OFFSET 0');
+		expect(
+			q
+				.select<any>('title')
+				.from('Foo')
+				.crossJoin('bar', sub)
+				.toString()
+		).to.equal('SELECT title FROM Foo CROSS JOIN (SELECT id FROM Bar OFFSET 0) AS bar OFFSET 0');
+
+		const a = q.aggregate<any>('title').from('Foo');
+		const b = a.rightJoin('bar', sub, on).fullJoin('baz', sub, on);
+		expect(a).to.not.equal(b);
+		expect(a.joins).to.equal(undefined);
+		expect(b.joins!.map(join => join!.type).toArray()).to.eql(['right', 'full']);
+	});
+
+	it('distinct', async () => {
+		const a = q.select<any>('title').from('Foo');
+		const b = a.distinct();
+		expect(a.isDistinct).to.equal(false);
+		expect(b.isDistinct).to.equal(true);
+		expect(b.distinct()).to.equal(b);
+		expect(b.distinct(false).isDistinct).to.equal(false);
+		expect(b.where(q.eq('title', 'bar')).isDistinct).to.equal(true);
+		expect(b.toString()).to.equal('SELECT DISTINCT title FROM Foo OFFSET 0');
+
+		const c = q
+			.aggregate<any>('title')
+			.from('Foo')
+			.distinct();
+		expect(c.isDistinct).to.equal(true);
+		expect(c.group(q.field('title')).isDistinct).to.equal(true);
+		expect(c.toString()).to.equal('SELECT DISTINCT title FROM Foo OFFSET 0');
+	});
+
+	it('having', async () => {
+		const a = q
+			.aggregate<any>('category', q.as(q.count('id'), 'posts'))
+			.from('Post')
+			.group(q.field('category'));
+		const b = a.having(q.gt(q.count('id'), 10));
+		expect(a.havingConditions).to.equal(undefined);
+		expect(b.havingConditions).to.be.an.instanceof(Query.Binary);
+		expect(b.havingConditions!.operands.get(0)).to.be.an.instanceof(Query.ComparisonGreaterThan);
+		expect(b.sort(q.sort('category')).havingConditions).to.equal(b.havingConditions);
+
+		// Having conditions are the last argument of the constructor
+		const sorted = b.sort(q.sort('category'));
+		const positional = new Query.QueryAggregate(
+			sorted.fields,
+			sorted.collection,
+			sorted.joins,
+			sorted.conditions,
+			sorted.groups,
+			sorted.sorts
+		);
+		expect(positional.sorts).to.equal(sorted.sorts);
+		expect(positional.havingConditions).to.equal(undefined);
+		expect(b.toString()).to.equal(
+			'SELECT category, COUNT(id) AS posts FROM Post GROUP BY category HAVING (COUNT(id) > 10) OFFSET 0'
+		);
+	});
+
+	it('upsert', async () => {
+		const insert = q.insert<any>('Foo').add({ id: 1, title: 'foo' });
+		const ignore = insert.onConflict('id').doNothing();
+		expect(insert.conflict).to.equal(undefined);
+		expect(ignore.objects).to.equal(insert.objects);
+		expect(ignore.conflict!.action).to.equal('nothing');
+		expect(ignore.conflict!.columns.get(0)).to.be.an.instanceof(Query.Field);
+		expect(ignore.toString()).to.equal('INSERT Foo (id, title) VALUES (1, "foo") ON CONFLICT (id) DO NOTHING');
+		expect(ignore.add({ id: 2, title: 'bar' }).conflict).to.equal(ignore.conflict);
+
+		const update = insert.onConflict(q.field('id')).doUpdate({ title: 'bar' });
+		expect(update.conflict!.action).to.equal('update');
+		expect(update.conflict!.object).to.eql({ title: 'bar' });
+		expect(update.toString()).to.equal(
+			'INSERT Foo (id, title) VALUES (1, "foo") ON CONFLICT (id) DO UPDATE SET title = "bar"'
+		);
+		expect(insert.onConflict('id').doUpdate().conflict!.object).to.equal(undefined);
+		expect(() => insert.onConflict()).to.throw();
+	});
+
+	it('returning', async () => {
+		const insert = q.insert<any>('Foo').add({ id: 1 });
+		expect(insert.returningFields).to.equal(undefined);
+		expect(insert.returning().returningFields!.count()).to.equal(0);
+		expect(insert.returning().toString()).to.equal('INSERT Foo (id) VALUES (1) RETURNING *');
+		expect(
+			insert
+				.returning('id')
+				.onConflict('id')
+				.doNothing()
+				.returningFields!.get(0)
+		).to.be.an.instanceof(Query.Field);
+
+		const update = q
+			.update<any>('Foo')
+			.set({ title: 'bar' })
+			.returning('id', q.as('title', 'name'));
+		expect(update.returningFields!.count()).to.equal(2);
+		expect(update.where(q.eq('id', 1)).returningFields).to.equal(update.returningFields);
+
+		const remove = q.delete('Foo').returning('id');
+		expect(remove.returningFields!.get(0)).to.be.an.instanceof(Query.Field);
+		expect(remove.where(q.eq('id', 1)).returningFields).to.equal(remove.returningFields);
+	});
+
 	it('column', async () => {
 		expect(q.column).to.be.a('function');
 		expect(q.column('foo', ColumnType.Int, 8, 0, false)).to.be.an.instanceof(Query.Column);
@@ -170,6 +478,38 @@ describe('Query', () => {
 		expect(a).to.not.equal(b);
 		expect(a).to.not.equal(c);
 		expect(a).to.equal(d);
+		expect(a.nullable).to.equal(true);
+
+		const e = q.column('likes', ColumnType.Int, 64, 0, false, {
+			nullable: false,
+			check: q.gt('likes', -1),
+			collate: 'BINARY',
+		});
+		expect(e.nullable).to.equal(false);
+		expect(e.check).to.be.an.instanceof(Query.Comparison);
+		expect(e.collate).to.equal('BINARY');
+		expect(e.rename('views').check).to.equal(e.check);
+		expect(e.resize(32).nullable).to.equal(false);
+		expect(e.toString()).to.equal('likes INT(64) NOT NULL COLLATE BINARY CHECK(likes > -1)');
+		expect(e.equal(e.resize(32).resize(64))).to.equal(true);
+		expect(e.equal(q.column('likes', ColumnType.Int, 64, 0, false, { nullable: false }))).to.equal(false);
+
+		const f = q.column('price', ColumnType.Decimal, 10, undefined, false, { scale: 2 });
+		expect(f.scale).to.equal(2);
+		expect(f.resize(12).scale).to.equal(2);
+		expect(f.toString()).to.equal('price DECIMAL(10, 2)');
+
+		const g = q.column('status', ColumnType.Enum, undefined, 'draft', false, { values: ['draft', 'published'] });
+		expect(g.values!.toArray()).to.eql(['draft', 'published']);
+		expect(g.rename('state').values).to.equal(g.values);
+		expect(g.toString()).to.equal('status ENUM(draft, published) DEFAULT("draft")');
+		expect(
+			g.equal(q.column('status', ColumnType.Enum, undefined, 'draft', false, { values: ['draft', 'published'] }))
+		).to.equal(true);
+		expect(g.equal(q.column('status', ColumnType.Enum, undefined, 'draft', false, { values: ['draft'] }))).to.equal(
+			false
+		);
+		expect(() => q.column('status', ColumnType.Enum)).to.throw();
 	});
 
 	it('index', async () => {
@@ -187,4 +527,170 @@ describe('Query', () => {
 		expect(a).to.not.equal(b);
 		expect(b.columns.count()).to.equal(2);
 	});
+
+	it('foreign key', async () => {
+		expect(q.foreignKey).to.be.a('function');
+		const a = q.foreignKey('author', 'Author', 'id', { onDelete: 'cascade' });
+		expect(a).to.be.an.instanceof(Query.ForeignKey);
+		expect(a.columns.toArray()).to.eql(['author']);
+		expect(a.collection).to.be.an.instanceof(Query.Collection);
+		expect(a.refColumns.toArray()).to.eql(['id']);
+		expect(a.onDelete).to.equal('cascade');
+		expect(a.onUpdate).to.equal('noAction');
+		expect(a.toString()).to.equal('FOREIGN KEY (author) REFERENCES Author (id) ON DELETE cascade');
+		expect(a.equal(q.foreignKey(['author'], q.collection('Author'), ['id'], { onDelete: 'cascade' }))).to.equal(
+			true
+		);
+		expect(a.equal(q.foreignKey('author', 'Author', 'id'))).to.equal(false);
+		expect(() => q.foreignKey(['a', 'b'], 'Author', 'id')).to.throw();
+
+		expect(
+			q
+				.createCollection('Post')
+				.define([q.column('author', ColumnType.Int)], [], [a])
+				.toString()
+		).to.equal(
+			'CREATE COLLECTION Post ( author INT )  INDEXES (  )  FOREIGN KEYS ( FOREIGN KEY (author) REFERENCES Author (id) ON DELETE cascade )'
+		);
+		expect(
+			q
+				.alterCollection('Post')
+				.addForeignKey(a)
+				.dropForeignKey('author')
+				.toString()
+		).to.equal(
+			'ALTER COLLECTION Post ( ADDFK FOREIGN KEY (author) REFERENCES Author (id) ON DELETE cascade, DROPFK (author) )'
+		);
+	});
+
+	it('view', async () => {
+		const published = q
+			.select('id', 'title')
+			.from('Post')
+			.where(q.eq('published', true));
+		const view = q.createView('PublishedPost', published);
+		expect(view).to.be.an.instanceof(Query.QueryCreateView);
+		expect(view.collection.toString()).to.equal('PublishedPost');
+		expect(view.select).to.equal(published);
+		expect(view.toString()).to.equal(
+			'CREATE VIEW PublishedPost AS SELECT id, title FROM Post WHERE (published = true) OFFSET 0'
+		);
+		expect(view.rename('Published')).to.not.equal(view);
+		expect(view.rename('PublishedPost')).to.equal(view);
+		expect(() => q.createView('PublishedPost', q.aggregate('id').from('Post') as any)).to.throw();
+
+		const drop = q.dropView(q.collection('PublishedPost', 'Blog'));
+		expect(drop).to.be.an.instanceof(Query.QueryDropView);
+		expect(drop.toString()).to.equal('DROP VIEW Blog__PublishedPost');
+	});
+
+	it('json', async () => {
+		expect(q.field('foo', 'bar').toJSON()).to.eql({ kind: 'field', name: 'foo', alias: 'bar' });
+		expect(q.eq('foo', new Date(0)).toJSON()).to.eql({
+			kind: 'comparison',
+			operator: '=',
+			field: { kind: 'field', name: 'foo' },
+			args: [{ kind: 'date', value: '1970-01-01T00:00:00.000Z' }],
+		});
+
+		const queries: Query.Query[] = [
+			q
+				.aggregate<any>('category', q.as(q.countDistinct('id'), 'posts'))
+				.from(q.collection('Post', 'Blog'))
+				.leftJoin('a', q.select('id').from('Author'), q.eq(q.field('id', 'a'), q.field('author')))
+				.where(
+					q.and(
+						q.between('likes', 1, 5),
+						q.not(q.isNull('title')),
+						q.exists(q.select('id').from('Tag')),
+						q.in('id', q.var('ids'))
+					)
+				)
+				.group(q.field('category'))
+				.having(q.gt(q.count('id'), 10))
+				.sort(q.sort('category', 'desc'))
+				.range({ limit: 10 })
+				.distinct(),
+			q.union(q.select('id').from('Foo'), q.select('id').from('Bar')).range({ limit: 1, offset: 1 }),
+			q
+				.insert<any>('Foo')
+				.add({ id: 1, title: 'foo', postDate: new Date(0), meta: { tags: ['a'] }, data: Buffer.from('foo') })
+				.onConflict('id')
+				.doUpdate({ title: q.field('title', 'excluded') })
+				.returning('id'),
+			q
+				.update<any>('Foo')
+				.set({ title: 'bar' })
+				.where(q.like('title', 'f%')),
+			q.delete('Foo').where(q.notIn('id', [1, 2])),
+			q.showCollection(),
+			q.showCollection('Blog'),
+			q.collectionExists('Foo'),
+			q.describeCollection('Foo'),
+			q.createCollection('Foo').define(
+				[
+					q.column('id', ColumnType.UInt, 64, null, true),
+					q.column('title', ColumnType.Text, 128, 'foo', false, {
+						nullable: false,
+						check: q.ne('title', ''),
+						collate: 'NOCASE',
+					}),
+					q.column('price', ColumnType.Decimal, 10, undefined, false, { scale: 2 }),
+					q.column('status', ColumnType.Enum, undefined, undefined, false, { values: ['draft'] }),
+					q.column('meta', ColumnType.Json),
+				],
+				[q.index('Foo_id', IndexType.Primary, [q.sort('id', 'asc')])],
+				[q.foreignKey('title', q.collection('Bar', 'Baz'), 'name', { onUpdate: 'setNull' })]
+			),
+			q
+				.alterCollection('Foo')
+				.addColumn(q.column('likes', ColumnType.Int), 'id')
+				.alterColumn('title', q.column('title', ColumnType.Text))
+				.dropColumn('likes')
+				.addIndex(q.index('Foo_title', IndexType.Unique, [q.sort('title', 'asc')]))
+				.dropIndex('Foo_title')
+				.addForeignKey(q.foreignKey(['id', 'title'], 'Bar', ['id', 'name'], { onDelete: 'restrict' }))
+				.dropForeignKey(['id', 'title'])
+				.rename('Bar'),
+			q.dropCollection('Foo'),
+			q
+				.select<any>(q.as(q.case([[q.gt(q.len('title'), 10), q.upper('title')]], q.field('title')), 'title'))
+				.from('Post')
+				.where(q.eq(q.dateTrunc('day', 'postDate'), q.var('day')))
+				.sort(q.sort(q.coalesce('likes', 0), 'desc')),
+			q
+				.select('id')
+				.from('Post')
+				.where(q.match(['title', 'content'], q.var('search')))
+				.sort(q.sort(q.rank())),
+			q.alterCollection('Post').addIndex(q.index('Post_search', IndexType.FullText, [q.sort('title', 'asc')])),
+			q.createView(
+				'PublishedPost',
+				q
+					.select('id', 'title')
+					.from('Post')
+					.where(q.eq('published', true))
+			),
+			q.dropView('PublishedPost'),
+		];
+
+		for (const query of queries) {
+			const json = (query as any).toJSON();
+			const parsed = q.fromJSON(JSON.stringify(json));
+			expect(parsed).to.be.an.instanceof(query.constructor);
+			expect(parsed).to.not.equal(query);
+			expect(parsed.toJSON()).to.eql(json);
+			expect(parsed.toString()).to.equal(query.toString());
+		}
+
+		const insert = q.fromJSON<Query.QueryInsert>(JSON.stringify(queries[2]));
+		expect(insert.objects!.get(0).postDate).to.be.an.instanceof(Date);
+		expect(insert.objects!.get(0).meta).to.eql({ tags: ['a'] });
+		expect(insert.objects!.get(0).data).to.eql(Buffer.from('foo'));
+		expect(insert.toString()).to.contain('{"tags":["a"]}');
+		expect(insert.conflict!.object!.title).to.be.an.instanceof(Query.Field);
+
+		expect(() => q.fromJSON({ kind: 'foo' })).to.throw();
+		expect(() => q.fromJSON({ kind: 'function', fn: 'foo', args: [] })).to.throw();
+	});
 });
@@ -1,28 +1,35 @@
 import 'mocha';
 import { expect } from 'chai';
 import { q, Field } from '../src/Query';
-import { simplifyBinaryTree, decomposeBinaryTree, replaceField } from '../src/Utils';
+import { simplifyBinaryTree, decomposeBinaryTree, replaceField, QueryTooComplexeError } from '../src/Utils';
 import { List } from 'immutable';
 
 describe('Utils', () => {
 	it('simplifyBinaryTree', async () => {
 		const a = q.and(q.and(q.eq('foo', 'bar'), q.gt('age', 21)), q.eq('gender', 'male'));
-		expect(a.toString()).to.equal('((foo = bar AND age > 21) AND gender = male)');
+		expect(a.toString()).to.equal('((foo = "bar" AND age > 21) AND gender = "male")');
 
 		const b = simplifyBinaryTree(a);
 		expect(a).to.not.equal(b);
-		expect(b.toString()).to.equal('(foo = bar AND age > 21 AND gender = male)');
+		expect(b.toString()).to.equal('(foo = "bar" AND age > 21 AND gender = "male")');
+
+		const c = q.and(q.not(q.not(q.eq('foo', 'bar'))), q.and(q.eq('gender', 'male')));
+		expect(simplifyBinaryTree(c).toString()).to.equal('((NOT (NOT foo = "bar")) AND gender = "male")');
 	});
 
 	it('decomposeBinaryTree', async () => {
 		const a = q.and(q.or(q.eq('foo', 'bar'), q.gt('age', 21)), q.eq('gender', 'male'));
-		expect(a.toString()).to.equal('((foo = bar OR age > 21) AND gender = male)');
+		expect(a.toString()).to.equal('((foo = "bar" OR age > 21) AND gender = "male")');
 
 		const b = decomposeBinaryTree(a);
 		expect(a).to.not.equal(b);
 		expect(b.length).to.equal(2);
-		expect(b[0].toString()).to.equal('(foo = bar AND gender = male)');
-		expect(b[1].toString()).to.equal('(age > 21 AND gender = male)');
+		expect(b[0].toString()).to.equal('(foo = "bar" AND gender = "male")');
+		expect(b[1].toString()).to.equal('(age > 21 AND gender = "male")');
+
+		expect(() => decomposeBinaryTree(q.and(q.not(q.eq('foo', 'bar')), q.eq('gender', 'male')))).to.throw(
+			QueryTooComplexeError
+		);
 	});
 
 	it('renameField', async () => {
@@ -71,6 +78,6 @@ describe('Utils', () => {
 		expect(cc).to.not.equal(c);
 		expect(replaceField(c, new Map())).to.equal(c);
 		expect(cc.get(0).alias).to.equal('foo');
-		expect(cc.get(0).on.toString()).to.equal('(foo2 = bar AND age > 21)');
+		expect(cc.get(0).on.toString()).to.equal('(foo2 = "bar" AND age > 21)');
 	});
 });
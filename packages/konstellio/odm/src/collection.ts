@@ -9,6 +9,7 @@ import {
 	BinaryExpression,
 	Function,
 	Transaction,
+	QueryCommitResult,
 	QueryDelete,
 	replaceField,
 	Comparison,
@@ -16,7 +17,7 @@ import {
 import * as assert from 'assert';
 import * as Dataloader from 'dataloader';
 import * as Joi from 'joi';
-import { Schema, Field as SchemaField, validateSchema, createValidator, isUnion } from './schema';
+import { Schema, Field as SchemaField, validateSchema, createValidator, isUnion, isView } from './schema';
 import { KnownDirectivesRule, assertType } from 'graphql';
 import { isArray } from 'util';
 import uuid = require('uuid');
@@ -42,6 +43,9 @@ const createRelationQuery = q.insert(relationCollection).add({
 	seq: q.var('seq'),
 });
 const deleteRelationQuery = q.delete(relationCollection).where(q.in('source', q.var('sources')));
+const deleteDocumentRelationQuery = q
+	.delete(relationCollection)
+	.where(q.or(q.eq('source', q.var('id')), q.eq('target', q.var('id'))));
 
 export interface OptionFindById {
 	locale?: string;
@@ -78,6 +82,23 @@ export interface OptionFindManySelect<Columns, Indexes> {
 	offset?: number;
 	limit?: number;
 }
+export interface OptionIterate<Indexes> {
+	locale?: string;
+	condition?: BinaryExpression<Indexes>;
+	sort?: FieldDirection<Indexes>[];
+	offset?: number;
+	limit?: number;
+	batchSize?: number;
+}
+export interface OptionIterateSelect<Columns, Indexes> {
+	locale?: string;
+	fields?: Columns[];
+	condition?: BinaryExpression<Indexes>;
+	sort?: FieldDirection<Indexes>[];
+	offset?: number;
+	limit?: number;
+	batchSize?: number;
+}
 export interface OptionAggregate<Indexes> {
 	locale?: string;
 	condition?: BinaryExpression<Indexes>;
@@ -146,8 +167,9 @@ export class Collection<
 		this.fieldTransforms = this.schemaFields.reduce(
 			(prev, def) => {
 				if (def.inlined) {
+					// Columns created before inlined fields were stored as JSON still hold a string
 					return (row: any) => {
-						row[def.handle] && (row[def.handle] = JSON.parse(row[def.handle]));
+						typeof row[def.handle] === 'string' && (row[def.handle] = JSON.parse(row[def.handle]));
 						return prev(row);
 					};
 				} else if (def.multiple) {
@@ -160,7 +182,7 @@ export class Collection<
 						row[def.handle] && (row[def.handle] = parseInt(row[def.handle], 10) || 0);
 						return prev(row);
 					};
-				} else if (def.type === 'float') {
+				} else if (def.type === 'float' || def.type === 'decimal') {
 					return (row: any) => {
 						row[def.handle] && (row[def.handle] = parseFloat(row[def.handle]) || 0);
 						return prev(row);
@@ -170,6 +192,11 @@ export class Collection<
 						row[def.handle] && (row[def.handle] = !!row[def.handle]);
 						return prev(row);
 					};
+				} else if (def.type === 'json') {
+					return (row: any) => {
+						typeof row[def.handle] === 'string' && (row[def.handle] = JSON.parse(row[def.handle]));
+						return prev(row);
+					};
 				} else if (def.type === 'date' || def.type === 'datetime') {
 					return (row: any) => {
 						row[def.handle] && (row[def.handle] = new Date(row[def.handle]));
@@ -342,6 +369,48 @@ export class Collection<
 	async findMany<K extends keyof Columns>(
 		options: OptionFindMany<Indexes> | OptionFindManySelect<K, Indexes> = {}
 	): Promise<Columns[] | Pick<Columns, K>[]> {
+		const { query, locale, relationalFields } = this.prepareFindMany(options);
+		const result = await this.database.execute<Partial<Columns>>(query);
+
+		await this.resolveRelations(result.results, relationalFields, locale);
+
+		return result.results.map<any>(row => this.fieldTransforms(row));
+	}
+
+	// Plan of the query findMany would run for these options
+	explain(options: OptionFindMany<Indexes> | OptionFindManySelect<keyof Columns, Indexes> = {}) {
+		const { query } = this.prepareFindMany(options);
+		return this.database.explain(query);
+	}
+
+	iterate(options?: OptionIterate<Indexes>): AsyncIterableIterator<Columns>;
+	iterate<K extends keyof Columns>(
+		options?: OptionIterateSelect<K, Indexes>
+	): AsyncIterableIterator<Pick<Columns, K>>;
+	async *iterate<K extends keyof Columns>(
+		options: OptionIterate<Indexes> | OptionIterateSelect<K, Indexes> = {}
+	): AsyncIterableIterator<any> {
+		const { query, locale, relationalFields } = this.prepareFindMany(options);
+		const batchSize = options.batchSize || 100;
+
+		// Relations are resolved by batch to avoid one query per row
+		let batch: Partial<Columns>[] = [];
+		for await (const row of this.database.stream<Partial<Columns>>(query)) {
+			batch.push(row);
+			if (batch.length >= batchSize) {
+				await this.resolveRelations(batch, relationalFields, locale);
+				yield* batch.map(item => this.fieldTransforms(item));
+				batch = [];
+			}
+		}
+
+		if (batch.length) {
+			await this.resolveRelations(batch, relationalFields, locale);
+			yield* batch.map(item => this.fieldTransforms(item));
+		}
+	}
+
+	protected prepareFindMany(options: OptionFindMany<Indexes> | OptionFindManySelect<string, Indexes>) {
 		const locale = this.locales.length ? options.locale || this.locales[0] : undefined;
 		const fieldMap = this.localizedFieldMap.get(locale || '');
 
@@ -351,7 +420,7 @@ export class Collection<
 
 		const featuresJoin = this.database.features.join;
 		const fields: string[] =
-			((options as OptionAggregateSelect<K, Indexes>).fields as (string[] | undefined)) || [];
+			((options as OptionFindManySelect<string, Indexes>).fields as (string[] | undefined)) || [];
 
 		if (fields.length === 0) {
 			fields.push(...this.schemaFields.map(field => field.handle));
@@ -404,9 +473,9 @@ export class Collection<
 				if (def.relation || def.multiple) {
 					const used = fieldUsed.find(field => field.name === def.handle);
 					if (used) {
-						const localizedHandle = replaceField(def.handle, fieldMap);
+						const localizedHandle = locale && def.localized ? `${def.handle}__${locale}` : def.handle;
 						const alias = `ref__${localizedHandle}`;
-						query = query.join(
+						query = query.leftJoin(
 							alias,
 							q
 								.select('collection', 'field', 'source', 'target', 'seq')
@@ -419,10 +488,12 @@ export class Collection<
 			}
 		}
 
-		const result = await this.database.execute<Partial<Columns>>(query);
+		return { query, locale, relationalFields };
+	}
 
-		if (featuresJoin && relationalFields.length) {
-			const sources: string[] = result.results.map(({ id }: any) => id);
+	protected async resolveRelations(rows: Partial<Columns>[], relationalFields: string[], locale?: string) {
+		if (this.database.features.join && relationalFields.length) {
+			const sources: string[] = rows.map(({ id }: any) => id);
 			const relationFieldMap: Map<string, SchemaField> = new Map(
 				this.schemaFields.reduce(
 					(map, def) => {
@@ -438,7 +509,7 @@ export class Collection<
 				selectRelationQuery,
 				{ sources, fields: Array.from(relationFieldMap.keys()), collection: this.schema.handle }
 			);
-			for (const row of result.results) {
+			for (const row of rows) {
 				for (const rel of relResult.results) {
 					if (rel.source === row.id) {
 						const field = relationFieldMap.get(rel.field)!;
@@ -452,8 +523,6 @@ export class Collection<
 				}
 			}
 		}
-
-		return result.results.map<any>(row => this.fieldTransforms(row));
 	}
 
 	// async aggregate(options?: OptionAggregate<Indexes>): Promise<Columns[]>;
@@ -468,9 +537,6 @@ export class Collection<
 			(flatten, def) => {
 				if (def.localized) {
 					for (const locale of this.locales) {
-						if (def.inlined) {
-							data[def.handle][locale] = JSON.stringify(data[def.handle][locale]);
-						}
 						const handle = `${def.handle}__${locale}`;
 						if (featuresJoin && (def.relation || def.multiple)) {
 							flatten.relations[handle] = isArray(data[def.handle][locale])
@@ -481,9 +547,6 @@ export class Collection<
 						}
 					}
 				} else {
-					if (def.inlined) {
-						data[def.handle] = JSON.stringify(data[def.handle]);
-					}
 					if (featuresJoin && (def.relation || def.multiple)) {
 						flatten.relations[def.handle] = isArray(data[def.handle])
 							? data[def.handle]
@@ -533,9 +596,23 @@ export class Collection<
 		}
 	}
 
+	// Runs a write in a transaction of its own, which is rolled back if the write can not be executed
+	protected async executeInTransaction<T>(write: (transaction: Transaction) => T): Promise<[T, QueryCommitResult]> {
+		const transaction = await this.database.transaction();
+		let value: T;
+		try {
+			value = write(transaction);
+		} catch (err) {
+			await transaction.rollback();
+			throw err;
+		}
+		return [value, await transaction.commit()];
+	}
+
 	create(data: Inputs): Promise<string>;
 	create(data: Inputs, transaction: Transaction): void;
 	create(data: Inputs, transaction?: Transaction): Promise<string> | void {
+		this.assertWritable();
 		data.id = data.id || uuid();
 
 		const featuresJoin = this.database.features.join;
@@ -557,19 +634,18 @@ export class Collection<
 		if (transaction) {
 			executeCreate(transaction, data);
 			return;
-		} else {
-			return new Promise<any>(async resolve => {
-				const transaction = await this.database.transaction();
-				executeCreate(transaction, data);
-				await transaction.commit();
-				resolve(data.id!);
-			});
 		}
+		const create = async () => {
+			await this.executeInTransaction(transaction => executeCreate(transaction, data));
+			return data.id!;
+		};
+		return create();
 	}
 
-	replace(data: Inputs): Promise<void>;
+	replace(data: Inputs): Promise<boolean>;
 	replace(data: Inputs, transaction: Transaction): void;
-	replace(data: Inputs, transaction?: Transaction): Promise<void> | void {
+	replace(data: Inputs, transaction?: Transaction): Promise<boolean> | void {
+		this.assertWritable();
 		const featuresJoin = this.database.features.join;
 		const executeCreate = (transaction: Transaction, data: any) => {
 			assert(data.id, `Provided data needs an ID.`);
@@ -579,7 +655,11 @@ export class Collection<
 			const { fields, relations } = this.flattenLocalizedFields(rest);
 			delete fields.id;
 
+			// Results are reported per statement, the update's is at the count of those executed before it
+			let executed = 0;
 			transaction.execute(deleteRelationQuery, { sources: [id] });
+			executed += 1;
+			const statement = executed;
 			transaction.execute(
 				q
 					.update(this.collection)
@@ -591,37 +671,93 @@ export class Collection<
 			}
 
 			transaction.once('commit', () => this.emitAsync('replace', data));
+			return statement;
 		};
 
 		if (transaction) {
 			executeCreate(transaction, data);
 			return;
-		} else {
-			return new Promise<any>(async resolve => {
-				const transaction = await this.database.transaction();
-				executeCreate(transaction, data);
-				await transaction.commit();
-				resolve();
-			});
 		}
+		const replace = async () => {
+			const [statement, result] = await this.executeInTransaction(transaction =>
+				executeCreate(transaction, data)
+			);
+			return result.statements[statement].changes > 0;
+		};
+		return replace();
 	}
 
-	delete(id: string): Promise<void>;
-	delete(id: string, transaction: Transaction): void;
-	delete(id: string, transaction?: Transaction): Promise<void> | void {
+	upsert(data: Inputs): Promise<string>;
+	upsert(data: Inputs, transaction: Transaction): void;
+	upsert(data: Inputs, transaction?: Transaction): Promise<string> | void {
+		this.assertWritable();
+		data.id = data.id || uuid();
+
+		const featuresJoin = this.database.features.join;
+		const executeUpsert = (transaction: Transaction, data: any) => {
+			assert(this.validate(data), `Provided data is not valid for ${this.schema.handle}.`);
+
+			const { id, ...rest } = data as any;
+			const { fields, relations } = this.flattenLocalizedFields(rest);
+			delete fields.id;
+
+			transaction.execute(deleteRelationQuery, { sources: [id] });
+			transaction.execute(
+				q
+					.insert(this.collection)
+					.add({ id, ...fields })
+					.onConflict('id')
+					.doUpdate()
+			);
+			if (featuresJoin) {
+				this.addRelationToTransaction(transaction, id!, relations);
+			}
+
+			transaction.once('commit', () => this.emitAsync('upsert', data));
+		};
+
 		if (transaction) {
+			executeUpsert(transaction, data);
+			return;
+		}
+		const upsert = async () => {
+			await this.executeInTransaction(transaction => executeUpsert(transaction, data));
+			return data.id!;
+		};
+		return upsert();
+	}
+
+	delete(id: string): Promise<boolean>;
+	delete(id: string, transaction: Transaction): void;
+	delete(id: string, transaction?: Transaction): Promise<boolean> | void {
+		this.assertWritable();
+		const featuresJoin = this.database.features.join;
+		const executeDelete = (transaction: Transaction) => {
+			// Nothing is executed before the delete, its result is the first one of the statements
+			const statement = 0;
 			transaction.execute(this.deleteQuery, { id });
+			// Relations can target any collection, they are not covered by a foreign key
+			if (featuresJoin) {
+				transaction.execute(deleteDocumentRelationQuery, { id });
+			}
+			return statement;
+		};
+
+		if (transaction) {
+			executeDelete(transaction);
 			transaction.once('commit', () => this.emitAsync('delete', id));
 			return;
-		} else {
-			return new Promise(async resolve => {
-				const transaction = await this.database.transaction();
-				transaction.execute(this.deleteQuery, { id });
-				await transaction.commit();
-				await this.emitAsync('delete', id);
-				resolve();
-			});
 		}
+		const remove = async () => {
+			const [statement, result] = await this.executeInTransaction(executeDelete);
+			await this.emitAsync('delete', id);
+			return result.statements[statement].changes > 0;
+		};
+		return remove();
+	}
+
+	protected assertWritable(): void {
+		assert(!isView(this.schema), `Collection ${this.schema.handle} is a view and can not be written to.`);
 	}
 
 	validate(data: any, errors: Joi.ValidationErrorItem[] = []): data is Inputs {
@@ -11,6 +11,7 @@ export {
 	IndexType,
 	isSchema,
 	isObject,
+	isView,
 	isObjectBase,
 	isUnion,
 	validateSchema,
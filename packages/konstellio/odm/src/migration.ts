@@ -7,6 +7,9 @@ import {
 	QueryDropCollection,
 	QueryCreateCollection,
 	QueryAlterCollection,
+	QueryCreateView,
+	QueryDropView,
+	QuerySelect,
 	Transaction,
 	Column,
 } from '@konstellio/db';
@@ -19,8 +22,8 @@ import {
 	FieldType,
 	IndexType,
 	isUnion,
+	isView,
 	Object,
-	ObjectBase,
 } from './schema';
 
 function dbFieldTypeToSchemaFieldType(type: ColumnType): FieldType {
@@ -37,6 +40,16 @@ function dbFieldTypeToSchemaFieldType(type: ColumnType): FieldType {
 			return 'date';
 		case ColumnType.DateTime:
 			return 'datetime';
+		case ColumnType.Time:
+			return 'time';
+		case ColumnType.Decimal:
+			return 'decimal';
+		case ColumnType.Uuid:
+			return 'uuid';
+		case ColumnType.Json:
+			return 'json';
+		case ColumnType.Enum:
+			return 'enum';
 		case ColumnType.Text:
 		case ColumnType.Blob:
 		default:
@@ -44,6 +57,13 @@ function dbFieldTypeToSchemaFieldType(type: ColumnType): FieldType {
 	}
 }
 
+function columnDefinition(column: Column): Pick<Field, 'scale' | 'values'> {
+	return {
+		...(column.scale !== undefined && { scale: column.scale }),
+		...(column.values && { values: column.values.toArray() }),
+	};
+}
+
 function dbIndexTypeToSchemaIndexType(type: DBIndexType): IndexType {
 	switch (type) {
 		case DBIndexType.Primary:
@@ -63,6 +83,10 @@ export async function extractSchemaFromDatabase(database: Database): Promise<[Sc
 	const result = await database.execute(q.showCollection());
 	for (const collection of result.collections) {
 		const description = await database.execute(q.describeCollection(collection));
+		// Views created without a select can not be compared, they are left alone
+		if (description.readOnly && !description.view) {
+			continue;
+		}
 
 		schemas.push({
 			handle: description.collection.name,
@@ -79,6 +103,8 @@ export async function extractSchemaFromDatabase(database: Database): Promise<[Sc
 								type: dbFieldTypeToSchemaFieldType(column.type),
 								size: column.size,
 								localized: true,
+								required: !column.nullable,
+								...columnDefinition(column),
 							});
 						}
 					} else {
@@ -87,6 +113,8 @@ export async function extractSchemaFromDatabase(database: Database): Promise<[Sc
 							type: dbFieldTypeToSchemaFieldType(column.type),
 							size: column.size,
 							localized: false,
+							required: !column.nullable,
+							...columnDefinition(column),
 						});
 					}
 					return fields;
@@ -139,6 +167,7 @@ export async function extractSchemaFromDatabase(database: Database): Promise<[Sc
 				},
 				[] as Index[]
 			),
+			...(description.view && { view: description.view }),
 		});
 	}
 
@@ -179,6 +208,9 @@ export type Diff =
 	| { action: 'add_collection'; collection: Schema }
 	| { action: 'rename_collection'; collection: string; target: string }
 	| { action: 'drop_collection'; collection: string }
+	| { action: 'add_view'; collection: string; view: QuerySelect }
+	| { action: 'alter_view'; collection: string; view: QuerySelect }
+	| { action: 'drop_view'; collection: string }
 	| { action: 'add_field'; collection: string; field: Field; copyFrom?: string }
 	| { action: 'drop_field'; collection: string; field: string }
 	| { action: 'alter_field'; collection: string; field: string; definition: Field }
@@ -196,7 +228,14 @@ export function computeSchemaDiff(source: Schema[], target: Schema[], comparator
 	for (const targetObject of target) {
 		const sourceObject = source.find(object => object.handle === targetObject.handle);
 		if (!sourceObject) {
-			diffs.push({ action: 'add_collection', collection: targetObject });
+			diffs.push(addDiff(targetObject));
+		} else if (isView(sourceObject) && isView(targetObject)) {
+			if (JSON.stringify(sourceObject.view.toJSON()) !== JSON.stringify(targetObject.view.toJSON())) {
+				diffs.push({ action: 'alter_view', collection: targetObject.handle, view: targetObject.view });
+			}
+		} else if (isView(sourceObject) || isView(targetObject)) {
+			// A collection that becomes a view, or the other way around, is replaced
+			diffs.push(dropDiff(sourceObject), addDiff(targetObject));
 		} else {
 			for (const targetIndex of targetObject.indexes) {
 				const sourceIndex = sourceObject.indexes.find(index => index.handle === targetIndex.handle);
@@ -228,13 +267,8 @@ export function computeSchemaDiff(source: Schema[], target: Schema[], comparator
 				}
 			}
 
-			const targetFields = isUnion(targetObject)
-				? targetObject.objects.reduce(reduceUniqueField, [] as Field[])
-				: targetObject.fields;
-
-			const sourceFields = isUnion(sourceObject)
-				? sourceObject.objects.reduce(reduceUniqueField, [] as Field[])
-				: sourceObject.fields;
+			const targetFields = reduceSchemaFields(targetObject);
+			const sourceFields = reduceSchemaFields(sourceObject);
 
 			for (const targetField of targetFields) {
 				const sourceField = sourceFields.find(field => field.handle === targetField.handle);
@@ -242,6 +276,9 @@ export function computeSchemaDiff(source: Schema[], target: Schema[], comparator
 					diffs.push({ action: 'add_field', collection: targetObject.handle, field: targetField });
 				} else if (
 					targetField.localized !== sourceField.localized ||
+					!!targetField.required !== !!sourceField.required ||
+					targetField.scale !== sourceField.scale ||
+					String(targetField.values) !== String(sourceField.values) ||
 					// || targetField.multiple !== sourceField.multiple
 					// || targetField.relation !== sourceField.relation
 					// || targetField.inlined !== sourceField.inlined
@@ -268,13 +305,25 @@ export function computeSchemaDiff(source: Schema[], target: Schema[], comparator
 	for (const sourceObject of source) {
 		const targetObject = target.find(object => object.handle === sourceObject.handle);
 		if (!targetObject) {
-			diffs.push({ action: 'drop_collection', collection: sourceObject.handle });
+			diffs.push(dropDiff(sourceObject));
 		}
 	}
 
 	return diffs;
 }
 
+function addDiff(schema: Schema): Diff {
+	return isView(schema)
+		? { action: 'add_view', collection: schema.handle, view: schema.view }
+		: { action: 'add_collection', collection: schema };
+}
+
+function dropDiff(schema: Schema): Diff {
+	return isView(schema)
+		? { action: 'drop_view', collection: schema.handle }
+		: { action: 'drop_collection', collection: schema.handle };
+}
+
 export function computeLocaleDiff(source: string[], target: string[]): Diff[] {
 	const diffs: Diff[] = [];
 
@@ -293,31 +342,20 @@ export function computeLocaleDiff(source: string[], target: string[]): Diff[] {
 	return diffs;
 }
 
-function reduceUniqueField(fields: Field[], object: ObjectBase): typeof fields {
-	for (const field of object.fields) {
-		if (!fields.find(f => f.handle === field.handle)) {
-			fields.push(field);
-		}
-	}
-	return fields;
-}
-
 export function executeDiff(transaction: Transaction, schemas: Schema[], diffs: Diff[]): void {
 	const dropCollections: QueryDropCollection[] = [];
 	const createCollections: QueryCreateCollection[] = [];
 	const alterCollections: Map<string, QueryAlterCollection> = new Map();
+	const dropViews: QueryDropView[] = [];
+	const createViews: QueryCreateView[] = [];
 
-	const sortedDiffs = diffs.sort((a, b) => {
-		if (
-			a.action === 'drop_collection' ||
-			a.action === 'drop_field' ||
-			a.action === 'drop_index' ||
-			a.action === 'drop_locale'
-		) {
-			return 1;
-		}
-		return 0;
-	});
+	const isDrop = (diff: Diff) =>
+		diff.action === 'drop_collection' ||
+		diff.action === 'drop_view' ||
+		diff.action === 'drop_field' ||
+		diff.action === 'drop_index' ||
+		diff.action === 'drop_locale';
+	const sortedDiffs = diffs.filter(diff => !isDrop(diff)).concat(diffs.filter(isDrop));
 
 	function ensureAlterIsInMap(collection: string) {
 		if (!alterCollections.has(collection)) {
@@ -342,16 +380,28 @@ export function executeDiff(transaction: Transaction, schemas: Schema[], diffs:
 			case 'drop_collection':
 				dropCollections.push(q.dropCollection(diff.collection));
 				break;
+			case 'add_view':
+				createViews.push(q.createView(diff.collection, diff.view));
+				break;
+			case 'alter_view':
+				dropViews.push(q.dropView(diff.collection));
+				createViews.push(q.createView(diff.collection, diff.view));
+				break;
+			case 'drop_view':
+				dropViews.push(q.dropView(diff.collection));
+				break;
 			case 'add_locale':
-				for (const schema of schemas) {
+				for (const schema of schemas.filter(schema => !isView(schema))) {
 					const fields = reduceSchemaFields(schema);
 					for (const field of fields) {
 						if (field.localized) {
 							ensureAlterIsInMap(schema.handle);
 
+							// Rows already exist, the new locale can only be required if it gets a copy of their values
 							const newColumn = mapSchemaFieldToDbColumn({
 								...field,
 								handle: `${field.handle}__${diff.locale}`,
+								required: field.required && diff.copyFrom !== undefined,
 							});
 							alterCollections.set(
 								schema.handle,
@@ -362,7 +412,7 @@ export function executeDiff(transaction: Transaction, schemas: Schema[], diffs:
 				}
 				break;
 			case 'drop_locale':
-				for (const schema of schemas) {
+				for (const schema of schemas.filter(schema => !isView(schema))) {
 					const fields = reduceSchemaFields(schema);
 					for (const field of fields) {
 						if (field.localized) {
@@ -428,9 +478,12 @@ export function executeDiff(transaction: Transaction, schemas: Schema[], diffs:
 		}
 	}
 
+	// Views are dropped before the collections they read from change, and created once they are ready
+	dropViews.forEach(query => transaction.execute(query));
 	dropCollections.forEach(query => transaction.execute(query));
 	createCollections.forEach(query => transaction.execute(query));
 	alterCollections.forEach(query => transaction.execute(query));
+	createViews.forEach(query => transaction.execute(query));
 }
 
 function reduceSchemaFields(schema: Schema): Field[] {
@@ -439,7 +492,11 @@ function reduceSchemaFields(schema: Schema): Field[] {
 				(fields, object) => {
 					for (const field of object.fields) {
 						if (!fields.find(f => f.handle === field.handle)) {
-							fields.push(field);
+							// Objects of a union share their columns, a column is required only if every object requires it
+							const required = schema.objects.every(other =>
+								other.fields.some(f => f.handle === field.handle && !!f.required)
+							);
+							fields.push({ ...field, required });
 						}
 					}
 					return fields;
@@ -461,6 +518,16 @@ function mapSchemaColumnTypeToDbColumnType(type: FieldType): ColumnType {
 			return ColumnType.Date;
 		case 'datetime':
 			return ColumnType.DateTime;
+		case 'time':
+			return ColumnType.Time;
+		case 'decimal':
+			return ColumnType.Decimal;
+		case 'uuid':
+			return ColumnType.Uuid;
+		case 'json':
+			return ColumnType.Json;
+		case 'enum':
+			return ColumnType.Enum;
 		case 'string':
 		default:
 			return ColumnType.Text;
@@ -468,7 +535,13 @@ function mapSchemaColumnTypeToDbColumnType(type: FieldType): ColumnType {
 }
 
 function mapSchemaFieldToDbColumn(field: Field): Column {
-	return q.column(field.handle, mapSchemaColumnTypeToDbColumnType(field.type), field.size);
+	// Inlined objects are stored as they are in a JSON column
+	const type = field.inlined ? ColumnType.Json : mapSchemaColumnTypeToDbColumnType(field.type);
+	return q.column(field.handle, type, field.size, undefined, false, {
+		nullable: !field.required,
+		scale: field.scale,
+		values: field.values,
+	});
 }
 
 function mapSchemaIndexTypeToDbIndexType(type: IndexType): DBIndexType {
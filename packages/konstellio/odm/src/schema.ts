@@ -1,4 +1,5 @@
 import * as Joi from 'joi';
+import { QuerySelect } from '@konstellio/db';
 
 export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
 
@@ -11,6 +12,8 @@ export interface ObjectBase {
 
 export interface Object extends ObjectBase {
 	indexes: Index[];
+	// Views are read-only collections whose rows are those of this select
+	view?: QuerySelect;
 }
 
 export interface UnionBase {
@@ -22,12 +25,27 @@ export interface Union extends UnionBase {
 	indexes: Index[];
 }
 
-export type FieldType = 'string' | 'int' | 'float' | 'boolean' | 'date' | 'datetime' | ObjectBase | UnionBase;
+export type FieldType =
+	| 'string'
+	| 'int'
+	| 'float'
+	| 'boolean'
+	| 'date'
+	| 'datetime'
+	| 'time'
+	| 'decimal'
+	| 'uuid'
+	| 'json'
+	| 'enum'
+	| ObjectBase
+	| UnionBase;
 
 export interface Field {
 	handle: string;
 	type: FieldType;
 	size?: number;
+	scale?: number;
+	values?: string[];
 	required?: boolean;
 	localized?: boolean;
 	multiple?: boolean;
@@ -56,12 +74,28 @@ const fieldValidatorBase = Joi.object().keys({
 		.regex(localizedFieldName, { invert: true }),
 	type: Joi.alternatives()
 		.try(
-			Joi.string().allow('text', 'int', 'float', 'boolean', 'date', 'datetime'),
+			Joi.string().allow(
+				'text',
+				'int',
+				'float',
+				'boolean',
+				'date',
+				'datetime',
+				'time',
+				'decimal',
+				'uuid',
+				'json',
+				'enum'
+			),
 			Joi.lazy(() => objectBaseValidator),
 			Joi.lazy(() => unionBaseValidator)
 		)
 		.required(),
 	size: Joi.number().min(1),
+	scale: Joi.number().min(0),
+	values: Joi.array()
+		.items(Joi.string())
+		.min(1),
 	required: Joi.boolean(),
 	localized: Joi.boolean(),
 	multiple: Joi.boolean(),
@@ -111,7 +145,9 @@ const objectValidator = objectBaseValidator.keys({
 	indexes: Joi.array()
 		.items(indexValidator)
 		.min(0)
-		.required(),
+		.required()
+		.when('view', { is: Joi.exist(), then: Joi.array().max(0) }),
+	view: Joi.object().type(QuerySelect),
 });
 
 const unionBaseValidator = Joi.object().keys({
@@ -141,6 +177,10 @@ export function isObject(schema: any): schema is Object {
 	return typeof schema.indexes !== 'undefined' && isObjectBase(schema);
 }
 
+export function isView(schema: any): schema is Object & { view: QuerySelect } {
+	return isObject(schema) && schema.view !== undefined;
+}
+
 export function isObjectBase(schema: any): schema is ObjectBase {
 	return typeof schema.handle === 'string' && typeof schema.fields !== 'undefined';
 }
@@ -229,7 +269,7 @@ export function createValidator(schema: ObjectBase | UnionBase, locales: string[
 		return Joi.object().keys(
 			schema.fields.reduce(
 				(keys, field) => {
-					let validator = transformTypeToValidation(field.type);
+					let validator = transformTypeToValidation(field.type, field);
 
 					if (field.relation) {
 						validator = Joi.any();
@@ -270,7 +310,7 @@ export function createValidator(schema: ObjectBase | UnionBase, locales: string[
 		);
 	}
 
-	function transformTypeToValidation(type: FieldType): Joi.Schema {
+	function transformTypeToValidation(type: FieldType, field: Field): Joi.Schema {
 		switch (type) {
 			case 'string':
 				return Joi.string();
@@ -283,6 +323,16 @@ export function createValidator(schema: ObjectBase | UnionBase, locales: string[
 			case 'date':
 			case 'datetime':
 				return Joi.date();
+			case 'time':
+				return Joi.string().regex(/^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/);
+			case 'decimal':
+				return field.scale !== undefined ? Joi.number().precision(field.scale) : Joi.number();
+			case 'uuid':
+				return Joi.string().guid();
+			case 'json':
+				return Joi.any();
+			case 'enum':
+				return Joi.string().valid(field.values || []);
 			default:
 				return createValidator(type, locales);
 		}
@@ -430,6 +430,60 @@ describe('Collection', () => {
 		});
 		expect(res.length).to.eq(1);
 		expect(res[0].id).to.eq('post-b');
+
+		const UntypedPost = new Collection(db, ['fr', 'en'], postSchema);
+		const [c, d] = await UntypedPost.findMany({
+			fields: ['id'],
+			condition: q.or(q.eq('category', 'cat-b'), q.eq('id', 'post-c')),
+			sort: [q.sort('id')],
+		});
+		expect(c.id).to.eq('post-b');
+		expect(d.id).to.eq('post-c');
+
+		const undated = await UntypedPost.findMany({ fields: ['id'], condition: q.isNull('postDate') });
+		expect(undated.length).to.eq(0);
+
+		const [e, f] = await UntypedPost.findMany({
+			fields: ['id'],
+			condition: q.and(q.isNotNull('postDate'), q.not(q.eq('id', 'post-a'))),
+			sort: [q.sort('id')],
+		});
+		expect(e.id).to.eq('post-b');
+		expect(f.id).to.eq('post-c');
+	});
+
+	it('iterate', async () => {
+		const Post = new Collection<PostFields, PostIndexes, PostInputs>(db, ['fr', 'en'], postSchema);
+
+		const expected = await Post.findMany({ sort: [q.sort('id')] });
+		const posts: PostFields[] = [];
+		for await (const post of Post.iterate({ sort: [q.sort('id')], batchSize: 2 })) {
+			posts.push(post);
+		}
+		expect(posts).to.eql(expected);
+
+		const ids: string[] = [];
+		for await (const { id } of Post.iterate({ fields: ['id'], condition: q.ne('id', 'post-a') })) {
+			ids.push(id);
+		}
+		expect(ids.sort()).to.eql(['post-b', 'post-c']);
+	});
+
+	it('explain', async () => {
+		const Post = new Collection<PostFields, PostIndexes, PostInputs>(db, ['fr', 'en'], postSchema);
+
+		const bySlug = await Post.explain({ fields: ['id'], condition: q.eq('slug', 'my-title-2'), locale: 'en' });
+		expect(bySlug.usesIndex('post_slug__en_u')).to.eq(true);
+		expect(bySlug.fullScans).to.eql([]);
+
+		const UntypedPost = new Collection(db, ['fr', 'en'], postSchema);
+		const byTitle = await UntypedPost.explain({
+			fields: ['id'],
+			condition: q.eq('title', 'My title 2'),
+			locale: 'en',
+		});
+		expect(byTitle.fullScans.length).to.eq(1);
+		expect(byTitle.fullScans[0].collection!.name).to.eq('Post');
 	});
 
 	it('validate', async () => {
@@ -535,11 +589,14 @@ describe('Collection', () => {
 
 		const id = await Post.create(createData);
 
-		await Post.replace({
-			id,
-			...createData,
-			...replaceData,
-		});
+		expect(
+			await Post.replace({
+				id,
+				...createData,
+				...replaceData,
+			})
+		).to.eq(true);
+		expect(await Post.replace({ ...createData, id: 'non-existing' })).to.eq(false);
 
 		const post = await Post.findById(id);
 		expect(post.title).to.eq(replaceData.title.fr);
@@ -571,6 +628,43 @@ describe('Collection', () => {
 		}).to.not.throw();
 	});
 
+	it('upsert', async () => {
+		const Post = new Collection<PostFields, PostIndexes, PostInputs>(db, ['fr', 'en'], postSchema);
+		const data = {
+			title: {
+				fr: 'Mon titre 9',
+				en: 'My title 9',
+			},
+			slug: {
+				fr: 'mon-titre-9',
+				en: 'my-title-9',
+			},
+			category: {
+				fr: ['cat-a'],
+				en: [],
+			},
+			postDate: new Date(),
+		};
+
+		const id = await Post.upsert(data);
+		const created = await Post.findById(id);
+		expect(created.title).to.eq(data.title.fr);
+		expect(created.category).to.eql(['cat-a']);
+
+		expect(await Post.upsert({ ...data, id, title: { fr: 'Mon titre 10', en: 'My title 10' } })).to.eq(id);
+		const updated = await Post.findById(id);
+		expect(updated.title).to.eq('Mon titre 10');
+		expect(updated.category).to.eql(['cat-a']);
+		expect(updated.postDate).to.eql(data.postDate);
+
+		// Invalid data rejects instead of leaving the promise pending
+		await Post.upsert({ ...data, id, title: 42 } as any).then(
+			() => Promise.reject(new Error('Expected the upsert to fail')),
+			err => expect(err.message).to.eq('Provided data is not valid for Post.')
+		);
+		expect((await Post.findById(id)).title).to.eq('Mon titre 10');
+	});
+
 	it('delete', async () => {
 		const Post = new Collection<PostFields, PostIndexes, PostInputs>(db, ['fr', 'en'], postSchema);
 
@@ -590,6 +684,41 @@ describe('Collection', () => {
 			postDate: new Date(),
 		});
 
-		await Post.delete(id);
+		expect(await Post.delete(id)).to.eq(true);
+		expect(await Post.delete(id)).to.eq(false);
+
+		const relations = await db.execute(
+			q
+				.select('id')
+				.from('Relation')
+				.where(q.or(q.eq('source', id), q.eq('target', id)))
+		);
+		expect(relations.results.length).to.eq(0);
+	});
+
+	it('view', async () => {
+		const select = q.select('id', 'title__fr', 'title__en').from('Post');
+		const create = await db.transaction();
+		create.execute(q.createView('PostTitle', select));
+		await create.commit();
+
+		const PostTitle = new Collection(db, ['fr', 'en'], {
+			handle: 'PostTitle',
+			fields: [{ handle: 'id', type: 'string' }, { handle: 'title', type: 'string', localized: true }],
+			indexes: [],
+			view: select,
+		});
+		const title = await PostTitle.findById('post-a', { locale: 'en' });
+		expect(title).to.eql({ id: 'post-a', title: 'My title 1' });
+
+		expect(() => PostTitle.create({ title: { fr: 'Mon titre', en: 'My title' } })).to.throw(
+			Error,
+			'Collection PostTitle is a view and can not be written to.'
+		);
+		expect(() => PostTitle.delete('post-a')).to.throw(Error, 'is a view');
+
+		const drop = await db.transaction();
+		drop.execute(q.dropView('PostTitle'));
+		await drop.commit();
 	});
 });
@@ -4,7 +4,15 @@ import { use, expect } from 'chai';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { extractSchemaFromDatabase, computeLocaleDiff, computeSchemaDiff, Schema, executeDiff } from '../src/index';
+import {
+	extractSchemaFromDatabase,
+	computeLocaleDiff,
+	computeSchemaDiff,
+	Schema,
+	Object,
+	Field,
+	executeDiff,
+} from '../src/index';
 import { DatabaseSQLite } from '@konstellio/db-sqlite';
 import { q, ColumnType, IndexType, Transaction, Query, QueryCommitResult } from '@konstellio/db';
 
@@ -55,10 +63,10 @@ describe('Migration', () => {
 			{
 				handle: 'Post',
 				fields: [
-					{ handle: 'id', type: 'string', size: -1 },
-					{ handle: 'title', type: 'string', size: -1 },
-					{ handle: 'slug', type: 'string', size: -1 },
-					{ handle: 'postDate', type: 'string', size: -1 },
+					{ handle: 'id', type: 'string', size: -1, localized: false, required: false },
+					{ handle: 'title', type: 'string', size: -1, localized: true, required: false },
+					{ handle: 'slug', type: 'string', size: -1, localized: true, required: false },
+					{ handle: 'postDate', type: 'string', size: -1, localized: false, required: false },
 				],
 				indexes: [
 					{ handle: 'Post_id', type: 'primary', fields: [{ handle: 'id', direction: 'asc' }] },
@@ -195,6 +203,32 @@ describe('Migration', () => {
 		]);
 	});
 
+	it('compute required diff', async () => {
+		const optional: Schema = {
+			handle: 'Post',
+			fields: [{ handle: 'postDate', type: 'datetime' }],
+			indexes: [],
+		};
+		const required: Schema = { ...optional, fields: [{ handle: 'postDate', type: 'datetime', required: true }] };
+
+		expect(computeSchemaDiff([optional], [required], (a, b) => a.type === b.type)).to.eql([
+			{
+				action: 'alter_field',
+				collection: 'Post',
+				field: 'postDate',
+				definition: { handle: 'postDate', type: 'datetime', required: true },
+			},
+		]);
+		expect(computeSchemaDiff([required], [optional], (a, b) => a.type === b.type)).to.eql([
+			{
+				action: 'alter_field',
+				collection: 'Post',
+				field: 'postDate',
+				definition: { handle: 'postDate', type: 'datetime' },
+			},
+		]);
+	});
+
 	class DummyTransaction extends Transaction {
 		constructor(public queries: [string | Query, any | undefined][] = []) {
 			super();
@@ -205,6 +239,22 @@ describe('Migration', () => {
 			return {} as any;
 		}
 
+		savepoint(name: string): void {
+			throw new Error(`Dummy`);
+		}
+
+		rollbackTo(name: string): void {
+			throw new Error(`Dummy`);
+		}
+
+		release(name: string): void {
+			throw new Error(`Dummy`);
+		}
+
+		async transaction(): Promise<Transaction> {
+			throw new Error(`Dummy`);
+		}
+
 		async commit(): Promise<QueryCommitResult> {
 			throw new Error(`Dummy`);
 		}
@@ -225,9 +275,132 @@ describe('Migration', () => {
 		executeDiff(transaction, target, diffs);
 
 		expect(transaction.queries.map(q => q.toString())).to.eql([
-			'CREATE COLLECTION Event ( id TEXT, title TEXT, slug TEXT, content TEXT, postDate DATETIME, expireDate DATETIME )  INDEXES ( PRIMARY event_id (id ASC), INDEX event_postDate (postDate DESC), UNIQUE event_slug (slug ASC) ),',
-			'ALTER COLLECTION Post ( ADDIDX INDEX post_expireDate (expireDate DESC), DROPIDX post_slug, ADDCOL expireDate DATETIME, DROPCOL content, ADDCOL title__en TEXT, ADDCOL slug__en TEXT ),',
+			'CREATE COLLECTION Event ( id TEXT NOT NULL, title TEXT NOT NULL, slug TEXT NOT NULL, content TEXT, postDate DATETIME NOT NULL, expireDate DATETIME )  INDEXES ( PRIMARY event_id (id ASC), INDEX event_postDate (postDate DESC), UNIQUE event_slug (slug ASC) ),',
+			'ALTER COLLECTION Post ( ADDIDX INDEX post_expireDate (expireDate DESC), ADDCOL expireDate DATETIME, ADDCOL title__en TEXT, ADDCOL slug__en TEXT, DROPIDX post_slug, DROPCOL content ),',
 			'ALTER COLLECTION Event ( ADDCOL title__en TEXT, ADDCOL slug__en TEXT, ADDCOL content__en TEXT ),',
 		]);
 	});
+
+	it('inlined fields', async () => {
+		const inlined: Object = {
+			handle: 'Page',
+			fields: [
+				{ handle: 'id', type: 'string', required: true },
+				{
+					handle: 'seo',
+					type: { handle: 'Seo', fields: [{ handle: 'title', type: 'string' }] },
+					inlined: true,
+				},
+			],
+			indexes: [],
+		};
+		const transaction = new DummyTransaction();
+		executeDiff(transaction, [inlined], computeSchemaDiff([], [inlined], (a, b) => a.type === b.type));
+
+		expect(transaction.queries.map(q => q.toString())).to.eql([
+			'CREATE COLLECTION Page ( id TEXT NOT NULL, seo JSON )  INDEXES (  ),',
+		]);
+	});
+
+	it('add required field', async () => {
+		const insert = await db.transaction();
+		insert.execute(q.insert('Post').add({ id: 'a', title__fr: 'Bonjour', title__en: 'Hello' }));
+		await insert.commit();
+
+		const [schemas] = await extractSchemaFromDatabase(db);
+		const post = schemas.find(schema => schema.handle === 'Post')! as Object;
+		const summary: Field = { handle: 'summary', type: 'string', required: true };
+		const required: Object = { ...post, fields: [...post.fields, summary] };
+		const diffs = computeSchemaDiff([post], [required], (a, b) => a.type === b.type);
+		expect(diffs).to.eql([{ action: 'add_field', collection: 'Post', field: summary }]);
+
+		// Existing rows do not have a value for the required column
+		const failing = await db.transaction();
+		executeDiff(failing, [required], diffs);
+		await failing
+			.commit()
+			.then(
+				() => Promise.reject(new Error('Expected the migration to fail')),
+				err => expect(err.message).to.match(/NOT NULL/)
+			);
+
+		const remove = await db.transaction();
+		remove.execute(q.delete('Post').where(q.eq('id', 'a')));
+		await remove.commit();
+
+		const transaction = await db.transaction();
+		executeDiff(transaction, [required], diffs);
+		await transaction.commit();
+
+		const [migrated] = await extractSchemaFromDatabase(db);
+		expect((migrated.find(schema => schema.handle === 'Post')! as Object).fields[4]).to.eql({
+			handle: 'summary',
+			type: 'string',
+			size: -1,
+			localized: false,
+			required: true,
+		});
+
+		const teardown = await db.transaction();
+		teardown.execute(q.alterCollection('Post').dropColumn('summary'));
+		await teardown.commit();
+	});
+
+	it('views', async () => {
+		const select = q.select('id', 'title__fr', 'postDate').from('Post');
+		const create = await db.transaction();
+		create.execute(q.createView('PostTitle', select));
+		await create.commit();
+
+		const [schemas] = await extractSchemaFromDatabase(db);
+		const view = schemas.find(schema => schema.handle === 'PostTitle')! as Object;
+		expect(view.indexes).to.eql([]);
+		expect(view.fields.map(field => field.handle)).to.eql(['id', 'title', 'postDate']);
+		expect(view.view!.toJSON()).to.eql(select.toJSON());
+		expect(computeSchemaDiff(schemas, schemas, (a, b) => a.type === b.type)).to.eql([]);
+
+		const altered = q.select('id', 'title__fr').from('Post');
+		const diffs = computeSchemaDiff(
+			schemas,
+			[
+				...schemas.filter(schema => schema.handle !== 'PostTitle'),
+				{ ...view, view: altered },
+				{ handle: 'PostSlug', fields: [{ handle: 'id', type: 'string' }], indexes: [], view: altered },
+			],
+			(a, b) => a.type === b.type
+		);
+		expect(diffs).to.eql([
+			{ action: 'alter_view', collection: 'PostTitle', view: altered },
+			{ action: 'add_view', collection: 'PostSlug', view: altered },
+		]);
+
+		const replaced = computeSchemaDiff(
+			[view],
+			[{ handle: 'PostTitle', fields: [{ handle: 'id', type: 'string' }], indexes: [] }],
+			(a, b) => a.type === b.type
+		);
+		expect(replaced).to.eql([
+			{ action: 'drop_view', collection: 'PostTitle' },
+			{
+				action: 'add_collection',
+				collection: { handle: 'PostTitle', fields: [{ handle: 'id', type: 'string' }], indexes: [] },
+			},
+		]);
+
+		const transaction = new DummyTransaction();
+		executeDiff(transaction, schemas, [
+			...diffs,
+			{ action: 'add_field', collection: 'Post', field: { handle: 'expireDate', type: 'datetime' } },
+		]);
+		expect(transaction.queries.map(q => q.toString())).to.eql([
+			'DROP VIEW PostTitle,',
+			'ALTER COLLECTION Post ( ADDCOL expireDate DATETIME ),',
+			`CREATE VIEW PostTitle AS ${altered.toString()},`,
+			`CREATE VIEW PostSlug AS ${altered.toString()},`,
+		]);
+
+		const drop = await db.transaction();
+		drop.execute(q.dropView('PostTitle'));
+		await drop.commit();
+	});
 });
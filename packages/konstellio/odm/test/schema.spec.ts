@@ -150,6 +150,35 @@ describe('Schema', () => {
 		).to.eq(true);
 	});
 
+	it('field type time, decimal, uuid, json and enum', async () => {
+		const schema: Schema = {
+			handle: 'schema',
+			fields: [
+				{ handle: 'opens', type: 'time' },
+				{ handle: 'price', type: 'decimal', size: 10, scale: 2 },
+				{ handle: 'id', type: 'uuid' },
+				{ handle: 'meta', type: 'json' },
+				{ handle: 'status', type: 'enum', values: ['draft', 'published'] },
+			],
+			indexes: [],
+		};
+		expect(validateSchema(schema)).to.eq(true);
+
+		const validator = createValidator(schema, []);
+		const valid = {
+			opens: '08:30',
+			price: 12.5,
+			id: '0b9a7c9e-0f3a-4c8e-9d5e-3f1c2b7a6d10',
+			meta: { tags: ['a'] },
+			status: 'draft',
+		};
+		expect(validator.validate(valid).error).to.eq(null);
+		expect(validator.validate({ ...valid, opens: 'noon' }).error).to.not.eq(null);
+		expect(validator.validate({ ...valid, price: 1.999 }).value.price).to.eq(2);
+		expect(validator.validate({ ...valid, id: 'foo' }).error).to.not.eq(null);
+		expect(validator.validate({ ...valid, status: 'archived' }).error).to.not.eq(null);
+	});
+
 	it('field type subschema', async () => {
 		expect(
 			validateSchema({
@@ -18,6 +18,17 @@ export interface Configuration {
 
 	database: {
 		driver: string;
+		// Reads are spread across the replicas, which default to the driver of the primary
+		replicas?: {
+			driver?: string;
+			[key: string]: any;
+		}[];
+		stickyWindow?: number;
+		// Caches the results of the reads in the cache driver
+		cache?: {
+			ttl?: number;
+			prefix?: string;
+		};
 		[key: string]: any;
 	};
 
@@ -58,6 +69,16 @@ const configurationValidator = Joi.object().keys({
 		.min(1),
 	database: Joi.object({
 		driver: Joi.string().required(),
+		replicas: Joi.array().items(
+			Joi.object({
+				driver: Joi.string(),
+			}).pattern(/.*/, Joi.any())
+		),
+		stickyWindow: Joi.number().min(0),
+		cache: Joi.object({
+			ttl: Joi.number().min(1),
+			prefix: Joi.string(),
+		}),
 	})
 		.pattern(/.*/, Joi.any())
 		.default({
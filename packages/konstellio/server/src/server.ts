@@ -13,7 +13,7 @@ import {
 	UnionTypeDefinitionNode,
 	GraphQLSchema,
 } from 'graphql';
-import { Database } from '@konstellio/db';
+import { Database, DatabaseReplicated, DatabaseCached } from '@konstellio/db';
 import { FileSystem } from '@konstellio/fs';
 import { Cache } from '@konstellio/cache';
 import { MessageQueue } from '@konstellio/mq';
@@ -106,7 +106,10 @@ export async function loadContext<C extends Context = Context>(
 	configuration: Configuration,
 	basedir: string
 ): Promise<C> {
-	const [database, filesystem, cache, mq] = await loadDrivers(configuration, basedir);
+	const [driver, filesystem, cache, mq] = await loadDrivers(configuration, basedir);
+	const database = configuration.database.cache
+		? new DatabaseCached(driver, cache, configuration.database.cache)
+		: driver;
 
 	await database.connect();
 	await cache.connect();
@@ -158,13 +161,28 @@ async function loadDrivers(
 	basedir: string
 ): Promise<[Database, FileSystem, Cache, MessageQueue]> {
 	return Promise.all([
-		loadDriver<Database>(configuration.database, basedir),
+		loadDatabase(configuration.database, basedir),
 		loadDriver<FileSystem>(configuration.filesystem, basedir),
 		loadDriver<Cache>(configuration.cache, basedir),
 		loadDriver<MessageQueue>(configuration.mq, basedir),
 	]);
 }
 
+async function loadDatabase(configuration: Configuration['database'], basedir: string): Promise<Database> {
+	const { replicas, stickyWindow, cache, ...primary } = configuration;
+	const database = await loadDriver<Database>(primary as Configuration['database'], basedir);
+	if (!replicas || replicas.length === 0) {
+		return database;
+	}
+	return new DatabaseReplicated(
+		database,
+		await Promise.all(
+			replicas.map(replica => loadDriver<Database>({ driver: primary.driver, ...replica }, basedir))
+		),
+		{ stickyWindow }
+	);
+}
+
 async function loadDriver<T>(
 	configuration:
 		| Configuration['database']
@@ -276,7 +294,7 @@ export function loadCollectionSchemas(typeDef: DocumentNode): Schema[] {
 		const required = isNonNullType(node.type);
 		const localized = directives.find(directive => directive.name.value === 'localized') !== undefined;
 
-		const [type, relation] = mapTypeToFieldType(node.type);
+		const [type, relation, values] = mapTypeToFieldType(node.type);
 
 		return {
 			required,
@@ -285,11 +303,12 @@ export function loadCollectionSchemas(typeDef: DocumentNode): Schema[] {
 			type,
 			relation,
 			handle: node.name.value,
+			...(values && { values }),
 			// size?: number;
 		};
 	}
 
-	function mapTypeToFieldType(node: TypeNode): [FieldType, boolean] {
+	function mapTypeToFieldType(node: TypeNode): [FieldType, boolean, string[]?] {
 		if (node.kind === Kind.NON_NULL_TYPE || node.kind === Kind.LIST_TYPE) {
 			return mapTypeToFieldType(node.type);
 		}
@@ -312,7 +331,7 @@ export function loadCollectionSchemas(typeDef: DocumentNode): Schema[] {
 				const refNode = getDefNodeByNamedType(typeDef, node.name.value);
 				if (refNode) {
 					if (refNode.kind === Kind.ENUM_TYPE_DEFINITION) {
-						return ['string', false];
+						return ['enum', false, (refNode.values || []).map(value => value.name.value)];
 					} else if (refNode.kind === Kind.OBJECT_TYPE_DEFINITION) {
 						return [mapObjectTypeDefinitionToObjectBase(refNode), isCollection(refNode)];
 					} else if (refNode.kind === Kind.UNION_TYPE_DEFINITION) {